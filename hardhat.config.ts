@@ -2,6 +2,19 @@ import "@nomicfoundation/hardhat-foundry";
 import "@nomicfoundation/hardhat-toolbox-viem";
 import "@nomiclabs/hardhat-solhint";
 import type { HardhatUserConfig } from "hardhat/config";
+import { explorerConfig, hardhatNetworks, loadNetworks } from "./scripts/networks/config";
+import "./tasks/dex";
+import "./tasks/fee";
+import "./tasks/genesis";
+import "./tasks/health";
+import "./tasks/sdk";
+import "./tasks/seed";
+import "./tasks/subgraph";
+import "./tasks/token";
+
+// btp and the networks of networks.json, see docs/basic-usage.md
+const networks = loadNetworks();
+const explorers = explorerConfig(networks);
 
 const config: HardhatUserConfig = {
   solidity: {
@@ -12,21 +25,24 @@ const config: HardhatUserConfig = {
         enabled: true,
         runs: 10_000,
       },
+      outputSelection: {
+        "*": {
+          "*": ["storageLayout"],
+        },
+      },
     },
   },
   networks: {
     hardhat: {},
-    btp: {
-      url: process.env.BTP_RPC_URL || "",
-      gasPrice: process.env.BTP_GAS_PRICE ? parseInt(process.env.BTP_GAS_PRICE) : "auto",
-    },
+    ...hardhatNetworks(networks),
   },
   etherscan: {
-    apiKey: process.env.ETHERSCAN_API_KEY,
+    apiKey: explorers.customChains.length > 0 ? explorers.apiKey : process.env.ETHERSCAN_API_KEY,
+    customChains: explorers.customChains,
   },
   sourcify: {
     enabled: true,
-  }
+  },
 };
 
 export default config;
@@ -1,57 +1,92 @@
 import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import type { ContractFuture, ModuleParameterRuntimeValue } from "@nomicfoundation/ignition-core";
+import type { LoadedScenario } from "../scenario";
 import { ContractsModule } from "./contracts";
-import { TokenModule } from "./tokens";
+import { buildTokenModule } from "./tokens";
 
-export const DexModule = buildModule("DexModule", (m) => {
-  const { dexFactory } = m.useModule(ContractsModule);
-  const { token1, token2 } = m.useModule(TokenModule);
+/**
+ * Builds the module creating the tokens and pairs of a scenario, e.g. one loaded from a file other than
+ * `SEED_SCENARIO`.
+ *
+ * The factory orders the two tokens of a pair by address, so the base token of the scenario ends up as the quote token
+ * of the pair when its address sorts after the other one. Ignition cannot branch on what a call returns, so the order
+ * is decided while the module is built, from the addresses of the tokens deployed by the TokenModule, see
+ * `seed:deploy` and `deploySeed`.
+ * @param tokenAddresses Addresses of the deployed tokens by scenario id, every token of a pair needs one
+ */
+export function buildDexModule(scenario: LoadedScenario, tokenAddresses: Record<string, string>) {
+  const unknown = scenario.pairs
+    .flatMap(({ base, quote }) => [base, quote])
+    .filter((id, index, ids) => tokenAddresses[id] === undefined && ids.indexOf(id) === index);
+  if (unknown.length > 0) {
+    throw new Error(
+      `The addresses of the tokens ${unknown.join(", ")} are unknown, so the order of their pairs is too. ` +
+        "Deploy ignition/modules/tokens.ts first and point SEED_DEPLOYMENT to its deployment, or run seed:deploy"
+    );
+  }
 
-  const createPair = m.call(dexFactory, "createPair", [token1, token2], {
-    id: "createDexPair"
-  });
+  return buildModule("DexModule", (m) => {
+    const { dexFactory } = m.useModule(ContractsModule);
+    const tokens = m.useModule(buildTokenModule(scenario));
+    const pairs: Record<string, ContractFuture<"StarterKitERC20Dex">> = {};
+    // Pairs compare deadlines against block.number, so the deadline is a block number computed from the chain's block
+    // time when the module is deployed, see the seed:deploy task
+    let swapDeadline: ModuleParameterRuntimeValue<bigint> | undefined;
 
-  const pairAddress = m.readEventArgument(createPair, "PairCreated", "pair", {
-    id: "readPairAddress"
-  });
+    for (const { id, base, quote, baseAmount, quoteAmount, swap } of scenario.pairs) {
+      const inverted = BigInt(tokenAddresses[base]) > BigInt(tokenAddresses[quote]);
 
-  const pair = m.contractAt("StarterKitERC20Dex", pairAddress, {
-    id: "contractPairInstance"
-  });
+      const createPair = m.call(dexFactory, "createPair", [tokens[base], tokens[quote]], {
+        id: `create_${id}`
+      });
 
-  // Add liquidity
-  const approveToken1 = m.call(token1, "approve", [pair, 100000000000000000000n], {
-    id: "approveToken1ForLiquidity"
-  });
+      const pairAddress = m.readEventArgument(createPair, "PairCreated", "pair", {
+        id: `read_${id}_address`
+      });
 
-  const approveToken2 = m.call(token2, "approve", [pair, 100000000000000000000n], {
-    id: "approveToken2ForLiquidity"
-  });
+      const pair = m.contractAt("StarterKitERC20Dex", pairAddress, {
+        id: `contract_${id}_instance`
+      });
 
-  const addLiquidity = m.call(pair, "addLiquidity", [
-    100000000000000000000n,
-    100000000000000000000n
-  ], {
-    id: "addInitialLiquidity",
-    after: [approveToken1, approveToken2]
-  });
+      // Add liquidity, in the order of the pair
+      const approveBase = m.call(tokens[base], "approve", [pair, BigInt(baseAmount)], {
+        id: `approve_${id}_base_for_liquidity`
+      });
 
-  // Do a swap (only after liquidity is added)
-  const approveSwap = m.call(token1, "approve", [pair, 10000000000000000000n], {
-    id: "approveToken1ForSwap",
-    after: [addLiquidity]
-  });
+      const approveQuote = m.call(tokens[quote], "approve", [pair, BigInt(quoteAmount)], {
+        id: `approve_${id}_quote_for_liquidity`
+      });
 
-  const deadline = BigInt(Math.floor(Date.now() / 1000) + 3600); // 1 hour from now
+      const liquidity = inverted
+        ? [BigInt(quoteAmount), BigInt(baseAmount)]
+        : [BigInt(baseAmount), BigInt(quoteAmount)];
+      const addLiquidity = m.call(pair, "addLiquidity", liquidity, {
+        id: `add_${id}_initial_liquidity`,
+        after: [approveBase, approveQuote]
+      });
 
-  const executeSwap = m.call(pair, "swapBaseToQuote", [
-    3000000000000000000n,
-    66666666666666667n,
-    deadline
-  ], {
-    id: "executeSwap",
-    after: [approveSwap]
-  });
+      if (swap) {
+        // Do a swap selling the base token of the scenario (only after liquidity is added)
+        const approveSwap = m.call(tokens[base], "approve", [pair, BigInt(swap.baseAmount)], {
+          id: `approve_${id}_base_for_swap`,
+          after: [addLiquidity]
+        });
+
+        swapDeadline ??= m.getParameter<bigint>("swapDeadline");
 
+        m.call(pair, inverted ? "swapQuoteToBase" : "swapBaseToQuote", [
+          BigInt(swap.baseAmount),
+          BigInt(swap.minQuoteAmount),
+          swapDeadline
+        ], {
+          id: `execute_${id}_swap`,
+          after: [approveSwap]
+        });
+      }
 
-  return { pair };
-});
+      pairs[id] = pair;
+    }
+
+    return pairs;
+  });
+}
@@ -0,0 +1,27 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import type { NamedArtifactContractAtFuture } from "@nomicfoundation/ignition-core";
+import type { DistributionPlan } from "../../scripts/distribution/recipients";
+
+/**
+ * Builds the module paying out a validated distribution plan, with one `mint` or `transfer` call per recipient.
+ * Ignition sends the calls in batches and journals them in the deployment, so an interrupted deployment resumes
+ * without paying anyone twice. See the `token:distribute` task for validating the file into a plan.
+ */
+export function buildDistributionModule(plan: DistributionPlan) {
+  // A module cannot change once deployed, so every distribution gets a module of its own
+  return buildModule(`DistributionModule_${plan.digest.slice(2, 10)}`, (m) => {
+    const tokens: Record<string, NamedArtifactContractAtFuture<"StarterKitERC20">> = {};
+
+    for (const { line, token, symbol, recipient, amount } of plan.entries) {
+      tokens[symbol] ??= m.contractAt("StarterKitERC20", token, {
+        id: `token_${token}`
+      });
+
+      m.call(tokens[symbol], plan.mode, [recipient, amount], {
+        id: `${plan.mode}_line_${line}`
+      });
+    }
+
+    return tokens;
+  });
+}
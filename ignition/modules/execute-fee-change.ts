@@ -0,0 +1,3 @@
+import { ExecuteFeeChangeModule } from "./fee-change";
+
+export default ExecuteFeeChangeModule;
@@ -0,0 +1,32 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import type { IgnitionModuleBuilder } from "@nomicfoundation/ignition-core";
+import { zeroHash } from "viem";
+
+// Pairs only accept setFee from the TimelockController they create, so a fee change is scheduled on the timelock and
+// executed once its delay has passed, in two deployments of the same parameters
+function feeChangeCall(m: IgnitionModuleBuilder) {
+  const pair = m.contractAt("StarterKitERC20Dex", m.getParameter<string>("pair"));
+  const timelock = m.contractAt("TimelockController", m.staticCall(pair, "timelock", []));
+  const data = m.encodeFunctionCall(pair, "setFee", [m.getParameter<bigint>("fee")]);
+  // The operation id hashes the salt, schedule the same fee again with another salt
+  const salt = m.getParameter<string>("salt", zeroHash);
+
+  return { pair, timelock, data, salt };
+}
+
+export const ScheduleFeeChangeModule = buildModule("ScheduleFeeChangeModule", (m) => {
+  const { pair, timelock, data, salt } = feeChangeCall(m);
+  const delay = m.staticCall(timelock, "getMinDelay", []);
+
+  m.call(timelock, "schedule", [pair, 0n, data, zeroHash, salt, delay], { id: "schedule_fee_change" });
+
+  return { pair, timelock };
+});
+
+export const ExecuteFeeChangeModule = buildModule("ExecuteFeeChangeModule", (m) => {
+  const { pair, timelock, data, salt } = feeChangeCall(m);
+
+  m.call(timelock, "execute", [pair, 0n, data, zeroHash, salt], { id: "execute_fee_change" });
+
+  return { pair, timelock };
+});
@@ -1,3 +1,5 @@
-import { DexModule } from "./dex";
+import { loadScenario, loadTokenAddresses } from "../scenario";
+import { buildDexModule } from "./dex";
 
-export default DexModule;
\ No newline at end of file
+// Built with the tokens of the deployment in SEED_DEPLOYMENT, see seed:deploy
+export default buildDexModule(loadScenario(), loadTokenAddresses());
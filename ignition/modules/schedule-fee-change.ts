@@ -0,0 +1,3 @@
+import { ScheduleFeeChangeModule } from "./fee-change";
+
+export default ScheduleFeeChangeModule;
@@ -1,36 +1,47 @@
 import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import type { NamedArtifactContractAtFuture } from "@nomicfoundation/ignition-core";
+import { loadScenario, scenarioAccount, type LoadedScenario } from "../scenario";
 import { ContractsModule } from "./contracts";
 
-export const TokenModule = buildModule("TokenModule", (m) => {
-  const { factory } = m.useModule(ContractsModule);
+/**
+ * Builds the module creating the tokens of a scenario, e.g. one loaded from a file other than `SEED_SCENARIO`.
+ */
+export function buildTokenModule(scenario: LoadedScenario) {
+  return buildModule("TokenModule", (m) => {
+    const { factory } = m.useModule(ContractsModule);
+    const tokens: Record<string, NamedArtifactContractAtFuture<"StarterKitERC20">> = {};
 
-  const create = m.call(factory, "createToken",
-    ["Example Token", "EXT", "This is an example token"],
-    { id: "createExampleToken1" }
-  );
-  const tokenAddress = m.readEventArgument(create, "TokenCreated", "tokenAddress",
-    { id: "readToken1Address" }
-  );
-  const token1 = m.contractAt("StarterKitERC20", tokenAddress,
-    { id: "contractToken1Instance" }
-  );
+    for (const { id, name, symbol, extraData, mints, transfers } of scenario.tokens) {
+      const create = m.call(factory, "createToken", [name, symbol, extraData ?? ""], {
+        id: `create_${id}`
+      });
+      const tokenAddress = m.readEventArgument(create, "TokenCreated", "tokenAddress", {
+        id: `read_${id}_address`
+      });
+      const token = m.contractAt("StarterKitERC20", tokenAddress, {
+        id: `contract_${id}_instance`
+      });
 
-  const create2 = m.call(factory, "createToken",
-    ["Example Token 2", "EXT2", "This is an example token 2"],
-    { id: "createExampleToken2" }
-  );
-  const tokenAddress2 = m.readEventArgument(create2, "TokenCreated", "tokenAddress",
-    { id: "readToken2Address" }
-  );
-  const token2 = m.contractAt("StarterKitERC20", tokenAddress2,
-    { id: "contractToken2Instance" }
-  );
+      const minted = (mints ?? []).map(({ to, amount }, index) =>
+        m.call(token, "mint", [scenarioAccount(m, to), BigInt(amount)], {
+          id: `mint_${id}_${index}`
+        })
+      );
+      (transfers ?? []).forEach(({ from, to, amount }, index) =>
+        m.call(token, "transfer", [scenarioAccount(m, to), BigInt(amount)], {
+          id: `transfer_${id}_${index}`,
+          from: from === undefined ? undefined : scenarioAccount(m, from),
+          after: minted
+        })
+      );
 
-  m.call(token1, "mint", ["0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266", 1000000000000000000000n]); // 1000
-  m.call(token1, "transfer", ["0x70997970C51812dc3A010C7d01b50e0d17dc79C8", 5000000000000000000n]); // 5
+      tokens[id] = token;
+    }
 
-  m.call(token2, "mint", ["0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266", 1000000000000000000000n]); // 1000
-  m.call(token2, "transfer", ["0x70997970C51812dc3A010C7d01b50e0d17dc79C8", 5000000000000000000n]); // 5
+    return tokens;
+  });
+}
 
-  return { token1, token2 };
-});
+export const TokenModule = buildTokenModule(loadScenario());
+
+export default TokenModule;
@@ -0,0 +1,116 @@
+import { existsSync, readFileSync } from "node:fs";
+import path from "node:path";
+import type { IgnitionModuleBuilder } from "@nomicfoundation/ignition-core";
+
+/**
+ * An address in a scenario, either a literal address or `account:<index>` for one of the accounts of the network
+ * the modules are deployed to.
+ */
+export type ScenarioAccount = string;
+
+export interface ScenarioTransfer {
+  to: ScenarioAccount;
+  /** Amount in raw token units */
+  amount: string;
+  from?: ScenarioAccount;
+}
+
+export interface ScenarioToken {
+  /** Identifier used for the Ignition futures and module results, defaults to the symbol */
+  id?: string;
+  name: string;
+  symbol: string;
+  extraData?: string;
+  mints?: ScenarioTransfer[];
+  transfers?: ScenarioTransfer[];
+}
+
+export interface ScenarioPair {
+  /** Identifier used for the Ignition futures and module results, defaults to `<base><quote>` */
+  id?: string;
+  /** Id of the base token */
+  base: string;
+  /** Id of the quote token */
+  quote: string;
+  baseAmount: string;
+  quoteAmount: string;
+  swap?: {
+    baseAmount: string;
+    minQuoteAmount: string;
+  };
+}
+
+export interface Scenario {
+  tokens: ScenarioToken[];
+  pairs: ScenarioPair[];
+}
+
+const DEFAULT_SCENARIO = path.resolve(__dirname, "scenarios", "example.json");
+const ID_PATTERN = /^[a-zA-Z][a-zA-Z0-9_]*$/;
+
+/** A scenario with the ids of its tokens and pairs filled in, as returned by `loadScenario` */
+export interface LoadedScenario {
+  tokens: (ScenarioToken & { id: string })[];
+  pairs: (ScenarioPair & { id: string })[];
+}
+
+/**
+ * Loads the seeding scenario from the file in `SEED_SCENARIO`, or the example scenario when it is not set.
+ *
+ * Ignition parameters are only resolved when a module is executed, so the scenario deciding which tokens and pairs
+ * exist has to be read while the modules are built.
+ */
+export function loadScenario(file = process.env.SEED_SCENARIO || DEFAULT_SCENARIO): LoadedScenario {
+  const scenario = JSON.parse(readFileSync(path.resolve(file), "utf8")) as Partial<Scenario>;
+  const tokens = (scenario.tokens ?? []).map((token) => ({ ...token, id: token.id ?? token.symbol }));
+  const pairs = (scenario.pairs ?? []).map((pair) => ({ ...pair, id: pair.id ?? `${pair.base}${pair.quote}` }));
+
+  const ids = new Set<string>();
+  for (const { id } of [...tokens, ...pairs]) {
+    if (!ID_PATTERN.test(id)) throw new Error(`Scenario id ${id} can only contain letters, digits and underscores`);
+    if (ids.has(id)) throw new Error(`Scenario id ${id} is used more than once`);
+    ids.add(id);
+  }
+  for (const pair of pairs) {
+    for (const token of [pair.base, pair.quote]) {
+      if (!tokens.some(({ id }) => id === token)) throw new Error(`Pair ${pair.id} uses unknown token ${token}`);
+    }
+  }
+
+  return { tokens, pairs };
+}
+
+/**
+ * Picks the addresses of the scenario tokens out of the addresses of an Ignition deployment, keyed by future id as in
+ * its `deployed_addresses.json`.
+ * @returns The token addresses by scenario id
+ */
+export function scenarioTokenAddresses(deployedAddresses: Record<string, string>): Record<string, string> {
+  const tokens: Record<string, string> = {};
+  for (const [futureId, address] of Object.entries(deployedAddresses)) {
+    const [, id] = futureId.match(/^TokenModule#contract_(.+)_instance$/) ?? [];
+    if (id !== undefined) tokens[id] = address;
+  }
+  return tokens;
+}
+
+/**
+ * Loads the addresses of the scenario tokens from the Ignition deployment in `SEED_DEPLOYMENT`, which `seed:deploy`
+ * points to its deployment once the TokenModule is deployed. Like the scenario, they have to be known while the
+ * modules are built.
+ */
+export function loadTokenAddresses(deploymentDir = process.env.SEED_DEPLOYMENT): Record<string, string> {
+  if (!deploymentDir) return {};
+
+  const file = path.resolve(deploymentDir, "deployed_addresses.json");
+  if (!existsSync(file)) throw new Error(`No deployed addresses found in ${deploymentDir}, deploy the tokens first`);
+  return scenarioTokenAddresses(JSON.parse(readFileSync(file, "utf8")) as Record<string, string>);
+}
+
+/**
+ * Resolves a scenario account to an address or to an Ignition account runtime value.
+ */
+export function scenarioAccount(m: IgnitionModuleBuilder, account: ScenarioAccount) {
+  const [, index] = account.match(/^account:(\d+)$/) ?? [];
+  return index === undefined ? account : m.getAccount(Number(index));
+}
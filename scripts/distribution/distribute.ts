@@ -0,0 +1,364 @@
+import {
+  encodeFunctionData,
+  isAddressEqual,
+  TransactionNotFoundError,
+  TransactionReceiptNotFoundError,
+  type Address,
+  type Hash,
+  type PublicClient,
+  type TransactionReceipt,
+  type WalletClient,
+} from "viem";
+import { decodeContractError, starterKitERC20Abi, type StarterKitClients } from "../../sdk";
+import type { DistributionJournal, SendingPayment } from "./journal";
+import type { DistributionEntry, DistributionPlan } from "./recipients";
+
+export interface DistributionProgress {
+  /** Entries paid, in this run or an earlier one */
+  paid: number;
+  total: number;
+}
+
+export interface ReconciliationEntry {
+  line: number;
+  token: Address;
+  symbol: string;
+  recipient: Address;
+  amount: string;
+  before: string;
+  expected: string;
+  actual: string;
+  hash: Hash | null;
+  ok: boolean;
+}
+
+export interface ReconciliationReport {
+  digest: string;
+  mode: DistributionPlan["mode"];
+  chainId: number;
+  blockNumber: string;
+  ok: boolean;
+  tokens: { token: Address; symbol: string; recipients: number; amount: string; mismatches: number }[];
+  entries: ReconciliationEntry[];
+}
+
+const READ_CONCURRENCY = 20;
+
+/**
+ * Records the balance every recipient holds before the distribution pays anything, which the reconciliation compares
+ * against. Resumed runs keep the balances of the first run.
+ */
+export async function recordBaselines(
+  publicClient: PublicClient,
+  plan: DistributionPlan,
+  journal: DistributionJournal,
+): Promise<void> {
+  const missing = plan.entries.filter((entry) => journal.baseline(entry) === undefined);
+  if (missing.some((entry) => journal.sending(entry) !== undefined || journal.sentHash(entry) !== undefined)) {
+    throw new Error(`${journal.file} has payments without the balances before them, it cannot be reconciled`);
+  }
+
+  for (let start = 0; start < missing.length; start += READ_CONCURRENCY) {
+    const batch = missing.slice(start, start + READ_CONCURRENCY);
+    await journal.recordBaselines(
+      await Promise.all(batch.map(async (entry) => [entry, await balanceOf(publicClient, entry)] as const)),
+    );
+  }
+}
+
+/**
+ * Checks that the sender can pay out what is left of the distribution: it has to own every token to mint, or hold
+ * enough of every token to transfer.
+ */
+export async function checkSender(
+  publicClient: PublicClient,
+  plan: DistributionPlan,
+  journal: DistributionJournal,
+  sender: Address,
+): Promise<void> {
+  const pending = plan.entries.filter((entry) => journal.sentHash(entry) === undefined);
+  const totals = new Map<Address, { symbol: string; amount: bigint }>();
+  for (const entry of pending) {
+    const total = totals.get(entry.token) ?? { symbol: entry.symbol, amount: 0n };
+    totals.set(entry.token, { ...total, amount: total.amount + entry.amount });
+  }
+
+  for (const [token, { symbol, amount }] of totals) {
+    if (plan.mode === "mint") {
+      const owner = await publicClient.readContract({ address: token, abi: starterKitERC20Abi, functionName: "owner" });
+      if (owner !== sender) throw new Error(`Only the owner ${owner} of ${symbol} can mint it, not ${sender}`);
+    } else {
+      const balance = await publicClient.readContract({
+        address: token,
+        abi: starterKitERC20Abi,
+        functionName: "balanceOf",
+        args: [sender],
+      });
+      if (balance < amount) throw new Error(`${sender} holds ${balance} ${symbol}, the distribution needs ${amount}`);
+      if (pending.some((entry) => entry.token === token && entry.recipient === sender)) {
+        throw new Error(`${sender} cannot transfer ${symbol} to itself`);
+      }
+    }
+  }
+}
+
+/**
+ * Pays out the entries of the plan that the journal has no payment for, `batchSize` transactions at a time: a batch
+ * is sent without waiting in between, and journaled once all its receipts are in. Every transaction is sent with a
+ * nonce journaled before it. Transactions an earlier run sent but did not see mined are looked up first, by hash or,
+ * when the run stopped before the node returned the hash, by nonce, and only paid again with a new nonce once another
+ * transaction used theirs.
+ */
+export async function distribute(
+  clients: StarterKitClients,
+  plan: DistributionPlan,
+  journal: DistributionJournal,
+  batchSize: number,
+  onProgress?: (progress: DistributionProgress) => void,
+): Promise<void> {
+  const { publicClient, walletClient } = clients;
+  if (!walletClient?.account) throw new Error("A wallet client with an account is needed to distribute tokens");
+
+  const sender = walletClient.account.address;
+  for (const entry of plan.entries.filter((entry) => journal.sending(entry) && journal.sentHash(entry) === undefined)) {
+    const hash = await findPayment(publicClient, plan, entry, sender, journal.sending(entry)!);
+    if (hash) await journal.recordSent(entry, hash);
+  }
+
+  const inFlight = plan.entries.filter(
+    (entry) => journal.sentHash(entry) !== undefined && journal.confirmedHash(entry) === undefined,
+  );
+  for (const entry of inFlight) {
+    await settle(clients, plan, journal, entry, journal.sentHash(entry)!);
+  }
+
+  const pending = plan.entries.filter((entry) => journal.confirmedHash(entry) === undefined);
+  let paid = plan.entries.length - pending.length;
+  onProgress?.({ paid, total: plan.entries.length });
+
+  for (let start = 0; start < pending.length; start += batchSize) {
+    const batch = pending.slice(start, start + batchSize);
+    const hashes: Hash[] = [];
+    const block = await publicClient.getBlockNumber();
+    let nonce = await publicClient.getTransactionCount({ address: sender, blockTag: "pending" });
+    for (const entry of batch) {
+      // Journaled before sending, a run that stops before the hash is journaled finds the payment by its nonce
+      await journal.recordSending(entry, { nonce, block });
+      const hash = await sendPayment(walletClient, plan, entry, nonce++);
+      await journal.recordSent(entry, hash);
+      hashes.push(hash);
+    }
+
+    const reverted: Hash[] = [];
+    for (const [index, entry] of batch.entries()) {
+      if (!(await settle(clients, plan, journal, entry, hashes[index]))) reverted.push(hashes[index]);
+    }
+    paid += batch.length - reverted.length;
+    onProgress?.({ paid, total: plan.entries.length });
+    if (reverted.length > 0) {
+      throw new Error(`${reverted.length} payments reverted, e.g. ${reverted[0]}, run again to retry them`);
+    }
+  }
+}
+
+async function sendPayment(
+  walletClient: WalletClient,
+  plan: DistributionPlan,
+  entry: DistributionEntry,
+  nonce: number,
+): Promise<Hash> {
+  try {
+    return await walletClient.writeContract({
+      address: entry.token,
+      abi: starterKitERC20Abi,
+      functionName: plan.mode,
+      args: [entry.recipient, entry.amount],
+      account: walletClient.account!,
+      chain: walletClient.chain,
+      nonce,
+    });
+  } catch (error) {
+    throw decodeContractError(error);
+  }
+}
+
+/**
+ * Looks up the transaction an earlier run sent to pay the entry with a journaled nonce. Returns undefined when the
+ * nonce is unused or was used by another transaction, so the entry is still unpaid.
+ */
+async function findPayment(
+  publicClient: PublicClient,
+  plan: DistributionPlan,
+  entry: DistributionEntry,
+  sender: Address,
+  { nonce, block }: SendingPayment,
+): Promise<Hash | undefined> {
+  if ((await publicClient.getTransactionCount({ address: sender, blockTag: "latest" })) <= nonce) {
+    if ((await publicClient.getTransactionCount({ address: sender, blockTag: "pending" })) > nonce) {
+      throw new Error(`The transaction of ${sender} with nonce ${nonce} is not mined yet, run again once it is`);
+    }
+    return undefined;
+  }
+
+  // The first block after which the sender has used the nonce is the one that mined it
+  let low = block;
+  let high = await publicClient.getBlockNumber();
+  while (low < high) {
+    const middle = (low + high) / 2n;
+    if ((await publicClient.getTransactionCount({ address: sender, blockNumber: middle })) > nonce) high = middle;
+    else low = middle + 1n;
+  }
+
+  const { transactions } = await publicClient.getBlock({ blockNumber: low, includeTransactions: true });
+  const payment = transactions.find(
+    (transaction) =>
+      isAddressEqual(transaction.from, sender) &&
+      transaction.nonce === nonce &&
+      transaction.to !== null &&
+      isAddressEqual(transaction.to, entry.token) &&
+      transaction.input ===
+        encodeFunctionData({
+          abi: starterKitERC20Abi,
+          functionName: plan.mode,
+          args: [entry.recipient, entry.amount],
+        }),
+  );
+  return payment?.hash;
+}
+
+/** Waits for a journaled transaction and records whether it paid the entry. Returns false when it has to be resent. */
+async function settle(
+  clients: StarterKitClients,
+  plan: DistributionPlan,
+  journal: DistributionJournal,
+  entry: DistributionEntry,
+  hash: Hash,
+): Promise<boolean> {
+  let receipt: TransactionReceipt | undefined;
+  try {
+    receipt = await clients.publicClient.getTransactionReceipt({ hash });
+  } catch (error) {
+    if (!(error instanceof TransactionReceiptNotFoundError)) throw error;
+    receipt = await waitForPayment(clients, plan, journal, entry, hash);
+  }
+
+  if (receipt?.status === "success") {
+    await journal.recordConfirmed(entry, receipt.transactionHash);
+    return true;
+  }
+  await journal.recordReverted(entry, receipt?.transactionHash ?? hash);
+  return false;
+}
+
+/**
+ * Waits for a payment that is not mined yet. A node that does not know the transaction, e.g. one behind a load
+ * balancer that has not seen it yet, does not make it dropped: only a nonce another transaction used does. Until then
+ * the payment is sent again with the same nonce, so whichever of the two is mined is the only one that pays. Returns
+ * undefined when the payment was dropped.
+ */
+async function waitForPayment(
+  clients: StarterKitClients,
+  plan: DistributionPlan,
+  journal: DistributionJournal,
+  entry: DistributionEntry,
+  hash: Hash,
+): Promise<TransactionReceipt | undefined> {
+  const { publicClient, walletClient } = clients;
+  try {
+    await publicClient.getTransaction({ hash });
+    return await publicClient.waitForTransactionReceipt({ hash });
+  } catch (error) {
+    if (!(error instanceof TransactionNotFoundError)) throw error;
+  }
+
+  const sending = journal.sending(entry);
+  if (sending === undefined)
+    throw new Error(`${journal.file} has no nonce for ${hash}, it cannot tell if it was dropped`);
+  const sender = walletClient!.account!.address;
+  if ((await publicClient.getTransactionCount({ address: sender, blockTag: "latest" })) > sending.nonce) {
+    const payment = await findPayment(publicClient, plan, entry, sender, sending);
+    if (payment === undefined) return undefined;
+    if (payment !== hash) await journal.recordSent(entry, payment);
+    return publicClient.getTransactionReceipt({ hash: payment });
+  }
+
+  const resent = await sendPayment(walletClient!, plan, entry, sending.nonce);
+  await journal.recordSent(entry, resent);
+  // Resolves with the receipt of the other transaction when that one is mined instead
+  return publicClient.waitForTransactionReceipt({ hash: resent });
+}
+
+/**
+ * Compares the balance of every recipient against the balance it held before the distribution plus what it was paid.
+ * Recipients that receive the same token from elsewhere in the meantime show up as mismatches too.
+ */
+export async function reconcileDistribution(
+  publicClient: PublicClient,
+  plan: DistributionPlan,
+  journal: DistributionJournal,
+): Promise<ReconciliationReport> {
+  const blockNumber = await publicClient.getBlockNumber();
+  const entries: ReconciliationEntry[] = [];
+  for (let start = 0; start < plan.entries.length; start += READ_CONCURRENCY) {
+    const batch = plan.entries.slice(start, start + READ_CONCURRENCY);
+    entries.push(
+      ...(await Promise.all(
+        batch.map(async (entry) => {
+          const before = journal.baseline(entry);
+          if (before === undefined) throw new Error(`${journal.file} has no balance before line ${entry.line}`);
+          const actual = await balanceOf(publicClient, entry, blockNumber);
+          const expected = before + entry.amount;
+          return {
+            line: entry.line,
+            token: entry.token,
+            symbol: entry.symbol,
+            recipient: entry.recipient,
+            amount: `${entry.amount}`,
+            before: `${before}`,
+            expected: `${expected}`,
+            actual: `${actual}`,
+            hash: journal.confirmedHash(entry) ?? null,
+            ok: actual === expected,
+          };
+        }),
+      )),
+    );
+  }
+
+  const tokens = new Map<Address, ReconciliationReport["tokens"][number]>();
+  for (const entry of entries) {
+    const token = tokens.get(entry.token) ?? {
+      token: entry.token,
+      symbol: entry.symbol,
+      recipients: 0,
+      amount: "0",
+      mismatches: 0,
+    };
+    tokens.set(entry.token, {
+      ...token,
+      recipients: token.recipients + 1,
+      amount: `${BigInt(token.amount) + BigInt(entry.amount)}`,
+      mismatches: token.mismatches + (entry.ok ? 0 : 1),
+    });
+  }
+
+  return {
+    digest: plan.digest,
+    mode: plan.mode,
+    chainId: await publicClient.getChainId(),
+    blockNumber: `${blockNumber}`,
+    ok: entries.every((entry) => entry.ok),
+    tokens: [...tokens.values()],
+    entries,
+  };
+}
+
+function balanceOf(publicClient: PublicClient, entry: DistributionEntry, blockNumber?: bigint): Promise<bigint> {
+  return publicClient.readContract({
+    address: entry.token,
+    abi: starterKitERC20Abi,
+    functionName: "balanceOf",
+    args: [entry.recipient],
+    blockNumber,
+  });
+}
@@ -0,0 +1,104 @@
+import { existsSync } from "node:fs";
+import { appendFile, readFile, truncate } from "node:fs/promises";
+import type { Address, Hash } from "viem";
+import type { DistributionEntry, DistributionPlan } from "./recipients";
+
+type JournalMessage =
+  | { type: "plan"; digest: string; mode: string; chainId: number; entries: number }
+  | { type: "baseline"; key: string; balance: string }
+  | { type: "sending"; key: string; nonce: number; block: string }
+  | { type: "sent"; key: string; hash: Hash }
+  | { type: "confirmed"; key: string; hash: Hash }
+  | { type: "reverted"; key: string; hash: Hash };
+
+export type DistributionJournal = Awaited<ReturnType<typeof openJournal>>;
+
+/** Identifies an entry in the journal, a token is paid to an address at most once per distribution */
+export function entryKey(entry: { token: Address; recipient: Address }): string {
+  return `${entry.token}/${entry.recipient}`;
+}
+
+/** The nonce a payment is sent with, and the block before it was sent */
+export interface SendingPayment {
+  nonce: number;
+  block: bigint;
+}
+
+/**
+ * Opens the append-only journal of a distribution, creating it on the first run. The journal records the balances
+ * of the recipients before anything was paid, the nonce of every transaction before it is sent, its hash once the
+ * node accepted it and whether it was mined, so an interrupted run picks up where it stopped without paying anyone
+ * twice.
+ * @param file Path of the JSON lines journal
+ * @param chainId Chain the distribution pays out on, a journal cannot be resumed on another chain
+ */
+export async function openJournal(file: string, plan: DistributionPlan, chainId: number) {
+  const baselines = new Map<string, bigint>();
+  const sending = new Map<string, SendingPayment>();
+  const sent = new Map<string, Hash>();
+  const confirmed = new Map<string, Hash>();
+
+  const apply = (message: JournalMessage) => {
+    if (message.type === "baseline") baselines.set(message.key, BigInt(message.balance));
+    if (message.type === "sending") sending.set(message.key, { nonce: message.nonce, block: BigInt(message.block) });
+    if (message.type === "sent") sent.set(message.key, message.hash);
+    if (message.type === "confirmed") confirmed.set(message.key, message.hash);
+    // A reverted payment is paid again on the next run
+    if (message.type === "reverted") {
+      sending.delete(message.key);
+      sent.delete(message.key);
+    }
+  };
+  const append = async (messages: JournalMessage[]) => {
+    if (messages.length === 0) return;
+    await appendFile(file, messages.map((message) => `${JSON.stringify(message)}\n`).join(""));
+    messages.forEach(apply);
+  };
+
+  if (existsSync(file)) {
+    const content = await readFile(file, "utf8");
+    // A run killed while appending leaves an incomplete last line, which it never acted upon
+    const complete = content.slice(0, content.lastIndexOf("\n") + 1);
+    if (complete.length < content.length) await truncate(file, Buffer.byteLength(complete));
+    const messages = complete
+      .split("\n")
+      .map((line, index) => {
+        if (line.trim() === "") return undefined;
+        try {
+          return JSON.parse(line) as JournalMessage;
+        } catch {
+          throw new Error(`${file} is corrupt at line ${index + 1}`);
+        }
+      })
+      .filter((message): message is JournalMessage => message !== undefined);
+    const header = messages[0];
+    if (header?.type !== "plan") throw new Error(`${file} is not a distribution journal`);
+    if (header.digest !== plan.digest || header.mode !== plan.mode) {
+      throw new Error(`${file} journals another distribution, the recipients or amounts changed since it was started`);
+    }
+    if (header.chainId !== chainId) throw new Error(`${file} journals a distribution on chain ${header.chainId}`);
+    messages.forEach(apply);
+  } else {
+    await append([{ type: "plan", digest: plan.digest, mode: plan.mode, chainId, entries: plan.entries.length }]);
+  }
+
+  return {
+    file,
+    baseline: (entry: DistributionEntry) => baselines.get(entryKey(entry)),
+    /** Nonce of the last transaction sent to pay the entry, it may have reached the node before its hash was known */
+    sending: (entry: DistributionEntry) => sending.get(entryKey(entry)),
+    /** Hash of the transaction that paid the entry, or was sent to and may still be mined */
+    sentHash: (entry: DistributionEntry) => sent.get(entryKey(entry)),
+    confirmedHash: (entry: DistributionEntry) => confirmed.get(entryKey(entry)),
+
+    recordBaselines: (balances: (readonly [DistributionEntry, bigint])[]) =>
+      append(balances.map(([entry, balance]) => ({ type: "baseline", key: entryKey(entry), balance: `${balance}` }))),
+    recordSending: (entry: DistributionEntry, payment: SendingPayment) =>
+      append([{ type: "sending", key: entryKey(entry), nonce: payment.nonce, block: `${payment.block}` }]),
+    recordSent: (entry: DistributionEntry, hash: Hash) => append([{ type: "sent", key: entryKey(entry), hash }]),
+    recordConfirmed: (entry: DistributionEntry, hash: Hash) =>
+      append([{ type: "confirmed", key: entryKey(entry), hash }]),
+    recordReverted: (entry: DistributionEntry, hash: Hash) =>
+      append([{ type: "reverted", key: entryKey(entry), hash }]),
+  };
+}
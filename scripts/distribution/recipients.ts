@@ -0,0 +1,167 @@
+import path from "node:path";
+import { getAddress, isAddress, keccak256, parseUnits, stringToHex, zeroAddress, type Address } from "viem";
+
+/** A recipient as written in the distribution file, before it is validated */
+export interface RecipientRow {
+  /** Line of a CSV file or position of a JSON entry, counted from 1 */
+  line: number;
+  address: string;
+  /** Amount in token units, e.g. `1.5` */
+  amount: string;
+  /** Symbol or address of the token, when the file names one */
+  token?: string;
+}
+
+export interface DistributionEntry {
+  line: number;
+  token: Address;
+  symbol: string;
+  recipient: Address;
+  /** Amount in raw token units */
+  amount: bigint;
+}
+
+export type DistributionMode = "mint" | "transfer";
+
+export interface DistributionPlan {
+  mode: DistributionMode;
+  entries: DistributionEntry[];
+  /** Identifies the plan in the journal, so a journal is never resumed with another file */
+  digest: string;
+}
+
+export interface DistributionIssue {
+  line: number;
+  message: string;
+}
+
+/** The distribution file has rows that cannot be paid out, listed all at once so they can be fixed in one go. */
+export class DistributionFileError extends Error {
+  override name = "DistributionFileError";
+
+  constructor(readonly issues: DistributionIssue[]) {
+    super(
+      `The distribution file has ${issues.length} invalid rows:\n${issues
+        .map(({ line, message }) => `  line ${line}: ${message}`)
+        .join("\n")}`,
+    );
+  }
+}
+
+/**
+ * Parses the recipients of a distribution file: a CSV with `address,amount[,token]` rows and an optional header, or
+ * a JSON array of `{ "address", "amount", "token" }` objects. Empty lines and lines starting with `#` are skipped.
+ * @param file Name of the file, its extension picks the format
+ * @param content Contents of the file
+ */
+export function parseRecipients(file: string, content: string): RecipientRow[] {
+  if (path.extname(file).toLowerCase() === ".json") {
+    const entries = JSON.parse(content) as { address?: unknown; amount?: unknown; token?: unknown }[];
+    if (!Array.isArray(entries)) throw new Error(`${file} does not hold a JSON array of recipients`);
+    return entries.map(({ address, amount, token }, index) => ({
+      line: index + 1,
+      address: String(address ?? ""),
+      amount: String(amount ?? ""),
+      token: token === undefined || token === "" ? undefined : String(token),
+    }));
+  }
+
+  const rows: RecipientRow[] = [];
+  for (const [index, line] of content.split(/\r?\n/).entries()) {
+    if (line.trim() === "" || line.trim().startsWith("#")) continue;
+    const [address = "", amount = "", token = ""] = line.split(",").map((cell) => cell.trim());
+    if (rows.length === 0 && address.toLowerCase() === "address") continue;
+    rows.push({ line: index + 1, address, amount, token: token === "" ? undefined : token });
+  }
+  return rows;
+}
+
+/**
+ * Validates the recipients and resolves their tokens into a plan. Every row is checked before anything is paid:
+ * addresses must be valid, with a correct checksum when they are mixed-case, amounts must be positive and fit the
+ * decimals of their token, and a token can only be paid to the same address once.
+ * @param resolveToken Resolves a symbol or address to the token address, e.g. through the registry
+ * @param describeToken Reads the symbol and decimals of a token
+ * @param defaultToken Token of the rows that do not name one
+ */
+export async function planDistribution(
+  rows: RecipientRow[],
+  mode: DistributionMode,
+  resolveToken: (token: string) => Promise<Address>,
+  describeToken: (token: Address) => Promise<{ symbol: string; decimals: number }>,
+  defaultToken?: string,
+): Promise<DistributionPlan> {
+  const issues: DistributionIssue[] = [];
+  const tokens = new Map<string, { address: Address; symbol: string; decimals: number } | Error>();
+  const paid = new Map<string, number>();
+  const entries: DistributionEntry[] = [];
+
+  for (const row of rows) {
+    const issue = (message: string) => issues.push({ line: row.line, message });
+
+    const tokenName = row.token ?? defaultToken;
+    if (tokenName === undefined) {
+      issue("no token, add a token column or pass a default token");
+      continue;
+    }
+    if (!tokens.has(tokenName)) {
+      try {
+        const address = await resolveToken(tokenName);
+        tokens.set(tokenName, { address, ...(await describeToken(address)) });
+      } catch (error) {
+        tokens.set(tokenName, error as Error);
+      }
+    }
+    const token = tokens.get(tokenName)!;
+    if (token instanceof Error) {
+      issue(token.message);
+      continue;
+    }
+
+    if (!/^0x[0-9a-fA-F]{40}$/.test(row.address)) {
+      issue(`${row.address || "empty address"} is not an address`);
+      continue;
+    }
+    if (!isAddress(row.address)) {
+      issue(`${row.address} has a wrong checksum, expected ${getAddress(row.address)}`);
+      continue;
+    }
+    const recipient = getAddress(row.address);
+    if (recipient === zeroAddress) {
+      issue("tokens cannot be sent to the zero address");
+      continue;
+    }
+
+    const match = /^(\d+)(?:\.(\d+))?$/.exec(row.amount);
+    if (!match) {
+      issue(`amount ${row.amount || "(empty)"} is not a positive decimal number`);
+      continue;
+    }
+    if ((match[2]?.length ?? 0) > token.decimals) {
+      issue(`amount ${row.amount} has more decimals than the ${token.decimals} of ${token.symbol}`);
+      continue;
+    }
+    const amount = parseUnits(row.amount, token.decimals);
+    if (amount === 0n) {
+      issue("amount is zero");
+      continue;
+    }
+
+    const key = `${token.address}/${recipient}`;
+    if (paid.has(key)) {
+      issue(`${recipient} already receives ${token.symbol} on line ${paid.get(key)}`);
+      continue;
+    }
+    paid.set(key, row.line);
+
+    entries.push({ line: row.line, token: token.address, symbol: token.symbol, recipient, amount });
+  }
+
+  if (issues.length > 0) throw new DistributionFileError(issues);
+  return { mode, entries, digest: distributionDigest(mode, entries) };
+}
+
+function distributionDigest(mode: DistributionMode, entries: DistributionEntry[]): string {
+  const rows = entries.map(({ token, recipient, amount }) => `${token},${recipient},${amount}`);
+  return keccak256(stringToHex([mode, ...rows].join("\n")));
+}
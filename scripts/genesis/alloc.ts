@@ -0,0 +1,269 @@
+import type { Artifacts } from "hardhat/types";
+import {
+  encodeAbiParameters,
+  getAddress,
+  keccak256,
+  numberToHex,
+  pad,
+  stringToBytes,
+  stringToHex,
+  toHex,
+  type Address,
+  type Hex,
+} from "viem";
+import { StorageWriter, type StorageLayout } from "./storage";
+
+// NEVER EVER CHANGE THESE ADDRESSES: genesis files of running networks and the subgraph manifest depend on them.
+export const PRESET_ADDRESSES = {
+  registry: "0x5e771e1417100000000000000000000000000001",
+  factory: "0x5e771e1417100000000000000000000000000002",
+  dexFactory: "0x5e771e1417100000000000000000000000000003",
+} as const satisfies Record<string, Address>;
+
+/** Seeded tokens without an explicit address are placed at this address and the ones following it. */
+export const SEEDED_TOKEN_ADDRESS_START = 0x5e771e1417100000000000000000000000000100n;
+
+const EIP712_VERSION = "1";
+const EIP712_TYPE_HASH = keccak256(
+  stringToHex("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"),
+);
+const SHORT_STRING_FALLBACK_SENTINEL = 0xffn;
+
+/**
+ * A token that is created and registered in the preset registry at genesis.
+ */
+export interface GenesisToken {
+  name: string;
+  symbol: string;
+  extraData?: string;
+  owner: Address;
+  address?: Address;
+  balances?: Record<Address, string | number | bigint>;
+}
+
+export interface AllocAccount {
+  balance: Hex;
+  code: Hex;
+  storage: Record<Hex, Hex>;
+}
+
+export type Alloc = Record<Address, AllocAccount>;
+
+export interface AllocOptions {
+  /** Chain id of the target network, needed to pre-compute the EIP-712 domain of seeded tokens */
+  chainId?: number;
+  tokens?: GenesisToken[];
+}
+
+interface CompiledContract {
+  deployedBytecode: Hex;
+  storageLayout: StorageLayout;
+  immutables: Record<string, { start: number; length: number }[]>;
+}
+
+/**
+ * Builds the genesis alloc for the predeployed registry, token factory and DEX factory, optionally seeding tokens.
+ * @param artifacts The Hardhat artifacts of a compiled project
+ * @param options The chain id and the tokens to seed
+ */
+export async function buildAlloc(artifacts: Artifacts, options: AllocOptions = {}): Promise<Alloc> {
+  const tokens = resolveTokens(options.tokens ?? []);
+  if (tokens.length > 0 && options.chainId === undefined) {
+    throw new Error("A chain id is required to seed tokens in the genesis alloc");
+  }
+
+  const registry = await loadContract(artifacts, "contracts/StarterKitERC20Registry.sol:StarterKitERC20Registry");
+  const factory = await loadContract(
+    artifacts,
+    "contracts/PresetStarterKitERC20Factory.sol:PresetStarterKitERC20Factory",
+  );
+  const dexFactory = await loadContract(artifacts, "contracts/StarterKitERC20DexFactory.sol:StarterKitERC20DexFactory");
+
+  const alloc: Alloc = {
+    [PRESET_ADDRESSES.registry]: account(
+      registry.deployedBytecode,
+      new StorageWriter(registry.storageLayout)
+        .set(
+          "tokens",
+          tokens.map((token) => ({ tokenAddress: token.address, symbol: token.symbol, extraData: token.extraData })),
+        )
+        .set("addressToIndex", Object.fromEntries(tokens.map((token, index) => [token.address, BigInt(index + 1)])))
+        .set("symbolToIndex", Object.fromEntries(tokens.map((token, index) => [token.symbol, BigInt(index + 1)]))),
+    ),
+    [PRESET_ADDRESSES.factory]: account(
+      factory.deployedBytecode,
+      new StorageWriter(factory.storageLayout).set("_registry", PRESET_ADDRESSES.registry),
+    ),
+    [PRESET_ADDRESSES.dexFactory]: account(dexFactory.deployedBytecode, new StorageWriter(dexFactory.storageLayout)),
+  };
+
+  if (tokens.length > 0) {
+    const token = await loadContract(artifacts, "contracts/StarterKitERC20.sol:StarterKitERC20");
+    for (const seeded of tokens) {
+      alloc[seeded.address.toLowerCase() as Address] = tokenAccount(token, seeded, options.chainId!);
+    }
+  }
+
+  return alloc;
+}
+
+/**
+ * Computes the EIP-712 domain separator a StarterKitERC20 token deployed at `address` reports.
+ */
+export function tokenDomainSeparator(name: string, chainId: number, address: Address): Hex {
+  return keccak256(
+    encodeAbiParameters(
+      [{ type: "bytes32" }, { type: "bytes32" }, { type: "bytes32" }, { type: "uint256" }, { type: "address" }],
+      [
+        EIP712_TYPE_HASH,
+        keccak256(stringToHex(name)),
+        keccak256(stringToHex(EIP712_VERSION)),
+        BigInt(chainId),
+        address,
+      ],
+    ),
+  );
+}
+
+/**
+ * Assigns addresses to the seeded tokens and rejects anything the registry itself would reject.
+ */
+export function resolveTokens(tokens: GenesisToken[]): (Required<GenesisToken> & { supply: bigint })[] {
+  const symbols = new Set<string>();
+  const addresses = new Set<string>();
+  const reserved = Object.values(PRESET_ADDRESSES).map((address) => address.toLowerCase());
+
+  return tokens.map((token, index) => {
+    const address = getAddress(token.address ?? numberToHex(SEEDED_TOKEN_ADDRESS_START + BigInt(index), { size: 20 }));
+
+    if (!token.name || !token.symbol) throw new Error(`Token #${index} needs a name and a symbol`);
+    if (!token.owner) throw new Error(`Token ${token.symbol} needs an owner`);
+    if (symbols.has(token.symbol)) throw new Error(`Token symbol ${token.symbol} is used more than once`);
+    if (addresses.has(address) || reserved.includes(address.toLowerCase())) {
+      throw new Error(`Token address ${address} is used more than once`);
+    }
+    symbols.add(token.symbol);
+    addresses.add(address);
+
+    const balances = Object.fromEntries(
+      Object.entries(token.balances ?? {}).map(([holder, amount]) => [getAddress(holder), BigInt(amount)]),
+    );
+    const supply = Object.values(balances).reduce((total, amount) => total + amount, 0n);
+
+    return {
+      name: token.name,
+      symbol: token.symbol,
+      extraData: token.extraData ?? "",
+      owner: getAddress(token.owner),
+      address,
+      balances,
+      supply,
+    };
+  });
+}
+
+function tokenAccount(
+  contract: CompiledContract,
+  token: Required<GenesisToken> & { supply: bigint },
+  chainId: number,
+): AllocAccount {
+  const name = shortString(token.name);
+  const version = shortString(EIP712_VERSION);
+
+  const storage = new StorageWriter(contract.storageLayout)
+    .set("_balances", token.balances as Record<string, bigint>)
+    .set("_totalSupply", token.supply)
+    .set("_name", token.name)
+    .set("_symbol", token.symbol)
+    .set("_owner", token.owner);
+  if (name === SHORT_STRING_FALLBACK_SENTINEL) storage.set("_nameFallback", token.name);
+
+  const code = linkImmutables(contract, {
+    _cachedDomainSeparator: tokenDomainSeparator(token.name, chainId, token.address),
+    _cachedChainId: BigInt(chainId),
+    _cachedThis: BigInt(token.address),
+    _hashedName: keccak256(stringToHex(token.name)),
+    _hashedVersion: keccak256(stringToHex(EIP712_VERSION)),
+    _name: name,
+    _version: version,
+  });
+
+  return account(code, storage);
+}
+
+/**
+ * Mirrors `ShortStrings.toShortStringWithFallback`: strings up to 31 bytes are packed with their length in the last
+ * byte, longer strings are replaced by a sentinel and kept in the fallback storage variable.
+ */
+function shortString(value: string): bigint {
+  const bytes = stringToBytes(value);
+  if (bytes.length > 31) return SHORT_STRING_FALLBACK_SENTINEL;
+  return BigInt(pad(toHex(bytes), { dir: "right" })) | BigInt(bytes.length);
+}
+
+function linkImmutables(contract: CompiledContract, values: Record<string, Hex | bigint>): Hex {
+  let code = contract.deployedBytecode.slice(2);
+
+  for (const [name, references] of Object.entries(contract.immutables)) {
+    const value = values[name];
+    if (value === undefined) {
+      throw new Error(`No value known for immutable ${name}`);
+    }
+    const word = numberToHex(BigInt(value), { size: 32 }).slice(2);
+    for (const { start, length } of references) {
+      code = code.slice(0, start * 2) + word.slice(64 - length * 2) + code.slice((start + length) * 2);
+    }
+  }
+
+  return `0x${code}`;
+}
+
+function account(code: Hex, storage: StorageWriter): AllocAccount {
+  return { balance: "0x0", code, storage: storage.toJSON() };
+}
+
+async function loadContract(artifacts: Artifacts, fullyQualifiedName: string): Promise<CompiledContract> {
+  const buildInfo = await artifacts.getBuildInfo(fullyQualifiedName);
+  if (!buildInfo) {
+    throw new Error(`No build info found for ${fullyQualifiedName}, run the compile task first`);
+  }
+
+  const [sourceName, contractName] = fullyQualifiedName.split(":");
+  const output = buildInfo.output.contracts[sourceName][
+    contractName
+  ] as (typeof buildInfo.output.contracts)[string][string] & {
+    storageLayout?: StorageLayout;
+  };
+  if (!output.storageLayout) {
+    throw new Error(`No storage layout found for ${fullyQualifiedName}, check the solc outputSelection`);
+  }
+
+  const names = immutableNames(Object.values(buildInfo.output.sources).map((source) => source.ast));
+  const immutables: CompiledContract["immutables"] = {};
+  for (const [id, references] of Object.entries(output.evm.deployedBytecode.immutableReferences ?? {})) {
+    immutables[names.get(Number(id)) ?? id] = references;
+  }
+
+  return {
+    deployedBytecode: `0x${output.evm.deployedBytecode.object}`,
+    storageLayout: output.storageLayout,
+    immutables,
+  };
+}
+
+function immutableNames(nodes: unknown[]): Map<number, string> {
+  const names = new Map<number, string>();
+  const visit = (node: unknown): void => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+    } else if (node && typeof node === "object") {
+      const declaration = node as { nodeType?: string; mutability?: string; id: number; name: string };
+      if (declaration.nodeType === "VariableDeclaration" && declaration.mutability === "immutable") {
+        names.set(declaration.id, declaration.name);
+      }
+      Object.values(node).forEach(visit);
+    }
+  };
+  visit(nodes);
+  return names;
+}
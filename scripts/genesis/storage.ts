@@ -0,0 +1,165 @@
+import { concat, keccak256, numberToHex, pad, stringToBytes, stringToHex, toHex, type Hex } from "viem";
+
+const SLOT_MODULUS = 2n ** 256n;
+
+export interface StorageLayoutEntry {
+  label: string;
+  offset: number;
+  slot: string;
+  type: string;
+}
+
+export interface StorageLayoutType {
+  encoding: "inplace" | "mapping" | "dynamic_array" | "bytes";
+  label: string;
+  numberOfBytes: string;
+  base?: string;
+  key?: string;
+  value?: string;
+  members?: StorageLayoutEntry[];
+}
+
+/**
+ * The `storageLayout` compiler output for a single contract.
+ */
+export interface StorageLayout {
+  storage: StorageLayoutEntry[];
+  types: Record<string, StorageLayoutType> | null;
+}
+
+/**
+ * A JavaScript representation of a storage variable: value types are bigints, booleans or hex strings, strings are
+ * plain strings, mappings and structs are objects and dynamic arrays are arrays.
+ */
+export type StorageValue = bigint | boolean | string | StorageValue[] | { [key: string]: StorageValue };
+
+/**
+ * Computes the raw storage slots for a contract from its compiler storage layout, following the Solidity storage
+ * rules for packed value types, strings, mappings, structs and dynamic arrays.
+ */
+export class StorageWriter {
+  private readonly slots = new Map<bigint, bigint>();
+
+  constructor(private readonly layout: StorageLayout) {}
+
+  /**
+   * Sets the state variable with the given label.
+   * @param label The name of the state variable as declared in Solidity
+   * @param value The value to store
+   */
+  set(label: string, value: StorageValue): this {
+    const entry = this.layout.storage.find((candidate) => candidate.label === label);
+    if (!entry) {
+      throw new Error(`Storage variable ${label} not found in layout`);
+    }
+    this.write(entry.type, BigInt(entry.slot), entry.offset, value);
+    return this;
+  }
+
+  /**
+   * Returns the non-zero slots as 32 byte hex strings, ready to be used in a genesis alloc.
+   */
+  toJSON(): Record<Hex, Hex> {
+    const storage: Record<Hex, Hex> = {};
+    for (const slot of [...this.slots.keys()].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))) {
+      const value = this.slots.get(slot)!;
+      if (value !== 0n) {
+        storage[numberToHex(slot, { size: 32 })] = numberToHex(value, { size: 32 });
+      }
+    }
+    return storage;
+  }
+
+  private type(id: string): StorageLayoutType {
+    const type = this.layout.types?.[id];
+    if (!type) {
+      throw new Error(`Storage type ${id} not found in layout`);
+    }
+    return type;
+  }
+
+  private write(typeId: string, slot: bigint, offset: number, value: StorageValue): void {
+    const type = this.type(typeId);
+
+    switch (type.encoding) {
+      case "inplace":
+        if (type.members) {
+          const struct = value as { [key: string]: StorageValue };
+          for (const member of type.members) {
+            if (struct[member.label] !== undefined) {
+              this.write(member.type, slot + BigInt(member.slot), member.offset, struct[member.label]);
+            }
+          }
+        } else {
+          this.writeWord(slot, offset, Number(type.numberOfBytes), toWord(value));
+        }
+        return;
+      case "bytes":
+        this.writeBytes(slot, value as string);
+        return;
+      case "mapping":
+        for (const [key, item] of Object.entries(value as { [key: string]: StorageValue })) {
+          const keyType = this.type(type.key!);
+          const encodedKey = keyType.encoding === "bytes" ? stringToHex(key) : pad(toHex(toWord(key)));
+          const itemSlot = BigInt(keccak256(concat([encodedKey, slotKey(slot)])));
+          this.write(type.value!, itemSlot, 0, item);
+        }
+        return;
+      case "dynamic_array": {
+        const items = value as StorageValue[];
+        const start = BigInt(keccak256(slotKey(slot)));
+        const itemBytes = Number(this.type(type.base!).numberOfBytes);
+
+        this.writeWord(slot, 0, 32, BigInt(items.length));
+        items.forEach((item, index) => {
+          if (itemBytes < 32) {
+            const perSlot = Math.floor(32 / itemBytes);
+            this.write(type.base!, start + BigInt(Math.floor(index / perSlot)), (index % perSlot) * itemBytes, item);
+          } else {
+            this.write(type.base!, start + BigInt(index) * BigInt(Math.ceil(itemBytes / 32)), 0, item);
+          }
+        });
+        return;
+      }
+    }
+  }
+
+  private writeBytes(slot: bigint, value: string): void {
+    const bytes = stringToBytes(value);
+
+    if (bytes.length < 32) {
+      const data = BigInt(pad(toHex(bytes), { dir: "right" }));
+      this.writeWord(slot, 0, 32, data | BigInt(bytes.length * 2));
+      return;
+    }
+
+    this.writeWord(slot, 0, 32, BigInt(bytes.length * 2 + 1));
+    const start = BigInt(keccak256(slotKey(slot)));
+    for (let index = 0; index * 32 < bytes.length; index++) {
+      const chunk = pad(toHex(bytes.slice(index * 32, index * 32 + 32)), { dir: "right" });
+      this.writeWord(start + BigInt(index), 0, 32, BigInt(chunk));
+    }
+  }
+
+  private writeWord(slot: bigint, offset: number, size: number, value: bigint): void {
+    const key = slot % SLOT_MODULUS;
+    const mask = (1n << BigInt(size * 8)) - 1n;
+    if (value > mask) {
+      throw new Error(`Value ${value} does not fit in ${size} bytes`);
+    }
+    const shift = BigInt(offset * 8);
+    const current = this.slots.get(key) ?? 0n;
+    this.slots.set(key, (current & ~(mask << shift)) | (value << shift));
+  }
+}
+
+function slotKey(slot: bigint): Hex {
+  return numberToHex(slot % SLOT_MODULUS, { size: 32 });
+}
+
+function toWord(value: StorageValue): bigint {
+  if (typeof value === "bigint") return value;
+  if (typeof value === "boolean") return value ? 1n : 0n;
+  if (typeof value === "string") return BigInt(value);
+  throw new Error(`Cannot encode ${JSON.stringify(value)} as a value type`);
+}
@@ -0,0 +1,179 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { getAddress, parseEther, parseEventLogs, type Address, type Hex } from "viem";
+import { PRESET_ADDRESSES, resolveTokens, tokenDomainSeparator, type Alloc, type GenesisToken } from "./alloc";
+
+export interface VerificationCheck {
+  name: string;
+  ok: boolean;
+  actual: string;
+  expected: string;
+}
+
+/**
+ * Boots the alloc on the in-process Hardhat network next to a regularly deployed reference set, and checks that the
+ * predeployed contracts hold the same state and behave the same way.
+ * @param hre The Hardhat runtime environment, connected to the `hardhat` network
+ * @param alloc The alloc to verify
+ * @param tokens The tokens the alloc was seeded with
+ */
+export async function verifyAlloc(
+  hre: HardhatRuntimeEnvironment,
+  alloc: Alloc,
+  tokens: GenesisToken[] = [],
+): Promise<VerificationCheck[]> {
+  if (hre.network.name !== "hardhat") {
+    throw new Error("The genesis alloc can only be verified on the in-process hardhat network");
+  }
+
+  const checks: VerificationCheck[] = [];
+  const expectEqual = (name: string, actual: unknown, expected: unknown) => {
+    checks.push({
+      name,
+      ok: stringify(actual) === stringify(expected),
+      actual: stringify(actual),
+      expected: stringify(expected),
+    });
+  };
+
+  const publicClient = await hre.viem.getPublicClient();
+  const testClient = await hre.viem.getTestClient();
+  const [deployer] = await hre.viem.getWalletClients();
+  const chainId = await publicClient.getChainId();
+
+  for (const [address, account] of Object.entries(alloc) as [Address, Alloc[Address]][]) {
+    await testClient.setCode({ address, bytecode: account.code });
+    await testClient.setBalance({ address, value: BigInt(account.balance) });
+    for (const [index, value] of Object.entries(account.storage) as [Hex, Hex][]) {
+      await testClient.setStorageAt({ address, index, value });
+    }
+  }
+
+  const registry = await hre.viem.getContractAt("StarterKitERC20Registry", PRESET_ADDRESSES.registry);
+  const factory = await hre.viem.getContractAt("PresetStarterKitERC20Factory", PRESET_ADDRESSES.factory);
+  const dexFactory = await hre.viem.getContractAt("StarterKitERC20DexFactory", PRESET_ADDRESSES.dexFactory);
+
+  const referenceRegistry = await hre.viem.deployContract("StarterKitERC20Registry");
+  const referenceFactory = await hre.viem.deployContract("StarterKitERC20Factory", [referenceRegistry.address]);
+  const referencePresetFactory = await hre.viem.deployContract("PresetStarterKitERC20Factory");
+  const referenceDexFactory = await hre.viem.deployContract("StarterKitERC20DexFactory");
+
+  const code = (address: Address) => publicClient.getBytecode({ address });
+  expectEqual("registry runtime code", await code(registry.address), await code(referenceRegistry.address));
+  expectEqual("factory runtime code", await code(factory.address), await code(referencePresetFactory.address));
+  expectEqual("dex factory runtime code", await code(dexFactory.address), await code(referenceDexFactory.address));
+  expectEqual("factory registry", await factory.read.registry(), getAddress(registry.address));
+
+  // Replay the seeded tokens through a regular factory so every token has a deployed twin to compare against
+  const seeded = resolveTokens(tokens);
+  const twins = new Map<Address, Address>();
+  for (const token of seeded) {
+    await testClient.impersonateAccount({ address: token.owner });
+    await testClient.setBalance({ address: token.owner, value: parseEther("1") });
+    const owner = await hre.viem.getWalletClient(token.owner);
+
+    const hash = await referenceFactory.write.createToken([token.name, token.symbol, token.extraData], {
+      account: owner.account,
+    });
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    const [created] = parseEventLogs({ abi: referenceFactory.abi, logs: receipt.logs, eventName: "TokenCreated" });
+    twins.set(created.args.tokenAddress, token.address);
+
+    const twin = await hre.viem.getContractAt("StarterKitERC20", created.args.tokenAddress);
+    for (const [holder, amount] of Object.entries(token.balances) as [Address, bigint][]) {
+      await twin.write.mint([holder, amount], { account: owner.account });
+    }
+
+    const predeployed = await hre.viem.getContractAt("StarterKitERC20", token.address);
+    expectEqual(`${token.symbol} name`, await predeployed.read.name(), await twin.read.name());
+    expectEqual(`${token.symbol} symbol`, await predeployed.read.symbol(), await twin.read.symbol());
+    expectEqual(`${token.symbol} decimals`, await predeployed.read.decimals(), await twin.read.decimals());
+    expectEqual(`${token.symbol} owner`, await predeployed.read.owner(), await twin.read.owner());
+    expectEqual(`${token.symbol} totalSupply`, await predeployed.read.totalSupply(), await twin.read.totalSupply());
+    for (const holder of Object.keys(token.balances) as Address[]) {
+      expectEqual(
+        `${token.symbol} balanceOf ${holder}`,
+        await predeployed.read.balanceOf([holder]),
+        await twin.read.balanceOf([holder]),
+      );
+    }
+    const [, name, version, domainChainId, verifyingContract] = await predeployed.read.eip712Domain();
+    const [, twinName, twinVersion, twinChainId] = await twin.read.eip712Domain();
+    expectEqual(
+      `${token.symbol} eip712Domain`,
+      [name, version, domainChainId, verifyingContract],
+      [twinName, twinVersion, twinChainId, token.address],
+    );
+    expectEqual(
+      `${token.symbol} DOMAIN_SEPARATOR`,
+      await predeployed.read.DOMAIN_SEPARATOR(),
+      tokenDomainSeparator(token.name, chainId, token.address),
+    );
+    await testClient.stopImpersonatingAccount({ address: token.owner });
+  }
+
+  const relocate = (list: readonly { tokenAddress: Address; symbol: string; extraData: string }[]) =>
+    list.map((token) => ({ ...token, tokenAddress: twins.get(token.tokenAddress) ?? token.tokenAddress }));
+  expectEqual(
+    "registry token list",
+    await registry.read.getTokenList(),
+    relocate(await referenceRegistry.read.getTokenList()),
+  );
+  for (const token of seeded) {
+    expectEqual(
+      `registry ${token.symbol} by symbol`,
+      (await registry.read.getTokenBySymbol([token.symbol])).tokenAddress,
+      token.address,
+    );
+    expectEqual(
+      `registry ${token.symbol} by address`,
+      (await registry.read.getTokenByAddress([token.address])).symbol,
+      token.symbol,
+    );
+  }
+
+  // Exercise the predeployed factories the same way a fresh network would be used
+  const createdTokens: Address[] = [];
+  for (const symbol of ["GENESIS-A", "GENESIS-B"]) {
+    const hash = await factory.write.createToken([`Genesis ${symbol}`, symbol, ""], { account: deployer.account });
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    const [created] = parseEventLogs({ abi: factory.abi, logs: receipt.logs, eventName: "TokenCreated" });
+    createdTokens.push(created.args.tokenAddress);
+    expectEqual(
+      `registry ${symbol} after createToken`,
+      (await registry.read.getTokenBySymbol([symbol])).tokenAddress,
+      created.args.tokenAddress,
+    );
+  }
+  expectEqual("registry length after createToken", (await registry.read.getTokenList()).length, seeded.length + 2);
+
+  for (const symbol of [...seeded.map((token) => token.symbol), "GENESIS-A"]) {
+    const reverted = await factory.simulate
+      .createToken(["Duplicate", symbol, ""], { account: deployer.account.address })
+      .then(
+        () => "",
+        (error: Error) => error.message,
+      );
+    expectEqual(`duplicate ${symbol} reverts`, reverted.includes("TokenSymbolAlreadyExists"), true);
+  }
+
+  await dexFactory.write.createPair([createdTokens[0], createdTokens[1]], { account: deployer.account });
+  await referenceDexFactory.write.createPair([createdTokens[0], createdTokens[1]], { account: deployer.account });
+  expectEqual(
+    "dex factory allPairsLength",
+    await dexFactory.read.allPairsLength(),
+    await referenceDexFactory.read.allPairsLength(),
+  );
+  const pair = await dexFactory.read.getPair([createdTokens[0], createdTokens[1]]);
+  expectEqual(
+    "dex factory getPair is symmetric",
+    await dexFactory.read.getPair([createdTokens[1], createdTokens[0]]),
+    pair,
+  );
+  expectEqual("dex factory allPairs", await dexFactory.read.allPairs([0n]), pair);
+
+  return checks;
+}
+
+function stringify(value: unknown): string {
+  return JSON.stringify(value, (_, item) => (typeof item === "bigint" ? item.toString() : item));
+}
@@ -0,0 +1,67 @@
+import type { Artifacts } from "hardhat/types";
+import { hexToBytes, size, type Hex } from "viem";
+
+export interface CompiledRuntime {
+  contractName: string;
+  bytecode: Hex;
+  /** Byte ranges of the runtime code that the constructor fills with immutables */
+  immutables: { start: number; length: number }[];
+}
+
+export type BytecodeComparison =
+  | { ok: true }
+  | { ok: false; reason: "no code" | "length" | "code"; actual: number; expected: number; offset?: number };
+
+/**
+ * Reads the runtime bytecode of a compiled contract with the positions of its immutables.
+ * @param contractName Name or fully qualified name of the contract, e.g. `StarterKitERC20Dex`
+ */
+export async function loadRuntime(artifacts: Artifacts, contractName: string): Promise<CompiledRuntime> {
+  const artifact = await artifacts.readArtifact(contractName);
+  const fullyQualifiedName = `${artifact.sourceName}:${artifact.contractName}`;
+  const buildInfo = await artifacts.getBuildInfo(fullyQualifiedName);
+  if (!buildInfo) {
+    throw new Error(`No build info found for ${fullyQualifiedName}, run the compile task first`);
+  }
+
+  const output = buildInfo.output.contracts[artifact.sourceName][artifact.contractName];
+  return {
+    contractName: artifact.contractName,
+    bytecode: artifact.deployedBytecode as Hex,
+    immutables: Object.values(output.evm.deployedBytecode.immutableReferences ?? {}).flat(),
+  };
+}
+
+/**
+ * Compares deployed runtime code against the compiled runtime code. The immutables are blanked out, as they differ
+ * per deployment, and so is the trailing CBOR metadata, which changes with the source paths and comments without
+ * changing what the code does.
+ */
+export function compareRuntime(deployed: Hex | undefined, compiled: CompiledRuntime): BytecodeComparison {
+  const expected = hexToBytes(compiled.bytecode);
+  if (!deployed || size(deployed) === 0) return { ok: false, reason: "no code", actual: 0, expected: expected.length };
+
+  const actual = hexToBytes(deployed);
+  if (actual.length !== expected.length) {
+    return { ok: false, reason: "length", actual: actual.length, expected: expected.length };
+  }
+  for (const { start, length } of compiled.immutables) {
+    actual.fill(0, start, start + length);
+  }
+
+  const [actualCode, expectedCode] = [stripMetadata(actual), stripMetadata(expected)];
+  const end = Math.max(actualCode.length, expectedCode.length);
+  for (let offset = 0; offset < end; offset++) {
+    if (actualCode[offset] !== expectedCode[offset]) {
+      return { ok: false, reason: "code", actual: actual.length, expected: expected.length, offset };
+    }
+  }
+  return { ok: true };
+}
+
+// solc appends the CBOR encoded metadata followed by its length as the last two bytes
+function stripMetadata(code: Uint8Array): Uint8Array {
+  if (code.length < 2) return code;
+  const length = (code[code.length - 2] << 8) | code[code.length - 1];
+  return length + 2 <= code.length ? code.subarray(0, code.length - length - 2) : code;
+}
@@ -0,0 +1,316 @@
+import type { Artifacts } from "hardhat/types";
+import { getAddress, type Address, type Hex, type PublicClient } from "viem";
+import {
+  PRESET_ADDRESSES,
+  starterKitERC20Abi,
+  starterKitERC20DexAbi,
+  starterKitERC20DexFactoryAbi,
+  starterKitERC20FactoryAbi,
+} from "../../sdk";
+import type { IgnitionDeployment } from "../ignition/deployment";
+import { compareRuntime, loadRuntime, type CompiledRuntime } from "./bytecode";
+
+/** A contract of the package as it is deployed on a network */
+export interface DeployedContract {
+  /** Ignition future id, or the preset name */
+  id: string;
+  address: Address;
+  contractName: string;
+}
+
+export interface DeployedSet {
+  /** `preset` for the contracts predeployed in the genesis alloc, or the Ignition deployment id */
+  source: string;
+  contracts: DeployedContract[];
+}
+
+export interface HealthCheck {
+  /** What was checked, e.g. `preset registry` or `pair EURS/USDS LP` */
+  subject: string;
+  address: Address;
+  name: string;
+  ok: boolean;
+  actual: string;
+  expected: string;
+}
+
+/** The state of a pair, amounts are decimal strings in the smallest unit of the token */
+export interface PairHealth {
+  address: Address;
+  dexFactory: Address;
+  name: string;
+  baseToken: Address;
+  quoteToken: Address;
+  balancesVerified: boolean;
+  baseReserve: string;
+  baseBalance: string;
+  /** `balanceOf(pair)` minus the tracked reserve, negative when tokens left the pair without a swap or withdrawal */
+  baseGap: string;
+  quoteReserve: string;
+  quoteBalance: string;
+  quoteGap: string;
+  paused: boolean;
+  swapFee: string;
+  timelock: Address;
+  /** Holders of every role, replayed from the `RoleGranted` and `RoleRevoked` events and confirmed with `hasRole` */
+  roles: Record<string, Address[]>;
+}
+
+export interface HealthReport {
+  chainId: number;
+  blockNumber: string;
+  ok: boolean;
+  checks: HealthCheck[];
+  pairs: PairHealth[];
+}
+
+const REGISTRY_CONTRACTS = ["StarterKitERC20Registry"];
+const FACTORY_CONTRACTS = ["StarterKitERC20Factory", "PresetStarterKitERC20Factory"];
+const DEX_FACTORY_CONTRACTS = ["StarterKitERC20DexFactory"];
+
+/** The contracts predeployed in the genesis alloc, at the addresses every network shares. */
+export function presetContracts(): DeployedSet {
+  return {
+    source: "preset",
+    contracts: [
+      { id: "registry", address: getAddress(PRESET_ADDRESSES.registry), contractName: "StarterKitERC20Registry" },
+      { id: "factory", address: getAddress(PRESET_ADDRESSES.factory), contractName: "PresetStarterKitERC20Factory" },
+      { id: "dexFactory", address: getAddress(PRESET_ADDRESSES.dexFactory), contractName: "StarterKitERC20DexFactory" },
+    ],
+  };
+}
+
+/** The contracts of an Ignition deployment, deployed or referenced with `contractAt`. */
+export function deploymentContracts(deploymentId: string, deployment: IgnitionDeployment): DeployedSet {
+  return {
+    source: deploymentId,
+    contracts: Object.entries(deployment.contracts)
+      .filter(([, contract]) => contract.contractName !== undefined)
+      .map(([id, contract]) => ({ id, address: getAddress(contract.address), contractName: contract.contractName! })),
+  };
+}
+
+/**
+ * Checks that the deployed contracts still match this package and the pairs are healthy, all read at the latest block:
+ * - the runtime code of every contract, and of every pair of the DEX factories and its timelock, against the compiled
+ *   artifacts, ignoring immutables and metadata
+ * - `registry()` of the token factories against the registry deployed along with them
+ * - every pair being registered in its DEX factory under its tokens
+ * - `verifyBalances()` of every pair, its token balances covering its tracked reserves, e.g. after an
+ *   `emergencyWithdraw`, not being paused, a swap fee within `MAX_FEE` and an account holding `DEFAULT_ADMIN_ROLE`
+ */
+export async function checkHealth(
+  publicClient: PublicClient,
+  artifacts: Artifacts,
+  sets: DeployedSet[],
+): Promise<HealthReport> {
+  const blockNumber = await publicClient.getBlockNumber();
+  const checks: HealthCheck[] = [];
+  const pairs: PairHealth[] = [];
+
+  const runtimes = new Map<string, Promise<CompiledRuntime>>();
+  const runtime = (contractName: string) => {
+    if (!runtimes.has(contractName)) runtimes.set(contractName, loadRuntime(artifacts, contractName));
+    return runtimes.get(contractName)!;
+  };
+  const check = (subject: string, address: Address, name: string, ok: boolean, actual: unknown, expected: unknown) =>
+    checks.push({ subject, address, name, ok, actual: String(actual), expected: String(expected) });
+  const checkCode = async (subject: string, address: Address, contractName: string) => {
+    const code = await publicClient.getBytecode({ address, blockNumber });
+    const comparison = compareRuntime(code, await runtime(contractName));
+    if (comparison.ok) {
+      check(subject, address, "runtime code", true, contractName, contractName);
+    } else if (comparison.reason === "no code") {
+      check(subject, address, "runtime code", false, "no code", contractName);
+    } else if (comparison.reason === "length") {
+      check(subject, address, "runtime code", false, `${comparison.actual} bytes`, `${comparison.expected} bytes`);
+    } else {
+      check(subject, address, "runtime code", false, `differs at byte ${comparison.offset}`, contractName);
+    }
+    return comparison.ok;
+  };
+
+  const dexFactories = new Set<Address>();
+  for (const { source, contracts } of sets) {
+    for (const { id, address, contractName } of contracts) {
+      const deployed = await checkCode(`${source} ${id}`, address, contractName);
+      if (deployed && DEX_FACTORY_CONTRACTS.includes(contractName)) dexFactories.add(address);
+    }
+
+    const registry = contracts.find((contract) => REGISTRY_CONTRACTS.includes(contract.contractName));
+    for (const factory of contracts.filter((contract) => FACTORY_CONTRACTS.includes(contract.contractName))) {
+      const wired = await publicClient
+        .readContract({
+          address: factory.address,
+          abi: starterKitERC20FactoryAbi,
+          functionName: "registry",
+          blockNumber,
+        })
+        .catch(() => undefined);
+      if (registry) {
+        check(
+          `${source} ${factory.id}`,
+          factory.address,
+          "registry()",
+          wired === registry.address,
+          wired ?? "reverted",
+          registry.address,
+        );
+      } else if (wired) {
+        // Deployments that reuse a registry of elsewhere only need it to be a registry
+        await checkCode(`${source} ${factory.id} registry`, wired, "StarterKitERC20Registry");
+      }
+    }
+  }
+
+  const seen = new Set<Address>();
+  for (const dexFactory of dexFactories) {
+    const length = await publicClient.readContract({
+      address: dexFactory,
+      abi: starterKitERC20DexFactoryAbi,
+      functionName: "allPairsLength",
+      blockNumber,
+    });
+    for (let index = 0n; index < length; index++) {
+      const address = await publicClient.readContract({
+        address: dexFactory,
+        abi: starterKitERC20DexFactoryAbi,
+        functionName: "allPairs",
+        args: [index],
+        blockNumber,
+      });
+      if (seen.has(address)) continue;
+      seen.add(address);
+
+      // Named after the LP token, e.g. `EURS/USDS LP`, as long as the code at the address has a name
+      const name = await publicClient
+        .readContract({ address, abi: starterKitERC20Abi, functionName: "name", blockNumber })
+        .catch(() => address);
+      const subject = `pair ${name}`;
+      if (!(await checkCode(subject, address, "StarterKitERC20Dex"))) continue;
+      const pair = await readPair(publicClient, dexFactory, address, blockNumber);
+      pairs.push(pair);
+
+      const [registered, maxFee] = await Promise.all([
+        publicClient.readContract({
+          address: dexFactory,
+          abi: starterKitERC20DexFactoryAbi,
+          functionName: "getPair",
+          args: [pair.baseToken, pair.quoteToken],
+          blockNumber,
+        }),
+        publicClient.readContract({ address, abi: starterKitERC20DexAbi, functionName: "MAX_FEE", blockNumber }),
+      ]);
+      const swapFee = BigInt(pair.swapFee);
+      const admins = pair.roles.DEFAULT_ADMIN_ROLE;
+
+      check(subject, address, "getPair(base, quote)", registered === address, registered, address);
+      check(subject, address, "verifyBalances()", pair.balancesVerified, pair.balancesVerified, true);
+      check(subject, address, "base balance", BigInt(pair.baseGap) >= 0n, pair.baseBalance, `>= ${pair.baseReserve}`);
+      check(
+        subject,
+        address,
+        "quote balance",
+        BigInt(pair.quoteGap) >= 0n,
+        pair.quoteBalance,
+        `>= ${pair.quoteReserve}`,
+      );
+      check(subject, address, "paused", !pair.paused, pair.paused, false);
+      check(subject, address, "swap fee", swapFee <= maxFee, swapFee, `<= ${maxFee}`);
+      check(subject, address, "DEFAULT_ADMIN_ROLE", admins.length > 0, admins.join(", ") || "none", "a holder");
+      await checkCode(`${subject} timelock`, pair.timelock, "TimelockController");
+    }
+  }
+
+  return {
+    chainId: await publicClient.getChainId(),
+    blockNumber: `${blockNumber}`,
+    ok: checks.every((item) => item.ok),
+    checks,
+    pairs,
+  };
+}
+
+async function readPair(
+  publicClient: PublicClient,
+  dexFactory: Address,
+  address: Address,
+  blockNumber: bigint,
+): Promise<PairHealth> {
+  const abi = starterKitERC20DexAbi;
+  const [name, baseToken, quoteToken, balancesVerified, baseReserve, quoteReserve, paused, swapFee, timelock] =
+    await Promise.all([
+      publicClient.readContract({ address, abi, functionName: "name", blockNumber }),
+      publicClient.readContract({ address, abi, functionName: "baseToken", blockNumber }),
+      publicClient.readContract({ address, abi, functionName: "quoteToken", blockNumber }),
+      publicClient.readContract({ address, abi, functionName: "verifyBalances", blockNumber }),
+      publicClient.readContract({ address, abi, functionName: "getBaseTokenBalance", blockNumber }),
+      publicClient.readContract({ address, abi, functionName: "getQuoteTokenBalance", blockNumber }),
+      publicClient.readContract({ address, abi, functionName: "paused", blockNumber }),
+      publicClient.readContract({ address, abi, functionName: "swapFee", blockNumber }),
+      publicClient.readContract({ address, abi, functionName: "timelock", blockNumber }),
+    ]);
+  const balanceOf = (token: Address) =>
+    publicClient.readContract({
+      address: token,
+      abi: starterKitERC20Abi,
+      functionName: "balanceOf",
+      args: [address],
+      blockNumber,
+    });
+  const [baseBalance, quoteBalance] = await Promise.all([balanceOf(baseToken), balanceOf(quoteToken)]);
+
+  // AccessControl does not enumerate its members, so the candidates come from the role events
+  const roleNames = new Map<Hex, string>(
+    await Promise.all(
+      (["DEFAULT_ADMIN_ROLE", "ADMIN_ROLE", "FEE_SETTER_ROLE"] as const).map(
+        async (role) =>
+          [await publicClient.readContract({ address, abi, functionName: role, blockNumber }), role] as const,
+      ),
+    ),
+  );
+  const events = await Promise.all(
+    (["RoleGranted", "RoleRevoked"] as const).map((eventName) =>
+      publicClient.getContractEvents({ address, abi, eventName, fromBlock: 0n, toBlock: blockNumber }),
+    ),
+  );
+  const candidates = new Map<Hex, Set<Address>>([...roleNames.keys()].map((role) => [role, new Set()]));
+  for (const { args } of events.flat()) {
+    const { role, account } = args as { role: Hex; account: Address };
+    candidates.set(role, (candidates.get(role) ?? new Set()).add(account));
+  }
+  const roles: Record<string, Address[]> = {};
+  for (const [role, accounts] of candidates) {
+    const holders: Address[] = [];
+    for (const account of accounts) {
+      const holds = await publicClient.readContract({
+        address,
+        abi,
+        functionName: "hasRole",
+        args: [role, account],
+        blockNumber,
+      });
+      if (holds) holders.push(account);
+    }
+    roles[roleNames.get(role) ?? role] = holders;
+  }
+
+  return {
+    address,
+    dexFactory,
+    name,
+    baseToken,
+    quoteToken,
+    balancesVerified,
+    baseReserve: `${baseReserve}`,
+    baseBalance: `${baseBalance}`,
+    baseGap: `${baseBalance - baseReserve}`,
+    quoteReserve: `${quoteReserve}`,
+    quoteBalance: `${quoteBalance}`,
+    quoteGap: `${quoteBalance - quoteReserve}`,
+    paused,
+    swapFee: `${swapFee}`,
+    timelock,
+    roles,
+  };
+}
@@ -0,0 +1,57 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+export interface DeployedContract {
+  address: string;
+  startBlock: number;
+  /** Name of the artifact the contract was deployed or referenced with, e.g. `StarterKitERC20Dex` */
+  contractName?: string;
+}
+
+export interface IgnitionDeployment {
+  chainId: number;
+  contracts: Record<string, DeployedContract>;
+}
+
+interface JournalMessage {
+  type: string;
+  futureId?: string;
+  chainId?: number;
+  contractName?: string;
+  receipt?: { blockNumber: number; contractAddress?: string };
+}
+
+/**
+ * Reads the deployed addresses of an Ignition deployment, and the block each contract was deployed in from its journal.
+ * @param deploymentDir The deployment folder, e.g. `ignition/deployments/chain-31337`
+ */
+export async function readIgnitionDeployment(deploymentDir: string): Promise<IgnitionDeployment> {
+  const addresses: Record<string, string> = JSON.parse(
+    await readFile(path.join(deploymentDir, "deployed_addresses.json"), "utf8"),
+  );
+  const journal = (await readFile(path.join(deploymentDir, "journal.jsonl"), "utf8"))
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    .map((line) => JSON.parse(line) as JournalMessage);
+
+  const chainId = journal.find((message) => message.type === "DEPLOYMENT_INITIALIZE")?.chainId;
+  if (chainId === undefined) {
+    throw new Error(`The journal in ${deploymentDir} does not record a chain id`);
+  }
+
+  const contracts: Record<string, DeployedContract> = {};
+  for (const [futureId, address] of Object.entries(addresses)) {
+    const confirmation = journal.find(
+      (message) =>
+        message.type === "TRANSACTION_CONFIRM" &&
+        message.futureId === futureId &&
+        message.receipt?.contractAddress?.toLowerCase() === address.toLowerCase(),
+    );
+    // Contracts referenced with `contractAt` were not deployed by Ignition, so there is no block to start from
+    const contractName = journal.find((message) => message.futureId === futureId && message.contractName !== undefined)
+      ?.contractName;
+    contracts[futureId] = { address, startBlock: confirmation?.receipt?.blockNumber ?? 0, contractName };
+  }
+
+  return { chainId, contracts };
+}
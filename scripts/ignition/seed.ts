@@ -0,0 +1,55 @@
+import {
+  errorDeploymentResultToExceptionMessage,
+  HardhatArtifactResolver,
+} from "@nomicfoundation/hardhat-ignition/helpers";
+import {
+  deploy,
+  DeploymentResultType,
+  type DeploymentParameters,
+  type IgnitionModule,
+} from "@nomicfoundation/ignition-core";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { Address } from "viem";
+import { buildDexModule } from "../../ignition/modules/dex";
+import { buildTokenModule } from "../../ignition/modules/tokens";
+import { scenarioTokenAddresses, type LoadedScenario } from "../../ignition/scenario";
+
+/**
+ * Deploys a scenario the way `seed:deploy` does: the TokenModule first, then the DexModule built with the addresses of
+ * the tokens, both into one deployment directory so the second deployment picks up the tokens of the first. For
+ * scripts and tests, which also need it on the in-process network where `hre.ignition.deploy` keeps no state.
+ * @returns The addresses of all contracts of the deployment by future id, e.g. `DexModule#contract_pair_instance`
+ */
+export async function deploySeed(
+  hre: HardhatRuntimeEnvironment,
+  scenario: LoadedScenario,
+  deploymentDir: string,
+  parameters: DeploymentParameters = {},
+): Promise<Record<string, Address>> {
+  const tokens = await deployModule(hre, buildTokenModule(scenario), deploymentDir, {});
+  return deployModule(hre, buildDexModule(scenario, scenarioTokenAddresses(tokens)), deploymentDir, parameters);
+}
+
+async function deployModule(
+  hre: HardhatRuntimeEnvironment,
+  ignitionModule: IgnitionModule,
+  deploymentDir: string,
+  parameters: DeploymentParameters,
+): Promise<Record<string, Address>> {
+  const accounts = (await hre.network.provider.request({ method: "eth_accounts" })) as string[];
+  const result = await deploy({
+    config: hre.config.ignition,
+    provider: hre.network.provider,
+    deploymentDir,
+    artifactResolver: new HardhatArtifactResolver(hre),
+    ignitionModule,
+    deploymentParameters: parameters,
+    accounts,
+  });
+  if (result.type !== DeploymentResultType.SUCCESSFUL_DEPLOYMENT) {
+    throw new Error(errorDeploymentResultToExceptionMessage(result));
+  }
+  return Object.fromEntries(
+    Object.entries(result.contracts).map(([futureId, { address }]) => [futureId, address as Address]),
+  );
+}
@@ -0,0 +1,200 @@
+import { existsSync, readFileSync } from "node:fs";
+import path from "node:path";
+import type { HttpNetworkAccountsUserConfig, HttpNetworkUserConfig } from "hardhat/types";
+import type { ChainConfig } from "@nomicfoundation/hardhat-verify/types";
+import { decryptKeystore } from "./keystore";
+
+/**
+ * How transactions on a network are priced:
+ * - `legacy` sends type 0 transactions at `gasPrice` wei, or at the price the node suggests when it is left out
+ * - `eip1559` sends type 2 transactions, with Ignition capping the fees at `maxFeePerGas` and `maxPriorityFeePerGas`
+ * - `zero` sends every transaction at a gas price of zero, for private chains that run without gas fees
+ */
+export type NetworkGas =
+  | { type: "legacy"; gasPrice?: number }
+  | { type: "eip1559"; maxFeePerGas?: string; maxPriorityFeePerGas?: string }
+  | { type: "zero" };
+
+/**
+ * The accounts transactions are signed with. A keystore is a V3 JSON file, its password is read from
+ * `<NETWORK>_KEYSTORE_PASSWORD` and never from the networks file.
+ */
+export type NetworkSigners =
+  | { mnemonic: string; path?: string; initialIndex?: number; count?: number; passphrase?: string }
+  | { privateKeys: string[] }
+  | { keystore: string };
+
+/** A block explorer running the Etherscan API, like Blockscout, that contracts are verified on */
+export interface NetworkExplorer {
+  apiUrl: string;
+  browserUrl: string;
+  apiKey?: string;
+}
+
+export interface NetworkDefinition {
+  url: string;
+  chainId?: number;
+  gas?: NetworkGas;
+  signers?: NetworkSigners;
+  explorer?: NetworkExplorer;
+  /** Ignition deployment id, for networks that share their chain id with another network */
+  deploymentId?: string;
+  /** Name graph-node knows the chain by, see `subgraph:deploy` */
+  graphNetwork?: string;
+}
+
+export interface NetworksFile {
+  networks: Record<string, NetworkDefinition>;
+}
+
+const DEFAULT_NETWORKS_FILE = path.resolve(__dirname, "..", "..", "networks.json");
+const NAME_PATTERN = /^[a-zA-Z][a-zA-Z0-9_-]*$/;
+
+/**
+ * Loads the networks from the file in `NETWORKS_FILE`, or `networks.json` at the root of the package when it exists,
+ * and applies the environment overrides of each network. `btp` is always defined, from `BTP_RPC_URL` and
+ * `BTP_GAS_PRICE` when the file does not define it.
+ *
+ * Every field can be overridden with an environment variable prefixed with the upper-cased network name, dashes
+ * replaced by underscores: `<NETWORK>_RPC_URL`, `<NETWORK>_CHAIN_ID`, `<NETWORK>_GAS_PRICE` (switches to legacy
+ * pricing), `<NETWORK>_MNEMONIC`, `<NETWORK>_PRIVATE_KEYS` (comma separated), `<NETWORK>_KEYSTORE` and
+ * `<NETWORK>_EXPLORER_API_KEY`.
+ */
+export function loadNetworks(
+  file = process.env.NETWORKS_FILE || DEFAULT_NETWORKS_FILE,
+  env: NodeJS.ProcessEnv = process.env,
+): Record<string, NetworkDefinition> {
+  if (process.env.NETWORKS_FILE && !existsSync(file)) throw new Error(`Networks file ${file} does not exist`);
+  const { networks = {} } = existsSync(file)
+    ? (JSON.parse(readFileSync(file, "utf8")) as Partial<NetworksFile>)
+    : { networks: {} };
+
+  const definitions: Record<string, NetworkDefinition> = { btp: { url: "" }, ...networks };
+  for (const [name, definition] of Object.entries(definitions)) {
+    if (!NAME_PATTERN.test(name)) throw new Error(`Network name ${name} can only contain letters, digits, - and _`);
+    if (name === "hardhat" || name === "localhost") throw new Error(`Network ${name} is built into Hardhat`);
+    definitions[name] = withEnvOverrides(name, definition, env);
+  }
+  return definitions;
+}
+
+function withEnvOverrides(name: string, definition: NetworkDefinition, env: NodeJS.ProcessEnv): NetworkDefinition {
+  const variable = (field: string) => env[`${name.toUpperCase().replace(/-/g, "_")}_${field}`] || undefined;
+  const network = { ...definition };
+
+  network.url = variable("RPC_URL") ?? network.url;
+  const chainId = variable("CHAIN_ID");
+  if (chainId !== undefined) network.chainId = Number(chainId);
+  const gasPrice = variable("GAS_PRICE");
+  if (gasPrice !== undefined) network.gas = { type: "legacy", gasPrice: Number(gasPrice) };
+
+  const mnemonic = variable("MNEMONIC");
+  const privateKeys = variable("PRIVATE_KEYS");
+  const keystore = variable("KEYSTORE");
+  if (mnemonic !== undefined) {
+    network.signers = { ...(network.signers && "mnemonic" in network.signers ? network.signers : {}), mnemonic };
+  } else if (privateKeys !== undefined) {
+    network.signers = { privateKeys: privateKeys.split(",").map((key) => key.trim()) };
+  } else if (keystore !== undefined) {
+    network.signers = { keystore };
+  }
+
+  const explorerApiKey = variable("EXPLORER_API_KEY");
+  if (network.explorer && explorerApiKey !== undefined) {
+    network.explorer = { ...network.explorer, apiKey: explorerApiKey };
+  }
+  return network;
+}
+
+/**
+ * The Hardhat network configs of the networks. Keystores are only decrypted for `selectedNetwork`, as decrypting them
+ * takes a password and a few seconds; the other networks with a keystore sign with the accounts of their node.
+ */
+export function hardhatNetworks(
+  networks: Record<string, NetworkDefinition>,
+  selectedNetwork = selectedNetworkName(),
+  env: NodeJS.ProcessEnv = process.env,
+): Record<string, HttpNetworkUserConfig> {
+  return Object.fromEntries(
+    Object.entries(networks).map(([name, network]) => {
+      const config: HttpNetworkUserConfig = {
+        url: network.url,
+        chainId: network.chainId,
+        accounts: accounts(name, network.signers, name === selectedNetwork, env),
+      };
+
+      const gas = network.gas ?? { type: "legacy" };
+      if (gas.type === "legacy") {
+        config.gasPrice = gas.gasPrice ?? "auto";
+        if (gas.gasPrice !== undefined) config.ignition = { gasPrice: BigInt(gas.gasPrice) };
+      } else if (gas.type === "eip1559") {
+        config.ignition = {
+          maxFeePerGasLimit: gas.maxFeePerGas === undefined ? undefined : BigInt(gas.maxFeePerGas),
+          maxPriorityFeePerGas: gas.maxPriorityFeePerGas === undefined ? undefined : BigInt(gas.maxPriorityFeePerGas),
+        };
+      } else {
+        // Bumping a zero gas price would never get a stuck transaction mined either
+        config.gasPrice = 0;
+        config.ignition = { gasPrice: 0n, disableFeeBumping: true };
+      }
+      return [name, config];
+    }),
+  );
+}
+
+function accounts(
+  name: string,
+  signers: NetworkSigners | undefined,
+  decrypt: boolean,
+  env: NodeJS.ProcessEnv,
+): HttpNetworkAccountsUserConfig {
+  if (signers === undefined) return "remote";
+  if ("mnemonic" in signers) return signers;
+  if ("privateKeys" in signers) return signers.privateKeys;
+  if (!decrypt) return "remote";
+
+  const passwordVariable = `${name.toUpperCase().replace(/-/g, "_")}_KEYSTORE_PASSWORD`;
+  const password = env[passwordVariable];
+  if (password === undefined) throw new Error(`Set ${passwordVariable} to unlock the keystore of network ${name}`);
+  return [decryptKeystore(path.resolve(signers.keystore), password)];
+}
+
+/** The Etherscan-compatible explorers of the networks, for `hardhat verify` and `ignition deploy --verify` */
+export function explorerConfig(networks: Record<string, NetworkDefinition>): {
+  apiKey: Record<string, string>;
+  customChains: ChainConfig[];
+} {
+  const explorers = Object.entries(networks).filter(([, network]) => network.explorer !== undefined);
+  for (const [name, network] of explorers) {
+    if (network.chainId === undefined) throw new Error(`Network ${name} needs a chainId to verify on its explorer`);
+  }
+
+  return {
+    // Blockscout ignores the API key, but hardhat-verify requires one
+    apiKey: Object.fromEntries(explorers.map(([name, network]) => [name, network.explorer!.apiKey ?? "blockscout"])),
+    customChains: explorers.map(([name, network]) => ({
+      network: name,
+      chainId: network.chainId!,
+      urls: { apiURL: network.explorer!.apiUrl, browserURL: network.explorer!.browserUrl },
+    })),
+  };
+}
+
+/**
+ * The Ignition deployment id of a network: the `deploymentId` of its definition, or `chain-<chainId>` like Ignition
+ * picks itself.
+ */
+export function networkDeploymentId(networkName: string, chainId: number): string {
+  return loadNetworks()[networkName]?.deploymentId ?? `chain-${chainId}`;
+}
+
+/** The name graph-node knows a network by, `settlemint` unless its definition says otherwise */
+export function networkGraphName(networkName: string): string {
+  return loadNetworks()[networkName]?.graphNetwork ?? "settlemint";
+}
+
+/** The network Hardhat runs on, as selected with `--network` or `HARDHAT_NETWORK` */
+function selectedNetworkName(): string | undefined {
+  const index = process.argv.indexOf("--network");
+  return index === -1 ? process.env.HARDHAT_NETWORK : process.argv[index + 1];
+}
@@ -0,0 +1,61 @@
+import { createDecipheriv, pbkdf2Sync, scryptSync } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { bytesToHex, concat, hexToBytes, keccak256, type Hex } from "viem";
+
+interface KeystoreV3 {
+  version: number;
+  crypto: {
+    cipher: string;
+    ciphertext: string;
+    cipherparams: { iv: string };
+    kdf: "scrypt" | "pbkdf2";
+    kdfparams: {
+      dklen: number;
+      salt: string;
+      // scrypt
+      n?: number;
+      r?: number;
+      p?: number;
+      // pbkdf2
+      c?: number;
+      prf?: string;
+    };
+    mac: string;
+  };
+}
+
+/**
+ * Decrypts a Web3 Secret Storage (V3) keystore, as written by geth, Besu's `ethsigner` or `cast wallet new`, into the
+ * private key it holds. Hardhat reads its config synchronously, so the key derivation runs synchronously as well.
+ * @param file Path of the keystore JSON
+ * @param password Password the keystore was encrypted with
+ */
+export function decryptKeystore(file: string, password: string): Hex {
+  const { version, crypto } = JSON.parse(readFileSync(file, "utf8")) as KeystoreV3;
+  if (version !== 3) throw new Error(`Keystore ${file} is version ${version}, only version 3 is supported`);
+  if (crypto.cipher !== "aes-128-ctr") throw new Error(`Keystore ${file} uses unsupported cipher ${crypto.cipher}`);
+
+  const { dklen, salt } = crypto.kdfparams;
+  const saltBytes = Buffer.from(salt, "hex");
+  let derivedKey: Buffer;
+  if (crypto.kdf === "scrypt") {
+    const { n, r, p } = crypto.kdfparams as Required<KeystoreV3["crypto"]["kdfparams"]>;
+    derivedKey = scryptSync(password, saltBytes, dklen, { N: n, r, p, maxmem: 256 * n * r });
+  } else if (crypto.kdf === "pbkdf2") {
+    if (crypto.kdfparams.prf !== "hmac-sha256") throw new Error(`Keystore ${file} uses unsupported prf`);
+    derivedKey = pbkdf2Sync(password, saltBytes, crypto.kdfparams.c!, dklen, "sha256");
+  } else {
+    throw new Error(`Keystore ${file} uses unsupported kdf ${crypto.kdf as string}`);
+  }
+
+  const ciphertext = hexToBytes(`0x${crypto.ciphertext}`);
+  const mac = keccak256(concat([derivedKey.subarray(16, 32), ciphertext]));
+  if (mac.slice(2) !== crypto.mac.toLowerCase()) throw new Error(`Wrong password for keystore ${file}`);
+
+  const decipher = createDecipheriv(
+    "aes-128-ctr",
+    derivedKey.subarray(0, 16),
+    Buffer.from(crypto.cipherparams.iv, "hex"),
+  );
+  return bytesToHex(Buffer.concat([decipher.update(ciphertext), decipher.final()]));
+}
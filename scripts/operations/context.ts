@@ -0,0 +1,132 @@
+import { existsSync } from "node:fs";
+import path from "node:path";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { getAddress, isAddress, parseUnits, type Address, type PublicClient, type WalletClient } from "viem";
+import {
+  createDexClient,
+  createDexFactoryClient,
+  createFactoryClient,
+  createRegistryClient,
+  createTimelockClient,
+  createTokenClient,
+  PRESET_ADDRESSES,
+  TokenNotFoundError,
+  type StarterKitClients,
+} from "../../sdk";
+import { readIgnitionDeployment } from "../ignition/deployment";
+import { networkDeploymentId } from "../networks/config";
+
+/** The Ignition futures that deploy the contracts the operations tasks work with */
+export const OPERATIONS_FUTURES = {
+  registry: "ContractsModule#StarterKitERC20Registry",
+  factory: "ContractsModule#StarterKitERC20Factory",
+  dexFactory: "ContractsModule#StarterKitERC20DexFactory",
+} as const;
+
+export type OperationsContext = Awaited<ReturnType<typeof operationsContext>>;
+
+/**
+ * Connects the SDK clients to the contracts of the Ignition deployment for the selected network. Networks without a
+ * deployment fall back to the contracts predeployed in the genesis alloc.
+ * @param deploymentId Ignition deployment id, defaults to the `deploymentId` of the network or `chain-<chainId>`
+ */
+export async function operationsContext(hre: HardhatRuntimeEnvironment, deploymentId?: string) {
+  const publicClient = (await hre.viem.getPublicClient()) as PublicClient;
+  const [walletClient] = (await hre.viem.getWalletClients()) as WalletClient[];
+  const clients: StarterKitClients = { publicClient, walletClient };
+  const account = walletClient.account!.address;
+
+  const addresses = await resolveAddresses(hre, publicClient, deploymentId);
+  const registry = createRegistryClient(clients, addresses.registry);
+  const factory = createFactoryClient(clients, addresses.factory);
+  const dexFactory = createDexFactoryClient(clients, addresses.dexFactory);
+
+  /** Resolves a token symbol through the registry, addresses are taken as they are. */
+  const resolveToken = async (token: string): Promise<Address> => {
+    if (isAddress(token)) return getAddress(token);
+    try {
+      return (await registry.getTokenBySymbol(token)).tokenAddress;
+    } catch (error) {
+      if (error instanceof TokenNotFoundError) throw new Error(`No token with symbol ${token} in the registry`);
+      throw error;
+    }
+  };
+
+  /** Resolves a pair address or `<base>/<quote>` with token symbols or addresses, in either order. */
+  const resolvePair = async (pair: string): Promise<Address> => {
+    if (isAddress(pair)) return getAddress(pair);
+    const [tokenA, tokenB, ...rest] = pair.split("/");
+    if (!tokenA || !tokenB || rest.length > 0) throw new Error(`Pair ${pair} is not an address or <base>/<quote>`);
+
+    const address = await dexFactory.getPair(await resolveToken(tokenA), await resolveToken(tokenB));
+    if (!address) throw new Error(`No pair of ${tokenA} and ${tokenB} in the DEX factory`);
+    return address;
+  };
+
+  /** Parses a decimal amount in the units of a token, e.g. `1.5` for 1.5 tokens. */
+  const parseAmount = async (token: Address, amount: string): Promise<bigint> => {
+    if (!/^\d+(\.\d+)?$/.test(amount)) throw new Error(`Amount ${amount} is not a positive decimal number`);
+    return parseUnits(amount, await createTokenClient(clients, token).decimals());
+  };
+
+  /** The state of a pair along with the address, symbol and decimals of both its tokens. */
+  const describePair = async (address: Address) => {
+    const state = await createDexClient(clients, address).getState();
+    const describeToken = async (tokenAddress: Address) => {
+      const token = createTokenClient(clients, tokenAddress);
+      return { address: tokenAddress, symbol: await token.symbol(), decimals: await token.decimals() };
+    };
+    return { state, base: await describeToken(state.baseToken), quote: await describeToken(state.quoteToken) };
+  };
+
+  return {
+    clients,
+    account,
+    addresses,
+    registry,
+    factory,
+    dexFactory,
+    token: (address: Address) => createTokenClient(clients, address),
+    dex: (address: Address) => createDexClient(clients, address),
+    timelock: (address: Address) => createTimelockClient(clients, address),
+    resolveToken,
+    resolvePair,
+    parseAmount,
+    describePair,
+  };
+}
+
+async function resolveAddresses(
+  hre: HardhatRuntimeEnvironment,
+  publicClient: PublicClient,
+  deploymentId?: string,
+): Promise<Record<keyof typeof OPERATIONS_FUTURES, Address>> {
+  const chainId = await publicClient.getChainId();
+  const deploymentDir = path.join(
+    hre.config.paths.ignition,
+    "deployments",
+    deploymentId ?? networkDeploymentId(hre.network.name, chainId),
+  );
+
+  if (existsSync(deploymentDir)) {
+    const deployment = await readIgnitionDeployment(deploymentDir);
+    const address = (contract: keyof typeof OPERATIONS_FUTURES) => {
+      const deployed = deployment.contracts[OPERATIONS_FUTURES[contract]];
+      if (!deployed) throw new Error(`The deployment in ${deploymentDir} has no ${OPERATIONS_FUTURES[contract]}`);
+      return getAddress(deployed.address);
+    };
+    return { registry: address("registry"), factory: address("factory"), dexFactory: address("dexFactory") };
+  }
+
+  if (deploymentId === undefined && (await publicClient.getBytecode({ address: PRESET_ADDRESSES.registry }))) {
+    return {
+      registry: getAddress(PRESET_ADDRESSES.registry),
+      factory: getAddress(PRESET_ADDRESSES.factory),
+      dexFactory: getAddress(PRESET_ADDRESSES.dexFactory),
+    };
+  }
+
+  throw new Error(
+    `No Ignition deployment found in ${deploymentDir} and no predeployed contracts on chain ${chainId}, deploy the contracts first`,
+  );
+}
@@ -0,0 +1,12 @@
+import { formatUnits } from "viem";
+import { FEE_DENOMINATOR } from "../../sdk";
+
+/** Formats a swap fee in basis points, e.g. `30 bps (0.3%)`. */
+export function formatFee(swapFee: bigint): string {
+  return `${swapFee} bps (${(Number(swapFee) * 100) / Number(FEE_DENOMINATOR)}%)`;
+}
+
+/** Formats an amount in the units of a token, e.g. `1.5 USDC`. */
+export function formatAmount(amount: bigint, token: { symbol: string; decimals: number }): string {
+  return `${formatUnits(amount, token.decimals)} ${token.symbol}`;
+}
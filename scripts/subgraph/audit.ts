@@ -0,0 +1,197 @@
+import { getAddress, type Abi, type Address, type PublicClient } from "viem";
+import { starterKitERC20Abi, starterKitERC20DexAbi } from "../../sdk";
+import { queryAll, type SubgraphClient } from "./query";
+
+export type AuditedEntity = "ERC20Contract" | "ERC20Balance" | "ERC20DexPair" | "ERC20DexStake";
+
+/**
+ * A value the subgraph and the chain disagree on. Values are decimal strings of the exact amounts; `subgraph` is null
+ * for checks that only involve the chain, like `verifyBalances`.
+ */
+export interface AuditDiff {
+  entity: AuditedEntity;
+  id: string;
+  field: string;
+  subgraph: string | null;
+  chain: string;
+  detail?: string;
+}
+
+export interface AuditReport {
+  endpoint: string;
+  chainId: number;
+  /** Block both sides were read at */
+  blockNumber: number;
+  /** Latest block the subgraph had indexed when the audit started */
+  indexedBlockNumber: number;
+  hasIndexingErrors: boolean;
+  checked: Record<AuditedEntity, number>;
+  diffs: AuditDiff[];
+}
+
+interface ContractEntity {
+  id: string;
+  totalSupplyExact: string;
+}
+
+interface BalanceEntity {
+  id: string;
+  contract: { id: string };
+  account: { id: string } | null;
+  valueExact: string;
+}
+
+interface PairEntity {
+  id: string;
+  baseReserveExact: string;
+  quoteReserveExact: string;
+  totalSupplyExact: string;
+  swapFee: string;
+}
+
+interface StakeEntity {
+  id: string;
+  pair: { id: string };
+  account: { id: string } | null;
+  valueExact: string;
+}
+
+const READ_CONCURRENCY = 20;
+
+/**
+ * Compares the token and DEX state indexed by a subgraph against the chain, both read at the same block:
+ * - `ERC20Contract.totalSupplyExact` against `totalSupply()`, and against the sum of its `ERC20Balance`s
+ * - `ERC20Balance.valueExact` against `balanceOf(account)`
+ * - `ERC20DexPair` reserves, `totalSupplyExact` and `swapFee` against `getBaseTokenBalance()`,
+ *   `getQuoteTokenBalance()`, `totalSupply()` and `swapFee()`, and `verifyBalances()` of the pair itself
+ * - `ERC20DexStake.valueExact` against the LP token `balanceOf(account)`, and their sum against the LP supply
+ * @param blockNumber Block to audit, defaults to the latest block the subgraph has indexed
+ */
+export async function auditSubgraph(
+  publicClient: PublicClient,
+  subgraph: SubgraphClient,
+  blockNumber?: number,
+): Promise<AuditReport> {
+  const { _meta: meta } = await subgraph.query<{
+    _meta: { block: { number: number }; hasIndexingErrors: boolean };
+  }>("{ _meta { block { number } hasIndexingErrors } }");
+  const block = blockNumber ?? meta.block.number;
+  if (block > meta.block.number) {
+    throw new Error(`The subgraph has only indexed up to block ${meta.block.number}, it cannot be audited at ${block}`);
+  }
+
+  const [contracts, balances, pairs, stakes] = [
+    await queryAll<ContractEntity>(subgraph, "erc20Contracts", "Bytes", "totalSupplyExact", block),
+    await queryAll<BalanceEntity>(subgraph, "erc20Balances", "ID", "contract { id } account { id } valueExact", block),
+    await queryAll<PairEntity>(
+      subgraph,
+      "erc20DexPairs",
+      "Bytes",
+      "baseReserveExact quoteReserveExact totalSupplyExact swapFee",
+      block,
+    ),
+    await queryAll<StakeEntity>(subgraph, "erc20DexStakes", "ID", "pair { id } account { id } valueExact", block),
+  ];
+
+  const read = <T>(address: string, abi: Abi, functionName: string, args: unknown[] = []) =>
+    publicClient.readContract({
+      address: getAddress(address),
+      abi,
+      functionName,
+      args,
+      blockNumber: BigInt(block),
+    }) as Promise<T>;
+
+  const diffs: AuditDiff[] = [];
+  const compare = (entity: AuditedEntity, id: string, field: string, subgraphValue: string, chainValue: bigint) => {
+    if (BigInt(subgraphValue) !== chainValue) {
+      diffs.push({ entity, id, field, subgraph: subgraphValue, chain: chainValue.toString() });
+    }
+  };
+
+  const balanceSums = sumBy(balances, (balance) => balance.contract.id);
+  await inBatches(contracts, async (contract) => {
+    const totalSupply = await read<bigint>(contract.id, starterKitERC20Abi, "totalSupply");
+    compare("ERC20Contract", contract.id, "totalSupplyExact", contract.totalSupplyExact, totalSupply);
+    compare("ERC20Contract", contract.id, "sum(balances.valueExact)", sumOf(balanceSums, contract.id), totalSupply);
+  });
+
+  await inBatches(balances, async (balance) => {
+    if (!balance.account) return;
+    const value = await read<bigint>(balance.contract.id, starterKitERC20Abi, "balanceOf", [balance.account.id]);
+    compare("ERC20Balance", balance.id, "valueExact", balance.valueExact, value);
+  });
+
+  const stakeSums = sumBy(stakes, (stake) => stake.pair.id);
+  await inBatches(pairs, async (pair) => {
+    const [baseReserve, quoteReserve, totalSupply, swapFee, balanced] = await Promise.all([
+      read<bigint>(pair.id, starterKitERC20DexAbi, "getBaseTokenBalance"),
+      read<bigint>(pair.id, starterKitERC20DexAbi, "getQuoteTokenBalance"),
+      read<bigint>(pair.id, starterKitERC20DexAbi, "totalSupply"),
+      read<bigint>(pair.id, starterKitERC20DexAbi, "swapFee"),
+      read<boolean>(pair.id, starterKitERC20DexAbi, "verifyBalances"),
+    ]);
+    compare("ERC20DexPair", pair.id, "baseReserveExact", pair.baseReserveExact, baseReserve);
+    compare("ERC20DexPair", pair.id, "quoteReserveExact", pair.quoteReserveExact, quoteReserve);
+    compare("ERC20DexPair", pair.id, "totalSupplyExact", pair.totalSupplyExact, totalSupply);
+    compare("ERC20DexPair", pair.id, "swapFee", pair.swapFee, swapFee);
+    compare("ERC20DexPair", pair.id, "sum(stakes.valueExact)", sumOf(stakeSums, pair.id), totalSupply);
+
+    // The pair itself drifted, e.g. after an emergencyWithdraw that does not touch the tracked reserves
+    if (!balanced) {
+      const held = async (token: "baseToken" | "quoteToken") => {
+        const tokenAddress = await read<Address>(pair.id, starterKitERC20DexAbi, token);
+        return read<bigint>(tokenAddress, starterKitERC20Abi, "balanceOf", [pair.id]);
+      };
+      const [baseHeld, quoteHeld] = [await held("baseToken"), await held("quoteToken")];
+      diffs.push({
+        entity: "ERC20DexPair",
+        id: pair.id,
+        field: "verifyBalances",
+        subgraph: null,
+        chain: "false",
+        detail: `holds ${baseHeld} base and ${quoteHeld} quote tokens against reserves of ${baseReserve} and ${quoteReserve}`,
+      });
+    }
+  });
+
+  await inBatches(stakes, async (stake) => {
+    if (!stake.account) return;
+    const value = await read<bigint>(stake.pair.id, starterKitERC20DexAbi, "balanceOf", [stake.account.id]);
+    compare("ERC20DexStake", stake.id, "valueExact", stake.valueExact, value);
+  });
+
+  return {
+    endpoint: subgraph.endpoint,
+    chainId: await publicClient.getChainId(),
+    blockNumber: block,
+    indexedBlockNumber: meta.block.number,
+    hasIndexingErrors: meta.hasIndexingErrors,
+    checked: {
+      ERC20Contract: contracts.length,
+      ERC20Balance: balances.length,
+      ERC20DexPair: pairs.length,
+      ERC20DexStake: stakes.length,
+    },
+    diffs,
+  };
+}
+
+function sumBy<T extends { valueExact: string }>(entities: T[], key: (entity: T) => string): Map<string, bigint> {
+  const sums = new Map<string, bigint>();
+  for (const entity of entities) {
+    sums.set(key(entity), (sums.get(key(entity)) ?? 0n) + BigInt(entity.valueExact));
+  }
+  return sums;
+}
+
+function sumOf(sums: Map<string, bigint>, id: string): string {
+  return (sums.get(id) ?? 0n).toString();
+}
+
+// Keeps the number of calls in flight to the RPC node bounded on subgraphs with many holders
+async function inBatches<T>(items: T[], action: (item: T) => Promise<void>): Promise<void> {
+  for (let start = 0; start < items.length; start += READ_CONCURRENCY) {
+    await Promise.all(items.slice(start, start + READ_CONCURRENCY).map(action));
+  }
+}
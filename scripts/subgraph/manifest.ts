@@ -0,0 +1,58 @@
+import YAML from "yaml";
+import type { DeployedContract, IgnitionDeployment } from "../ignition/deployment";
+
+/** The Ignition future that deploys the contract each data source indexes, keyed by the data source ABI. */
+export const DATA_SOURCE_FUTURES: Record<string, string> = {
+  StarterKitERC20Registry: "ContractsModule#StarterKitERC20Registry",
+  StarterKitERC20DexFactory: "ContractsModule#StarterKitERC20DexFactory",
+};
+
+/**
+ * Renders the subgraph manifest for a deployment, pointing the data sources at the deployed contracts.
+ * @param manifest The contents of the checked-in `subgraph.yaml`
+ * @param network The network name graph-node knows the chain by
+ * @param deployment The Ignition deployment to index
+ */
+export function renderManifest(manifest: string, network: string, deployment: IgnitionDeployment): string {
+  const document = YAML.parseDocument(manifest);
+
+  for (const [index, dataSource] of (document.get("dataSources").toJSON() as { source: { abi: string } }[]).entries()) {
+    const contract = deployedContract(deployment, dataSource.source.abi);
+    document.setIn(["dataSources", index, "network"], network);
+    document.setIn(["dataSources", index, "source", "address"], contract.address);
+    document.setIn(["dataSources", index, "source", "startBlock"], contract.startBlock);
+  }
+  for (let index = 0; index < document.get("templates").items.length; index++) {
+    document.setIn(["templates", index, "network"], network);
+  }
+
+  return String(document);
+}
+
+/**
+ * Renders the graph-cli `networks.json` entry for a deployment.
+ * @param manifest The contents of the checked-in `subgraph.yaml`
+ * @param network The network name graph-node knows the chain by
+ * @param deployment The Ignition deployment to index
+ */
+export function renderNetworks(
+  manifest: string,
+  network: string,
+  deployment: IgnitionDeployment,
+): Record<string, Record<string, DeployedContract>> {
+  const dataSources = YAML.parse(manifest).dataSources as { name: string; source: { abi: string } }[];
+  return {
+    [network]: Object.fromEntries(
+      dataSources.map((dataSource) => [dataSource.name, deployedContract(deployment, dataSource.source.abi)]),
+    ),
+  };
+}
+
+function deployedContract(deployment: IgnitionDeployment, abi: string): DeployedContract {
+  const futureId = DATA_SOURCE_FUTURES[abi];
+  const contract = futureId ? deployment.contracts[futureId] : undefined;
+  if (!contract) {
+    throw new Error(`The deployment on chain ${deployment.chainId} has no contract for the ${abi} data source`);
+  }
+  return contract;
+}
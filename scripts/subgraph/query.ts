@@ -0,0 +1,69 @@
+export interface SubgraphClient {
+  endpoint: string;
+  query<T>(query: string, variables?: Record<string, unknown>): Promise<T>;
+}
+
+/** A query the graph node answered with errors, e.g. for a block it has not indexed yet. */
+export class SubgraphQueryError extends Error {
+  override name = "SubgraphQueryError";
+
+  constructor(
+    readonly endpoint: string,
+    readonly errors: { message: string }[],
+  ) {
+    super(`Subgraph query to ${endpoint} failed: ${errors.map((error) => error.message).join("; ")}`);
+  }
+}
+
+/**
+ * A client for the GraphQL endpoint of a subgraph on a graph node, e.g.
+ * `http://localhost:8000/subgraphs/name/starterkit`.
+ */
+export function createSubgraphClient(endpoint: string): SubgraphClient {
+  return {
+    endpoint,
+    async query<T>(query: string, variables: Record<string, unknown> = {}): Promise<T> {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ query, variables }),
+      });
+      if (!response.ok) {
+        throw new SubgraphQueryError(endpoint, [{ message: `HTTP ${response.status} ${response.statusText}` }]);
+      }
+
+      const { data, errors } = (await response.json()) as { data?: T; errors?: { message: string }[] };
+      if (errors?.length) throw new SubgraphQueryError(endpoint, errors);
+      return data!;
+    },
+  };
+}
+
+/**
+ * Reads every entity of a collection as it was at `block`, a page of `pageSize` entities at a time ordered by id.
+ * @param collection Plural query field of the entity, e.g. `erc20Balances`
+ * @param idType GraphQL type of the entity id, `Bytes` or `ID`
+ * @param fields Selection set of each entity, without the braces
+ */
+export async function queryAll<T extends { id: string }>(
+  client: SubgraphClient,
+  collection: string,
+  idType: "Bytes" | "ID",
+  fields: string,
+  block: number,
+  pageSize = 1000,
+): Promise<T[]> {
+  const entities: T[] = [];
+  let lastId: string | undefined;
+  for (;;) {
+    const where = lastId === undefined ? "" : "where: { id_gt: $lastId }, ";
+    const query = `query ($block: Int!, $first: Int!${lastId === undefined ? "" : `, $lastId: ${idType}!`}) {
+      ${collection}(${where}first: $first, orderBy: id, orderDirection: asc, block: { number: $block }) { id ${fields} }
+    }`;
+    const page = (await client.query<Record<string, T[]>>(query, { block, first: pageSize, lastId }))[collection];
+
+    entities.push(...page);
+    if (page.length < pageSize) return entities;
+    lastId = page[page.length - 1].id;
+  }
+}
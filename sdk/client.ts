@@ -0,0 +1,55 @@
+import type { Abi, Address, Hash, PublicClient, TransactionReceipt, WalletClient } from "viem";
+import { decodeContractError } from "./errors";
+
+/**
+ * The viem clients the SDK talks to the chain with. The wallet client is only needed to send transactions.
+ */
+export interface StarterKitClients {
+  publicClient: PublicClient;
+  walletClient?: WalletClient;
+  /** Seconds per block used for deadlines, estimated from recent blocks when not set */
+  blockTime?: number;
+}
+
+export interface TransactionResult {
+  hash: Hash;
+  receipt: TransactionReceipt;
+}
+
+/**
+ * Runs a contract read, rethrowing reverts as typed exceptions.
+ */
+export async function read<T>(request: () => Promise<T>): Promise<T> {
+  try {
+    return await request();
+  } catch (error) {
+    throw decodeContractError(error);
+  }
+}
+
+/**
+ * Simulates a contract write to surface reverts as typed exceptions before anything is signed, then sends it and
+ * waits for the receipt.
+ */
+export async function write(
+  { publicClient, walletClient }: StarterKitClients,
+  parameters: { address: Address; abi: Abi; functionName: string; args: readonly unknown[] },
+): Promise<TransactionResult> {
+  if (!walletClient?.account) {
+    throw new Error(`A wallet client with an account is needed to call ${parameters.functionName}`);
+  }
+
+  let hash: Hash;
+  try {
+    const { request } = await publicClient.simulateContract({ ...parameters, account: walletClient.account });
+    hash = await walletClient.writeContract(request);
+  } catch (error) {
+    throw decodeContractError(error);
+  }
+
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  if (receipt.status !== "success") {
+    throw new Error(`Transaction ${hash} calling ${parameters.functionName} reverted`);
+  }
+  return { hash, receipt };
+}
@@ -0,0 +1,79 @@
+import type { PublicClient } from "viem";
+import { contractError } from "./errors";
+
+/** Seconds per block assumed when the chain has too few blocks to observe its block time */
+export const DEFAULT_BLOCK_TIME = 1;
+/** Number of recent blocks the block time is averaged over */
+export const BLOCK_TIME_SAMPLE_SIZE = 100n;
+/** Deadlines further ahead than this many seconds of blocks are almost certainly a timestamp passed by mistake */
+export const MAX_DEADLINE_DURATION = 30 * 24 * 60 * 60;
+
+/**
+ * A deadline that is too far ahead to be meant as a block number, e.g. a unix timestamp.
+ */
+export class ImplausibleDeadlineError extends Error {
+  override name = "ImplausibleDeadlineError";
+
+  constructor(
+    readonly deadline: bigint,
+    readonly maxDeadline: bigint,
+  ) {
+    super(
+      `Deadline ${deadline} is past block ${maxDeadline}, the latest plausible deadline. Pair deadlines are block numbers, not timestamps`,
+    );
+  }
+}
+
+/**
+ * Estimates the seconds per block from the timestamps of recent blocks.
+ */
+export async function estimateBlockTime(
+  publicClient: PublicClient,
+  sampleSize: bigint = BLOCK_TIME_SAMPLE_SIZE,
+): Promise<number> {
+  const latest = await publicClient.getBlock();
+  const span = latest.number < sampleSize ? latest.number : sampleSize;
+  if (span === 0n) return DEFAULT_BLOCK_TIME;
+
+  const earlier = await publicClient.getBlock({ blockNumber: latest.number - span });
+  const blockTime = Number(latest.timestamp - earlier.timestamp) / Number(span);
+  return blockTime > 0 ? blockTime : DEFAULT_BLOCK_TIME;
+}
+
+/**
+ * Computes the block number deadline for the pair functions that lies `duration` seconds ahead.
+ * @param duration Seconds until the deadline
+ * @param blockTime Seconds per block, estimated from recent blocks when not set
+ */
+export async function blockDeadline(publicClient: PublicClient, duration: number, blockTime?: number): Promise<bigint> {
+  if (!Number.isFinite(duration) || duration <= 0) {
+    throw new Error(`Deadline duration must be a positive number of seconds, got ${duration}`);
+  }
+
+  const [currentBlock, secondsPerBlock] = await Promise.all([
+    publicClient.getBlockNumber(),
+    blockTime ?? estimateBlockTime(publicClient),
+  ]);
+  return currentBlock + BigInt(Math.ceil(duration / secondsPerBlock));
+}
+
+/**
+ * Rejects a block number deadline that has already passed, throwing the `DeadlineExpiredError` the pair would revert
+ * with, or that is implausibly far ahead.
+ * @param blockTime Seconds per block, estimated from recent blocks when not set
+ * @param maxDuration Seconds of blocks a deadline may lie ahead
+ */
+export async function validateDeadline(
+  publicClient: PublicClient,
+  deadline: bigint,
+  blockTime?: number,
+  maxDuration: number = MAX_DEADLINE_DURATION,
+): Promise<void> {
+  // The transaction is included in the next block at the earliest, the pair reverts when `block.number > deadline`
+  const currentBlock = await publicClient.getBlockNumber();
+  if (deadline <= currentBlock) throw contractError("DeadlineExpired", []);
+
+  const secondsPerBlock = blockTime ?? (await estimateBlockTime(publicClient));
+  const maxDeadline = currentBlock + BigInt(Math.ceil(maxDuration / secondsPerBlock));
+  if (deadline > maxDeadline) throw new ImplausibleDeadlineError(deadline, maxDeadline);
+}
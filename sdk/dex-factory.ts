@@ -0,0 +1,55 @@
+import { parseEventLogs, zeroAddress, type Address } from "viem";
+import { starterKitERC20DexFactoryAbi, starterKitErrorsAbi } from "./abis";
+import { read, write, type StarterKitClients, type TransactionResult } from "./client";
+
+const abi = [...starterKitERC20DexFactoryAbi, ...starterKitErrorsAbi];
+
+export type DexFactoryClient = ReturnType<typeof createDexFactoryClient>;
+
+/**
+ * Creates a client for a `StarterKitERC20DexFactory`.
+ */
+export function createDexFactoryClient(clients: StarterKitClients, address: Address) {
+  const { publicClient } = clients;
+
+  const allPairsLength = (): Promise<bigint> =>
+    read(() => publicClient.readContract({ address, abi, functionName: "allPairsLength" }));
+  const allPairs = (index: bigint): Promise<Address> =>
+    read(() => publicClient.readContract({ address, abi, functionName: "allPairs", args: [index] }));
+
+  return {
+    address,
+    allPairsLength,
+    allPairs,
+
+    /** The pair of two tokens in either order, or `undefined` when it does not exist. */
+    getPair: async (tokenA: Address, tokenB: Address): Promise<Address | undefined> => {
+      const pair = await read(() =>
+        publicClient.readContract({ address, abi, functionName: "getPair", args: [tokenA, tokenB] }),
+      );
+      return pair === zeroAddress ? undefined : pair;
+    },
+
+    listPairs: async (): Promise<Address[]> => {
+      const length = await allPairsLength();
+      const pairs: Address[] = [];
+      for (let index = 0n; index < length; index++) {
+        pairs.push(await allPairs(index));
+      }
+      return pairs;
+    },
+
+    /**
+     * Creates the pair of two tokens. The factory sorts the tokens by address, so the pair's base token is the lower
+     * of the two addresses. Throws `PairExistsError` when the pair exists in either order.
+     */
+    createPair: async (tokenA: Address, tokenB: Address): Promise<TransactionResult & { pairAddress: Address }> => {
+      const result = await write(clients, { address, abi, functionName: "createPair", args: [tokenA, tokenB] });
+      const [created] = parseEventLogs({ abi, logs: result.receipt.logs, eventName: "PairCreated" });
+      if (!created) {
+        throw new Error(`Transaction ${result.hash} did not emit PairCreated`);
+      }
+      return { ...result, pairAddress: created.args.pair };
+    },
+  };
+}
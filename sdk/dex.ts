@@ -0,0 +1,134 @@
+import type { Address } from "viem";
+import { starterKitERC20DexAbi, starterKitErrorsAbi } from "./abis";
+import { read, write, type StarterKitClients, type TransactionResult } from "./client";
+import { validateDeadline } from "./deadline";
+import { signPermit, submitPermit, type SignedPermit } from "./permit";
+import { quoteAddLiquidity, quoteBaseToQuote, quoteQuoteToBase, quoteRemoveLiquidity, type PairState } from "./quote";
+
+const abi = [...starterKitERC20DexAbi, ...starterKitErrorsAbi];
+
+export interface DexState extends PairState {
+  address: Address;
+  baseToken: Address;
+  quoteToken: Address;
+  paused: boolean;
+}
+
+export type DexClient = ReturnType<typeof createDexClient>;
+
+/**
+ * Creates a client for a `StarterKitERC20Dex` pair. Quotes are computed off-chain from a single read of the pair
+ * state, and throw the typed exception the pair would revert with for the same input.
+ *
+ * Deadlines are block numbers, see `blockDeadline` to compute one from a duration. Deadlines that already passed or
+ * lie implausibly far ahead are rejected before anything is sent.
+ */
+export function createDexClient(clients: StarterKitClients, address: Address) {
+  const { publicClient } = clients;
+  const checkDeadline = (deadline?: bigint) =>
+    deadline === undefined ? Promise.resolve() : validateDeadline(publicClient, deadline, clients.blockTime);
+
+  const getState = async (): Promise<DexState> => {
+    const [baseToken, quoteToken, baseReserve, quoteReserve, swapFee, totalSupply, paused] = await read(() =>
+      Promise.all([
+        publicClient.readContract({ address, abi, functionName: "baseToken" }),
+        publicClient.readContract({ address, abi, functionName: "quoteToken" }),
+        publicClient.readContract({ address, abi, functionName: "getBaseTokenBalance" }),
+        publicClient.readContract({ address, abi, functionName: "getQuoteTokenBalance" }),
+        publicClient.readContract({ address, abi, functionName: "swapFee" }),
+        publicClient.readContract({ address, abi, functionName: "totalSupply" }),
+        publicClient.readContract({ address, abi, functionName: "paused" }),
+      ]),
+    );
+    return { address, baseToken, quoteToken, baseReserve, quoteReserve, swapFee, totalSupply, paused };
+  };
+
+  return {
+    address,
+    getState,
+
+    balanceOf: (account: Address): Promise<bigint> =>
+      read(() => publicClient.readContract({ address, abi, functionName: "balanceOf", args: [account] })),
+    verifyBalances: (): Promise<boolean> =>
+      read(() => publicClient.readContract({ address, abi, functionName: "verifyBalances" })),
+    /** The `TimelockController` the pair created for itself, the only account allowed to change the fee */
+    timelock: (): Promise<Address> => read(() => publicClient.readContract({ address, abi, functionName: "timelock" })),
+
+    /** Pass the deadline the swap will be sent with to have it validated along with the quote. */
+    quoteBaseToQuote: async (baseAmount: bigint, deadline?: bigint): Promise<bigint> => {
+      const [state] = await Promise.all([getState(), checkDeadline(deadline)]);
+      return quoteBaseToQuote(state, baseAmount);
+    },
+
+    /** Pass the deadline the swap will be sent with to have it validated along with the quote. */
+    quoteQuoteToBase: async (quoteAmount: bigint, deadline?: bigint): Promise<bigint> => {
+      const [state] = await Promise.all([getState(), checkDeadline(deadline)]);
+      return quoteQuoteToBase(state, quoteAmount);
+    },
+
+    quoteAddLiquidity: async (baseAmount: bigint, quoteAmount: bigint): Promise<bigint> =>
+      quoteAddLiquidity(await getState(), baseAmount, quoteAmount),
+    quoteRemoveLiquidity: async (amount: bigint): Promise<{ baseAmount: bigint; quoteAmount: bigint }> =>
+      quoteRemoveLiquidity(await getState(), amount),
+
+    /** Nonce the next LP token permit of `owner` has to be signed with */
+    nonces: (owner: Address): Promise<bigint> =>
+      read(() => publicClient.readContract({ address, abi, functionName: "nonces", args: [owner] })),
+    /**
+     * Signs a permit allowing `spender` to move `value` LP tokens of the sender until `deadline`, a unix timestamp.
+     * `removeLiquidity` burns the LP tokens of the sender itself and needs no allowance, a permit lets another account,
+     * like a router or a vault, move them on behalf of the sender.
+     */
+    signPermit: (spender: Address, value: bigint, deadline: bigint): Promise<SignedPermit> =>
+      signPermit(clients, address, spender, value, deadline),
+    /** Submits an LP token permit signed by any owner, the sender only pays the gas. */
+    permit: (permit: SignedPermit): Promise<TransactionResult> => submitPermit(clients, { ...permit, token: address }),
+
+    /** Both tokens need an allowance for the pair of at least the amounts added. */
+    addLiquidity: (baseAmount: bigint, quoteAmount: bigint): Promise<TransactionResult> =>
+      write(clients, { address, abi, functionName: "addLiquidity", args: [baseAmount, quoteAmount] }),
+
+    removeLiquidity: async (
+      amount: bigint,
+      minBaseAmount: bigint,
+      minQuoteAmount: bigint,
+      deadline: bigint,
+    ): Promise<TransactionResult> => {
+      await checkDeadline(deadline);
+      return write(clients, {
+        address,
+        abi,
+        functionName: "removeLiquidity",
+        args: [amount, minBaseAmount, minQuoteAmount, deadline],
+      });
+    },
+
+    swapBaseToQuote: async (
+      baseAmount: bigint,
+      minQuoteAmount: bigint,
+      deadline: bigint,
+    ): Promise<TransactionResult> => {
+      await checkDeadline(deadline);
+      return write(clients, {
+        address,
+        abi,
+        functionName: "swapBaseToQuote",
+        args: [baseAmount, minQuoteAmount, deadline],
+      });
+    },
+
+    swapQuoteToBase: async (
+      quoteAmount: bigint,
+      minBaseAmount: bigint,
+      deadline: bigint,
+    ): Promise<TransactionResult> => {
+      await checkDeadline(deadline);
+      return write(clients, {
+        address,
+        abi,
+        functionName: "swapQuoteToBase",
+        args: [quoteAmount, minBaseAmount, deadline],
+      });
+    },
+  };
+}
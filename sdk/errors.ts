@@ -0,0 +1,381 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  decodeErrorResult,
+  isHex,
+  size,
+  slice,
+  type Address,
+  type ContractErrorArgs,
+  type ContractErrorName,
+  type Hex,
+} from "viem";
+import { starterKitErrorsAbi } from "./abis";
+
+export type StarterKitErrorName = ContractErrorName<typeof starterKitErrorsAbi>;
+export type StarterKitErrorArgs<TName extends StarterKitErrorName> = ContractErrorArgs<
+  typeof starterKitErrorsAbi,
+  TName
+>;
+
+/**
+ * A custom error one of the starter kit contracts reverted with, or the same error predicted by an off-chain quote.
+ */
+export class StarterKitContractError<TName extends StarterKitErrorName = StarterKitErrorName> extends Error {
+  override name = "StarterKitContractError";
+
+  constructor(
+    readonly errorName: TName,
+    readonly args: StarterKitErrorArgs<TName>,
+    readonly cause?: unknown,
+  ) {
+    super(`${errorName}(${(args as readonly unknown[]).map(String).join(", ")})`);
+  }
+}
+
+/**
+ * A revert that does not match any custom error of the starter kit contracts, e.g. a `require` message or a panic.
+ */
+export class UnknownContractError extends Error {
+  override name = "UnknownContractError";
+
+  constructor(
+    message: string,
+    readonly signature?: Hex,
+    readonly cause?: unknown,
+  ) {
+    super(message);
+  }
+}
+
+// Registry
+
+export class TokenNotFoundError extends StarterKitContractError<"TokenNotFound"> {
+  override name = "TokenNotFoundError";
+  get tokenAddress(): Address {
+    return this.args[0];
+  }
+}
+
+export class TokenIndexOutOfBoundsError extends StarterKitContractError<"TokenIndexOutOfBounds"> {
+  override name = "TokenIndexOutOfBoundsError";
+  get index(): bigint {
+    return this.args[0];
+  }
+}
+
+export class TokenAddressAlreadyExistsError extends StarterKitContractError<"TokenAddressAlreadyExists"> {
+  override name = "TokenAddressAlreadyExistsError";
+  get tokenAddress(): Address {
+    return this.args[0];
+  }
+}
+
+export class TokenSymbolAlreadyExistsError extends StarterKitContractError<"TokenSymbolAlreadyExists"> {
+  override name = "TokenSymbolAlreadyExistsError";
+  get symbol(): string {
+    return this.args[0];
+  }
+}
+
+// DEX factory
+
+export class IdenticalAddressesError extends StarterKitContractError<"IdenticalAddresses"> {
+  override name = "IdenticalAddressesError";
+}
+
+export class InvalidTokenError extends StarterKitContractError<"InvalidToken"> {
+  override name = "InvalidTokenError";
+}
+
+export class PairExistsError extends StarterKitContractError<"PairExists"> {
+  override name = "PairExistsError";
+}
+
+export class ZeroAddressError extends StarterKitContractError<"ZeroAddress"> {
+  override name = "ZeroAddressError";
+}
+
+// DEX pair
+
+export class SameTokenAddressError extends StarterKitContractError<"SameTokenAddress"> {
+  override name = "SameTokenAddressError";
+  get token(): Address {
+    return this.args[0];
+  }
+}
+
+export class InvalidReservesError extends StarterKitContractError<"InvalidReserves"> {
+  override name = "InvalidReservesError";
+}
+
+export class AmountRatioMismatchError extends StarterKitContractError<"AmountRatioMismatch"> {
+  override name = "AmountRatioMismatchError";
+  get provided(): bigint {
+    return this.args[0];
+  }
+  get expected(): bigint {
+    return this.args[1];
+  }
+}
+
+export class ZeroAmountError extends StarterKitContractError<"ZeroAmount"> {
+  override name = "ZeroAmountError";
+}
+
+export class InsufficientLiquidityMintedError extends StarterKitContractError<"InsufficientLiquidityMinted"> {
+  override name = "InsufficientLiquidityMintedError";
+}
+
+export class InvalidTokenAmountError extends StarterKitContractError<"InvalidTokenAmount"> {
+  override name = "InvalidTokenAmountError";
+  get amount(): bigint {
+    return this.args[0];
+  }
+}
+
+export class InvalidFeeError extends StarterKitContractError<"InvalidFee"> {
+  override name = "InvalidFeeError";
+  get fee(): bigint {
+    return this.args[0];
+  }
+}
+
+export class FeeTooHighError extends StarterKitContractError<"FeeTooHigh"> {
+  override name = "FeeTooHighError";
+  get fee(): bigint {
+    return this.args[0];
+  }
+}
+
+export class DeadlineExpiredError extends StarterKitContractError<"DeadlineExpired"> {
+  override name = "DeadlineExpiredError";
+}
+
+export class SlippageExceededError extends StarterKitContractError<"SlippageExceeded"> {
+  override name = "SlippageExceededError";
+}
+
+export class InvalidERC20Error extends StarterKitContractError<"InvalidERC20"> {
+  override name = "InvalidERC20Error";
+}
+
+export class TokenDecimalsMismatchError extends StarterKitContractError<"TokenDecimalsMismatch"> {
+  override name = "TokenDecimalsMismatchError";
+}
+
+export class MaxTokenAmountExceededError extends StarterKitContractError<"MaxTokenAmountExceeded"> {
+  override name = "MaxTokenAmountExceededError";
+}
+
+export class BalanceMismatchError extends StarterKitContractError<"BalanceMismatch"> {
+  override name = "BalanceMismatchError";
+}
+
+export class SwapAmountTooLargeError extends StarterKitContractError<"SwapAmountTooLarge"> {
+  override name = "SwapAmountTooLargeError";
+  get amount(): bigint {
+    return this.args[0];
+  }
+  get maxAmount(): bigint {
+    return this.args[1];
+  }
+}
+
+export class UnauthorizedTimelockError extends StarterKitContractError<"UnauthorizedTimelock"> {
+  override name = "UnauthorizedTimelockError";
+}
+
+// Timelock of a pair, which schedules and executes its fee changes
+
+export class TimelockInsufficientDelayError extends StarterKitContractError<"TimelockInsufficientDelay"> {
+  override name = "TimelockInsufficientDelayError";
+  get delay(): bigint {
+    return this.args[0];
+  }
+  get minDelay(): bigint {
+    return this.args[1];
+  }
+}
+
+export class TimelockUnexpectedOperationStateError extends StarterKitContractError<"TimelockUnexpectedOperationState"> {
+  override name = "TimelockUnexpectedOperationStateError";
+  get operationId(): Hex {
+    return this.args[0];
+  }
+  /** Bitmap of the accepted `OperationState`s, bit `1 << state` */
+  get expectedStates(): Hex {
+    return this.args[1];
+  }
+}
+
+export class TimelockUnexecutedPredecessorError extends StarterKitContractError<"TimelockUnexecutedPredecessor"> {
+  override name = "TimelockUnexecutedPredecessorError";
+  get predecessorId(): Hex {
+    return this.args[0];
+  }
+}
+
+// Tokens, also reverted with by pairs as they are LP tokens and move tokens on behalf of the caller
+
+export class ERC20InsufficientBalanceError extends StarterKitContractError<"ERC20InsufficientBalance"> {
+  override name = "ERC20InsufficientBalanceError";
+  get sender(): Address {
+    return this.args[0];
+  }
+  get balance(): bigint {
+    return this.args[1];
+  }
+  get needed(): bigint {
+    return this.args[2];
+  }
+}
+
+export class ERC20InsufficientAllowanceError extends StarterKitContractError<"ERC20InsufficientAllowance"> {
+  override name = "ERC20InsufficientAllowanceError";
+  get spender(): Address {
+    return this.args[0];
+  }
+  get allowance(): bigint {
+    return this.args[1];
+  }
+  get needed(): bigint {
+    return this.args[2];
+  }
+}
+
+export class ERC2612ExpiredSignatureError extends StarterKitContractError<"ERC2612ExpiredSignature"> {
+  override name = "ERC2612ExpiredSignatureError";
+  /** Unix timestamp the permit expired at */
+  get deadline(): bigint {
+    return this.args[0];
+  }
+}
+
+export class ERC2612InvalidSignerError extends StarterKitContractError<"ERC2612InvalidSigner"> {
+  override name = "ERC2612InvalidSignerError";
+  get signer(): Address {
+    return this.args[0];
+  }
+  get owner(): Address {
+    return this.args[1];
+  }
+}
+
+export class OwnableUnauthorizedAccountError extends StarterKitContractError<"OwnableUnauthorizedAccount"> {
+  override name = "OwnableUnauthorizedAccountError";
+  get account(): Address {
+    return this.args[0];
+  }
+}
+
+export class AccessControlUnauthorizedAccountError extends StarterKitContractError<"AccessControlUnauthorizedAccount"> {
+  override name = "AccessControlUnauthorizedAccountError";
+  get account(): Address {
+    return this.args[0];
+  }
+  get neededRole(): Hex {
+    return this.args[1];
+  }
+}
+
+export class EnforcedPauseError extends StarterKitContractError<"EnforcedPause"> {
+  override name = "EnforcedPauseError";
+}
+
+type ErrorClass = new (errorName: never, args: never, cause?: unknown) => StarterKitContractError;
+
+const ERROR_CLASSES: Partial<Record<StarterKitErrorName, ErrorClass>> = {
+  TokenNotFound: TokenNotFoundError,
+  TokenIndexOutOfBounds: TokenIndexOutOfBoundsError,
+  TokenAddressAlreadyExists: TokenAddressAlreadyExistsError,
+  TokenSymbolAlreadyExists: TokenSymbolAlreadyExistsError,
+  IdenticalAddresses: IdenticalAddressesError,
+  InvalidToken: InvalidTokenError,
+  PairExists: PairExistsError,
+  ZeroAddress: ZeroAddressError,
+  SameTokenAddress: SameTokenAddressError,
+  InvalidReserves: InvalidReservesError,
+  AmountRatioMismatch: AmountRatioMismatchError,
+  ZeroAmount: ZeroAmountError,
+  InsufficientLiquidityMinted: InsufficientLiquidityMintedError,
+  InvalidTokenAmount: InvalidTokenAmountError,
+  InvalidFee: InvalidFeeError,
+  FeeTooHigh: FeeTooHighError,
+  DeadlineExpired: DeadlineExpiredError,
+  SlippageExceeded: SlippageExceededError,
+  InvalidERC20: InvalidERC20Error,
+  TokenDecimalsMismatch: TokenDecimalsMismatchError,
+  MaxTokenAmountExceeded: MaxTokenAmountExceededError,
+  BalanceMismatch: BalanceMismatchError,
+  SwapAmountTooLarge: SwapAmountTooLargeError,
+  UnauthorizedTimelock: UnauthorizedTimelockError,
+  TimelockInsufficientDelay: TimelockInsufficientDelayError,
+  TimelockUnexpectedOperationState: TimelockUnexpectedOperationStateError,
+  TimelockUnexecutedPredecessor: TimelockUnexecutedPredecessorError,
+  ERC20InsufficientBalance: ERC20InsufficientBalanceError,
+  ERC20InsufficientAllowance: ERC20InsufficientAllowanceError,
+  ERC2612ExpiredSignature: ERC2612ExpiredSignatureError,
+  ERC2612InvalidSigner: ERC2612InvalidSignerError,
+  OwnableUnauthorizedAccount: OwnableUnauthorizedAccountError,
+  AccessControlUnauthorizedAccount: AccessControlUnauthorizedAccountError,
+  EnforcedPause: EnforcedPauseError,
+};
+
+/**
+ * Creates the typed exception for a custom error of the starter kit contracts.
+ */
+export function contractError<TName extends StarterKitErrorName>(
+  errorName: TName,
+  args: StarterKitErrorArgs<TName>,
+  cause?: unknown,
+): StarterKitContractError<TName> {
+  const ErrorClass = (ERROR_CLASSES[errorName] ?? StarterKitContractError) as ErrorClass;
+  return new ErrorClass(errorName as never, args as never, cause) as StarterKitContractError<TName>;
+}
+
+/**
+ * Turns a viem contract error into the typed exception of the custom error the contract reverted with. Errors that
+ * are not reverts, like network failures, are returned as they are.
+ */
+export function decodeContractError(error: unknown): Error {
+  if (!(error instanceof BaseError)) {
+    return error instanceof Error ? error : new Error(String(error));
+  }
+
+  const revert = error.walk((cause) => cause instanceof ContractFunctionRevertedError);
+  if (revert instanceof ContractFunctionRevertedError) {
+    const errorName = revert.data?.errorName;
+    if (errorName && errorName !== "Error" && errorName !== "Panic") {
+      return contractError(
+        errorName as StarterKitErrorName,
+        (revert.data?.args ?? []) as StarterKitErrorArgs<StarterKitErrorName>,
+        error,
+      );
+    }
+    return new UnknownContractError(revert.reason ?? revert.shortMessage, revert.signature, error);
+  }
+
+  // Nodes that do not answer reverts with the standard error code, like the in-process Hardhat network, still pass
+  // the revert data along in the cause
+  const data = revertData(error);
+  if (data) {
+    try {
+      const { errorName, args } = decodeErrorResult({ abi: starterKitErrorsAbi, data });
+      return contractError(errorName, (args ?? []) as StarterKitErrorArgs<typeof errorName>, error);
+    } catch {
+      return new UnknownContractError(error.shortMessage, slice(data, 0, 4), error);
+    }
+  }
+  return error;
+}
+
+function revertData(error: BaseError): Hex | undefined {
+  let cause: unknown = error;
+  while (cause instanceof Error) {
+    const data = (cause as { data?: unknown }).data;
+    if (typeof data === "string" && isHex(data) && size(data) >= 4) return data;
+    cause = (cause as { cause?: unknown }).cause;
+  }
+  return undefined;
+}
@@ -0,0 +1,42 @@
+import { parseEventLogs, type Address } from "viem";
+import { starterKitERC20FactoryAbi, starterKitErrorsAbi } from "./abis";
+import { read, write, type StarterKitClients, type TransactionResult } from "./client";
+
+const abi = [...starterKitERC20FactoryAbi, ...starterKitErrorsAbi];
+
+export type FactoryClient = ReturnType<typeof createFactoryClient>;
+
+/**
+ * Creates a client for a `StarterKitERC20Factory`, or the preset factory predeployed in the genesis alloc.
+ */
+export function createFactoryClient(clients: StarterKitClients, address: Address) {
+  const { publicClient } = clients;
+
+  return {
+    address,
+
+    registry: (): Promise<Address> => read(() => publicClient.readContract({ address, abi, functionName: "registry" })),
+
+    /**
+     * Creates and registers a token owned by the sender. Throws `TokenSymbolAlreadyExistsError` when the symbol is
+     * taken.
+     */
+    createToken: async (
+      name: string,
+      symbol: string,
+      extraData = "",
+    ): Promise<TransactionResult & { tokenAddress: Address }> => {
+      const result = await write(clients, {
+        address,
+        abi,
+        functionName: "createToken",
+        args: [name, symbol, extraData],
+      });
+      const [created] = parseEventLogs({ abi, logs: result.receipt.logs, eventName: "TokenCreated" });
+      if (!created) {
+        throw new Error(`Transaction ${result.hash} did not emit TokenCreated`);
+      }
+      return { ...result, tokenAddress: created.args.tokenAddress };
+    },
+  };
+}
@@ -0,0 +1,14 @@
+export * from "./abis";
+export * from "./client";
+export * from "./deadline";
+export * from "./dex";
+export * from "./dex-factory";
+export * from "./errors";
+export * from "./factory";
+export * from "./permit";
+export * from "./quote";
+export * from "./registry";
+export * from "./router";
+export * from "./timelock";
+export * from "./token";
+export { PRESET_ADDRESSES } from "../scripts/genesis/alloc";
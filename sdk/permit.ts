@@ -0,0 +1,135 @@
+import { domainSeparator, parseSignature, type Address, type Hex, type PublicClient, type TypedDataDomain } from "viem";
+import { starterKitERC20Abi, starterKitErrorsAbi } from "./abis";
+import { read, write, type StarterKitClients, type TransactionResult } from "./client";
+import { contractError } from "./errors";
+
+// Tokens and pairs, as LP tokens, share the ERC20Permit functions
+const abi = [...starterKitERC20Abi, ...starterKitErrorsAbi];
+
+/** The EIP-712 type of an EIP-2612 permit */
+export const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+} as const;
+
+export interface Permit {
+  owner: Address;
+  spender: Address;
+  value: bigint;
+  nonce: bigint;
+  /** Unix timestamp, unlike the block number deadlines of the pair functions */
+  deadline: bigint;
+}
+
+export interface SignedPermit extends Permit {
+  token: Address;
+  signature: Hex;
+  v: number;
+  r: Hex;
+  s: Hex;
+}
+
+/**
+ * The EIP-712 domain a token reports does not hash to the `DOMAIN_SEPARATOR()` it checks permits against, e.g. when
+ * the client is connected to another chain than the token. A permit signed for it would be rejected.
+ */
+export class DomainSeparatorMismatchError extends Error {
+  override name = "DomainSeparatorMismatchError";
+
+  constructor(
+    readonly token: Address,
+    readonly expected: Hex,
+    readonly actual: Hex,
+  ) {
+    super(`The EIP-712 domain of ${token} hashes to ${actual}, but the token checks permits against ${expected}`);
+  }
+}
+
+/**
+ * Reads the EIP-712 domain of a token or pair from its `eip712Domain()`, for the chain the client is connected to,
+ * and validates it against the `DOMAIN_SEPARATOR()` of the contract.
+ */
+export async function permitDomain(publicClient: PublicClient, token: Address): Promise<TypedDataDomain> {
+  const [[, name, version], expected, chainId] = await read(() =>
+    Promise.all([
+      publicClient.readContract({ address: token, abi, functionName: "eip712Domain" }),
+      publicClient.readContract({ address: token, abi, functionName: "DOMAIN_SEPARATOR" }),
+      publicClient.getChainId(),
+    ]),
+  );
+
+  const domain = { name, version, chainId, verifyingContract: token };
+  const actual = domainSeparator({ domain });
+  if (actual !== expected) throw new DomainSeparatorMismatchError(token, expected, actual);
+  return domain;
+}
+
+/**
+ * Computes the permit deadline that lies `duration` seconds after the latest block. Permits compare their deadline
+ * against `block.timestamp`, so it is a unix timestamp rather than a block number like `blockDeadline`.
+ */
+export async function permitDeadline(publicClient: PublicClient, duration: number): Promise<bigint> {
+  if (!Number.isFinite(duration) || duration <= 0) {
+    throw new Error(`Deadline duration must be a positive number of seconds, got ${duration}`);
+  }
+  const { timestamp } = await publicClient.getBlock();
+  return timestamp + BigInt(Math.ceil(duration));
+}
+
+/**
+ * Signs an EIP-2612 permit with the account of the wallet client, allowing `spender` to move `value` tokens of it
+ * until `deadline`. Nothing is sent: the permit can be submitted with `submitPermit` by any account, e.g. a relayer
+ * paying the gas. The permit uses the current nonce of the owner, so it is invalidated by any other permit the owner
+ * submits first.
+ * @param token A `StarterKitERC20` token, or a pair for its LP tokens
+ * @param deadline Unix timestamp, see `permitDeadline`
+ */
+export async function signPermit(
+  clients: StarterKitClients,
+  token: Address,
+  spender: Address,
+  value: bigint,
+  deadline: bigint,
+): Promise<SignedPermit> {
+  const { publicClient, walletClient } = clients;
+  if (!walletClient?.account) throw new Error("A wallet client with an account is needed to sign permits");
+  const owner = walletClient.account.address;
+
+  const [domain, nonce, { timestamp }] = await Promise.all([
+    permitDomain(publicClient, token),
+    read(() => publicClient.readContract({ address: token, abi, functionName: "nonces", args: [owner] })),
+    publicClient.getBlock(),
+  ]);
+  // The permit is included in the next block at the earliest, the token reverts when `block.timestamp > deadline`
+  if (deadline <= timestamp) throw contractError("ERC2612ExpiredSignature", [deadline]);
+
+  const permit: Permit = { owner, spender, value, nonce, deadline };
+  const signature = await walletClient.signTypedData({
+    account: walletClient.account,
+    domain,
+    types: PERMIT_TYPES,
+    primaryType: "Permit",
+    message: permit,
+  });
+  const { r, s, v, yParity } = parseSignature(signature);
+  return { ...permit, token, signature, r, s, v: v === undefined ? yParity + 27 : Number(v) };
+}
+
+/**
+ * Submits a signed permit, setting the allowance of its spender. Any account can submit it, the allowance is always
+ * the one of the owner that signed it.
+ */
+export function submitPermit(clients: StarterKitClients, permit: SignedPermit): Promise<TransactionResult> {
+  const { token, owner, spender, value, deadline, v, r, s } = permit;
+  return write(clients, {
+    address: token,
+    abi,
+    functionName: "permit",
+    args: [owner, spender, value, deadline, v, r, s],
+  });
+}
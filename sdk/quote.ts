@@ -0,0 +1,143 @@
+import { contractError } from "./errors";
+
+/** Fees are expressed in basis points of this denominator, e.g. a `swapFee` of 100 is 1% */
+export const FEE_DENOMINATOR = 10_000n;
+export const MAX_FEE = 1_000n;
+/** Deviation from the pool ratio `addLiquidity` accepts, in basis points */
+export const AMOUNT_TOLERANCE = 100n;
+/** LP tokens locked at `address(1)` when the first liquidity is added */
+export const MINIMUM_LIQUIDITY = 1_000n;
+export const MAX_TOKEN_AMOUNT = 2n ** 128n - 1n;
+/** Percentage of the base reserve a single `swapBaseToQuote` may sell */
+export const MAX_SWAP_PERCENTAGE = 3n;
+
+/**
+ * The state of a pair the quotes are computed from, as returned by `dex.getState()`.
+ */
+export interface PairState {
+  baseReserve: bigint;
+  quoteReserve: bigint;
+  swapFee: bigint;
+  totalSupply: bigint;
+}
+
+/**
+ * Mirrors `StarterKitERC20Dex.getAmountOfTokens`: the output of a swap against the reserves, after the swap fee.
+ */
+export function getAmountOfTokens(
+  inputAmount: bigint,
+  inputReserve: bigint,
+  outputReserve: bigint,
+  swapFee: bigint,
+): bigint {
+  if (inputReserve === 0n || outputReserve === 0n) throw contractError("InvalidReserves", []);
+  if (inputAmount === 0n) throw contractError("InvalidTokenAmount", [inputAmount]);
+
+  const inputAmountWithFee = inputAmount * (FEE_DENOMINATOR - swapFee);
+  const numerator = inputAmountWithFee * outputReserve;
+  const denominator = inputReserve * FEE_DENOMINATOR + inputAmountWithFee;
+  return numerator / denominator;
+}
+
+/**
+ * The largest base amount `swapBaseToQuote` accepts against a base reserve.
+ */
+export function maxSwapAmount(baseReserve: bigint): bigint {
+  return (baseReserve * MAX_SWAP_PERCENTAGE) / 100n;
+}
+
+/**
+ * Quotes `swapBaseToQuote`, throwing the error the pair would revert with for the same input.
+ */
+export function quoteBaseToQuote(state: PairState, baseAmount: bigint): bigint {
+  const maxAmount = maxSwapAmount(state.baseReserve);
+  if (baseAmount > maxAmount) throw contractError("SwapAmountTooLarge", [baseAmount, maxAmount]);
+  if (baseAmount === 0n) throw contractError("InvalidTokenAmount", [baseAmount]);
+  return getAmountOfTokens(baseAmount, state.baseReserve, state.quoteReserve, state.swapFee);
+}
+
+/**
+ * Quotes `swapQuoteToBase`, throwing the error the pair would revert with for the same input.
+ */
+export function quoteQuoteToBase(state: PairState, quoteAmount: bigint): bigint {
+  if (quoteAmount === 0n) throw contractError("InvalidTokenAmount", [quoteAmount]);
+  return getAmountOfTokens(quoteAmount, state.quoteReserve, state.baseReserve, state.swapFee);
+}
+
+/**
+ * The quote amount that matches a base amount at the current pool ratio, and the range `addLiquidity` accepts
+ * around it.
+ */
+export function expectedQuoteAmount(
+  state: PairState,
+  baseAmount: bigint,
+): { expected: bigint; lowerBound: bigint; upperBound: bigint } {
+  if (state.baseReserve === 0n || state.quoteReserve === 0n) throw contractError("InvalidReserves", []);
+
+  const expected = (baseAmount * state.quoteReserve) / state.baseReserve;
+  return {
+    expected,
+    lowerBound: (expected * (FEE_DENOMINATOR - AMOUNT_TOLERANCE)) / FEE_DENOMINATOR,
+    upperBound: (expected * (FEE_DENOMINATOR + AMOUNT_TOLERANCE)) / FEE_DENOMINATOR,
+  };
+}
+
+/**
+ * Quotes the LP tokens `addLiquidity` mints to the caller, throwing the error the pair would revert with for the
+ * same input.
+ */
+export function quoteAddLiquidity(state: PairState, baseAmount: bigint, quoteAmount: bigint): bigint {
+  if (baseAmount > MAX_TOKEN_AMOUNT || quoteAmount > MAX_TOKEN_AMOUNT) {
+    throw contractError("MaxTokenAmountExceeded", []);
+  }
+
+  if (state.baseReserve === 0n && state.quoteReserve === 0n) {
+    const liquidity = sqrt(baseAmount * quoteAmount);
+    if (liquidity <= MINIMUM_LIQUIDITY) throw contractError("InsufficientLiquidityMinted", []);
+    return liquidity - MINIMUM_LIQUIDITY;
+  }
+
+  const { expected, lowerBound, upperBound } = expectedQuoteAmount(state, baseAmount);
+  if (quoteAmount < lowerBound || quoteAmount > upperBound) {
+    throw contractError("AmountRatioMismatch", [quoteAmount, expected]);
+  }
+
+  const liquidity = (state.totalSupply * baseAmount) / state.baseReserve;
+  if (liquidity === 0n) throw contractError("InsufficientLiquidityMinted", []);
+  return liquidity;
+}
+
+/**
+ * Quotes the tokens `removeLiquidity` returns for an amount of LP tokens. Throws `InvalidReserves` for a pair without
+ * liquidity, which the pair itself rejects with a division by zero panic.
+ */
+export function quoteRemoveLiquidity(state: PairState, amount: bigint): { baseAmount: bigint; quoteAmount: bigint } {
+  if (amount === 0n) throw contractError("ZeroAmount", []);
+  if (state.totalSupply === 0n) throw contractError("InvalidReserves", []);
+  return {
+    baseAmount: (amount * state.baseReserve) / state.totalSupply,
+    quoteAmount: (amount * state.quoteReserve) / state.totalSupply,
+  };
+}
+
+/**
+ * Lowers an amount by a slippage tolerance in basis points, for the minimum amounts of swaps and withdrawals.
+ */
+export function applySlippage(amount: bigint, slippageBps: bigint): bigint {
+  if (slippageBps < 0n || slippageBps > FEE_DENOMINATOR) {
+    throw new Error(`Slippage of ${slippageBps} basis points is out of range`);
+  }
+  return (amount * (FEE_DENOMINATOR - slippageBps)) / FEE_DENOMINATOR;
+}
+
+/** Mirrors OpenZeppelin `Math.sqrt`, rounding down. */
+function sqrt(value: bigint): bigint {
+  if (value < 2n) return value;
+  let x = value;
+  let y = (x + 1n) / 2n;
+  while (y < x) {
+    x = y;
+    y = (x + value / x) / 2n;
+  }
+  return x;
+}
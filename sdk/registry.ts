@@ -0,0 +1,41 @@
+import type { Address } from "viem";
+import { starterKitERC20RegistryAbi, starterKitErrorsAbi } from "./abis";
+import { read, type StarterKitClients } from "./client";
+
+const abi = [...starterKitERC20RegistryAbi, ...starterKitErrorsAbi];
+
+export interface RegisteredToken {
+  tokenAddress: Address;
+  symbol: string;
+  extraData: string;
+}
+
+export type RegistryClient = ReturnType<typeof createRegistryClient>;
+
+/**
+ * Creates a client for a `StarterKitERC20Registry`.
+ * @param address The registry address, e.g. `PRESET_ADDRESSES.registry` on networks started from the genesis alloc
+ */
+export function createRegistryClient(clients: StarterKitClients, address: Address) {
+  const { publicClient } = clients;
+
+  return {
+    address,
+
+    /** Throws `TokenNotFoundError` when no token is registered with the symbol. */
+    getTokenBySymbol: (symbol: string): Promise<RegisteredToken> =>
+      read(() => publicClient.readContract({ address, abi, functionName: "getTokenBySymbol", args: [symbol] })),
+
+    /** Throws `TokenNotFoundError` when the token is not registered. */
+    getTokenByAddress: (tokenAddress: Address): Promise<RegisteredToken> =>
+      read(() => publicClient.readContract({ address, abi, functionName: "getTokenByAddress", args: [tokenAddress] })),
+
+    /** Throws `TokenIndexOutOfBoundsError` past the end of the list. */
+    getTokenByIndex: (index: bigint): Promise<RegisteredToken> =>
+      read(() => publicClient.readContract({ address, abi, functionName: "getTokenByIndex", args: [index] })),
+
+    getTokenList: async (): Promise<RegisteredToken[]> => [
+      ...(await read(() => publicClient.readContract({ address, abi, functionName: "getTokenList" }))),
+    ],
+  };
+}
@@ -0,0 +1,170 @@
+import { parseEventLogs, type Address } from "viem";
+import { starterKitERC20DexAbi } from "./abis";
+import type { StarterKitClients, TransactionResult } from "./client";
+import { validateDeadline } from "./deadline";
+import { createDexClient, type DexState } from "./dex";
+import { createDexFactoryClient } from "./dex-factory";
+import { StarterKitContractError } from "./errors";
+import { applySlippage, quoteBaseToQuote, quoteQuoteToBase } from "./quote";
+import { createTokenClient } from "./token";
+
+/** Hops a route may take unless told otherwise */
+export const DEFAULT_MAX_HOPS = 3;
+
+/**
+ * One swap of a route: selling `tokenIn` for `tokenOut` on a pair, in the direction the tokens are in the pair.
+ */
+export interface RouteHop {
+  pair: Address;
+  tokenIn: Address;
+  tokenOut: Address;
+  direction: "baseToQuote" | "quoteToBase";
+  amountIn: bigint;
+  amountOut: bigint;
+}
+
+export interface Route {
+  tokenIn: Address;
+  tokenOut: Address;
+  amountIn: bigint;
+  amountOut: bigint;
+  hops: RouteHop[];
+}
+
+export interface RouteSwapResult {
+  amountOut: bigint;
+  hops: (TransactionResult & { amountIn: bigint; amountOut: bigint })[];
+}
+
+/**
+ * No route within the hop limit connects two tokens, or every route runs into a pair that would reject the swap.
+ */
+export class NoRouteError extends Error {
+  override name = "NoRouteError";
+
+  constructor(
+    readonly tokenIn: Address,
+    readonly tokenOut: Address,
+    readonly maxHops: number,
+  ) {
+    super(`No route of at most ${maxHops} hops swaps ${tokenIn} for ${tokenOut}`);
+  }
+}
+
+/**
+ * Finds the route that buys the most `tokenOut` for an amount of `tokenIn`, trying every path through the pairs that
+ * visits no token twice. Each hop is quoted like `quoteBaseToQuote` and `quoteQuoteToBase`, so hops selling more
+ * than 3% of the base reserve, paused pairs and pairs without liquidity are left out.
+ *
+ * The pairs can be read from the factory, see `createRouterClient`, or built from the reserves the subgraph indexed.
+ */
+export function findBestRoute(
+  pairs: readonly DexState[],
+  tokenIn: Address,
+  tokenOut: Address,
+  amountIn: bigint,
+  maxHops: number = DEFAULT_MAX_HOPS,
+): Route {
+  const key = (token: Address) => token.toLowerCase();
+  const edges = new Map<string, DexState[]>();
+  for (const pair of pairs) {
+    if (pair.paused) continue;
+    for (const token of [pair.baseToken, pair.quoteToken]) {
+      edges.set(key(token), [...(edges.get(key(token)) ?? []), pair]);
+    }
+  }
+
+  let best: RouteHop[] | undefined;
+  const visited = new Set([key(tokenIn)]);
+  const search = (token: Address, amount: bigint, hops: RouteHop[]) => {
+    if (hops.length > 0 && key(token) === key(tokenOut)) {
+      if (!best || amount > best[best.length - 1].amountOut) best = hops;
+      return;
+    }
+    if (hops.length === maxHops) return;
+
+    for (const pair of edges.get(key(token)) ?? []) {
+      const hop = quoteHop(pair, token, amount);
+      if (!hop || visited.has(key(hop.tokenOut))) continue;
+      visited.add(key(hop.tokenOut));
+      search(hop.tokenOut, hop.amountOut, [...hops, hop]);
+      visited.delete(key(hop.tokenOut));
+    }
+  };
+  search(tokenIn, amountIn, []);
+
+  if (!best) throw new NoRouteError(tokenIn, tokenOut, maxHops);
+  return { tokenIn, tokenOut, amountIn, amountOut: best[best.length - 1].amountOut, hops: best };
+}
+
+export type RouterClient = ReturnType<typeof createRouterClient>;
+
+/**
+ * Creates a router over the pairs of a `StarterKitERC20DexFactory`. Pairs only swap their own two tokens, so the
+ * router sends one swap per hop of a route, each from the wallet account.
+ */
+export function createRouterClient(clients: StarterKitClients, dexFactoryAddress: Address) {
+  const dexFactory = createDexFactoryClient(clients, dexFactoryAddress);
+
+  /** The state of every pair of the factory, the graph routes are searched in */
+  const getPairs = async (): Promise<DexState[]> => {
+    const addresses = await dexFactory.listPairs();
+    return Promise.all(addresses.map((address) => createDexClient(clients, address).getState()));
+  };
+
+  return {
+    address: dexFactoryAddress,
+    getPairs,
+
+    quote: async (tokenIn: Address, tokenOut: Address, amountIn: bigint, maxHops?: number): Promise<Route> =>
+      findBestRoute(await getPairs(), tokenIn, tokenOut, amountIn, maxHops),
+
+    /**
+     * Swaps along a route, approving the sold token of each hop when needed. Every hop gets its own minimum output:
+     * its quoted output scaled to what the previous hop actually returned, lowered by `slippageBps`. All hops share
+     * the block deadline, which is validated once before the first swap.
+     */
+    swap: async (route: Route, slippageBps: bigint, deadline: bigint): Promise<RouteSwapResult> => {
+      await validateDeadline(clients.publicClient, deadline, clients.blockTime);
+
+      const hops: RouteSwapResult["hops"] = [];
+      let amountIn = route.amountIn;
+      for (const hop of route.hops) {
+        const minAmountOut = applySlippage((hop.amountOut * amountIn) / hop.amountIn, slippageBps);
+        await createTokenClient(clients, hop.tokenIn).ensureAllowance(hop.pair, amountIn);
+
+        const dex = createDexClient(clients, hop.pair);
+        const result =
+          hop.direction === "baseToQuote"
+            ? await dex.swapBaseToQuote(amountIn, minAmountOut, deadline)
+            : await dex.swapQuoteToBase(amountIn, minAmountOut, deadline);
+
+        const [swap] = parseEventLogs({ abi: starterKitERC20DexAbi, logs: result.receipt.logs, eventName: "Swap" });
+        const amountOut = hop.direction === "baseToQuote" ? swap.args.quoteAmountOut : swap.args.baseAmountOut;
+        hops.push({ ...result, amountIn, amountOut });
+        amountIn = amountOut;
+      }
+      return { amountOut: amountIn, hops };
+    },
+  };
+}
+
+/** Quotes selling `amount` of `token` on a pair, `undefined` when the pair would reject the swap. */
+function quoteHop(pair: DexState, token: Address, amount: bigint): RouteHop | undefined {
+  const direction = token.toLowerCase() === pair.baseToken.toLowerCase() ? "baseToQuote" : "quoteToBase";
+  try {
+    const amountOut = direction === "baseToQuote" ? quoteBaseToQuote(pair, amount) : quoteQuoteToBase(pair, amount);
+    if (amountOut === 0n) return undefined;
+    return {
+      pair: pair.address,
+      tokenIn: token,
+      tokenOut: direction === "baseToQuote" ? pair.quoteToken : pair.baseToken,
+      direction,
+      amountIn: amount,
+      amountOut,
+    };
+  } catch (error) {
+    if (error instanceof StarterKitContractError) return undefined;
+    throw error;
+  }
+}
@@ -0,0 +1,200 @@
+import {
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeFunctionData,
+  keccak256,
+  parseAbiParameters,
+  toHex,
+  zeroHash,
+  type Address,
+  type Hash,
+  type Hex,
+} from "viem";
+import { starterKitERC20DexAbi, starterKitErrorsAbi, timelockControllerAbi } from "./abis";
+import { read, write, type StarterKitClients, type TransactionResult } from "./client";
+import { contractError } from "./errors";
+import { MAX_FEE } from "./quote";
+
+const abi = [...timelockControllerAbi, ...starterKitErrorsAbi];
+
+/** The states `getOperationState` returns, in the order of the `OperationState` enum of the timelock */
+export const TIMELOCK_OPERATION_STATES = ["unset", "waiting", "ready", "done"] as const;
+export type TimelockOperationState = (typeof TIMELOCK_OPERATION_STATES)[number];
+
+export type TimelockOperationStatus = "waiting" | "ready" | "executed" | "cancelled";
+
+/**
+ * A call through a timelock. The operation id is the hash of all its fields, see `hashOperation`.
+ */
+export interface TimelockCall {
+  target: Address;
+  value: bigint;
+  data: Hex;
+  predecessor: Hex;
+  salt: Hex;
+}
+
+export interface TimelockOperation extends TimelockCall {
+  id: Hex;
+  delay: bigint;
+  /** Timestamp from which the operation can be executed */
+  readyAt: bigint;
+  status: TimelockOperationStatus;
+  /** The new swap fee when the call is a `setFee` */
+  newFee?: bigint;
+  scheduledIn: Hash;
+  /** The transaction that executed or cancelled the operation */
+  settledIn?: Hash;
+}
+
+/**
+ * The call that changes the swap fee of a pair through its timelock. Fees the pair would not accept throw the error
+ * it reverts with, the upper bound being the one the pair enforces on its initial fee.
+ * @param salt Tells apart proposals of the same fee, random unless given
+ */
+export function feeChangeCall(pair: Address, fee: bigint, salt: Hex = randomSalt()): TimelockCall {
+  if (fee === 0n) throw contractError("InvalidFee", [fee]);
+  if (fee > MAX_FEE) throw contractError("FeeTooHigh", [fee]);
+  return {
+    target: pair,
+    value: 0n,
+    data: encodeFunctionData({ abi: starterKitERC20DexAbi, functionName: "setFee", args: [fee] }),
+    predecessor: zeroHash,
+    salt,
+  };
+}
+
+/**
+ * The new fee of a `setFee` call, or `undefined` for any other call.
+ */
+export function decodeFeeChange(data: Hex): bigint | undefined {
+  try {
+    const { functionName, args } = decodeFunctionData({ abi: starterKitERC20DexAbi, data });
+    return functionName === "setFee" ? args[0] : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Mirrors `TimelockController.hashOperation`: the id an operation is scheduled, executed and cancelled by.
+ */
+export function hashOperation({ target, value, data, predecessor, salt }: TimelockCall): Hex {
+  return keccak256(
+    encodeAbiParameters(parseAbiParameters("address, uint256, bytes, bytes32, bytes32"), [
+      target,
+      value,
+      data,
+      predecessor,
+      salt,
+    ]),
+  );
+}
+
+export type TimelockClient = ReturnType<typeof createTimelockClient>;
+
+/**
+ * Creates a client for a `TimelockController`, like the one every pair creates for itself, see `dex.timelock()`.
+ * The pair only accepts `setFee` from its timelock: fee changes are scheduled by a proposer, wait out the delay and
+ * are then executed by an executor, both roles held by the admin of the pair.
+ */
+export function createTimelockClient(clients: StarterKitClients, address: Address) {
+  const { publicClient } = clients;
+
+  const getMinDelay = (): Promise<bigint> =>
+    read(() => publicClient.readContract({ address, abi, functionName: "getMinDelay" }));
+  const getOperationState = async (id: Hex): Promise<TimelockOperationState> =>
+    TIMELOCK_OPERATION_STATES[
+      await read(() => publicClient.readContract({ address, abi, functionName: "getOperationState", args: [id] }))
+    ];
+
+  return {
+    address,
+    getMinDelay,
+    getOperationState,
+
+    /** Timestamp from which an operation can be executed, 0 when it is not scheduled and 1 once it is executed. */
+    getTimestamp: (id: Hex): Promise<bigint> =>
+      read(() => publicClient.readContract({ address, abi, functionName: "getTimestamp", args: [id] })),
+
+    /** Schedules a call, with the minimum delay of the timelock unless a longer one is given. */
+    schedule: async (call: TimelockCall, delay?: bigint): Promise<TransactionResult & { id: Hex }> => {
+      const { target, value, data, predecessor, salt } = call;
+      const result = await write(clients, {
+        address,
+        abi,
+        functionName: "schedule",
+        args: [target, value, data, predecessor, salt, delay ?? (await getMinDelay())],
+      });
+      return { ...result, id: hashOperation(call) };
+    },
+
+    /** Executes a call once its delay has passed, the call is needed as the timelock only stores its id. */
+    execute: ({ target, value, data, predecessor, salt }: TimelockCall): Promise<TransactionResult> =>
+      write(clients, { address, abi, functionName: "execute", args: [target, value, data, predecessor, salt] }),
+
+    cancel: (id: Hex): Promise<TransactionResult> =>
+      write(clients, { address, abi, functionName: "cancel", args: [id] }),
+
+    /**
+     * The operations of the timelock, oldest first, replayed from its events. Batches are listed with their first call.
+     * @param fromBlock First block to search, e.g. the block the pair was created in
+     */
+    listOperations: async (fromBlock: bigint | "earliest" = "earliest"): Promise<TimelockOperation[]> => {
+      const logs = await read(() =>
+        publicClient.getContractEvents({ address, abi: timelockControllerAbi, fromBlock, strict: true }),
+      );
+
+      const operations = new Map<Hex, TimelockOperation>();
+      for (const log of logs) {
+        switch (log.eventName) {
+          case "CallScheduled": {
+            if (log.args.index !== 0n) break;
+            const { timestamp } = await publicClient.getBlock({ blockNumber: log.blockNumber });
+            // A cancelled operation can be scheduled again under the same id
+            operations.delete(log.args.id);
+            operations.set(log.args.id, {
+              id: log.args.id,
+              target: log.args.target,
+              value: log.args.value,
+              data: log.args.data,
+              predecessor: log.args.predecessor,
+              salt: zeroHash,
+              delay: log.args.delay,
+              readyAt: timestamp + log.args.delay,
+              status: "waiting",
+              newFee: decodeFeeChange(log.args.data),
+              scheduledIn: log.transactionHash,
+            });
+            break;
+          }
+          case "CallSalt": {
+            const operation = operations.get(log.args.id);
+            if (operation) operation.salt = log.args.salt;
+            break;
+          }
+          case "CallExecuted":
+          case "Cancelled": {
+            // Operations scheduled before `fromBlock` are not listed
+            const operation = operations.get(log.args.id);
+            if (!operation) break;
+            operation.status = log.eventName === "Cancelled" ? "cancelled" : "executed";
+            operation.settledIn = log.transactionHash;
+            break;
+          }
+        }
+      }
+
+      for (const operation of operations.values()) {
+        if (operation.status === "waiting" && (await getOperationState(operation.id)) === "ready") {
+          operation.status = "ready";
+        }
+      }
+      return [...operations.values()];
+    },
+  };
+}
+
+function randomSalt(): Hex {
+  return toHex(crypto.getRandomValues(new Uint8Array(32)));
+}
@@ -0,0 +1,62 @@
+import type { Address } from "viem";
+import { starterKitERC20Abi, starterKitErrorsAbi } from "./abis";
+import { read, write, type StarterKitClients, type TransactionResult } from "./client";
+import { signPermit, submitPermit, type SignedPermit } from "./permit";
+
+const abi = [...starterKitERC20Abi, ...starterKitErrorsAbi];
+
+export type TokenClient = ReturnType<typeof createTokenClient>;
+
+/**
+ * Creates a client for a `StarterKitERC20` token.
+ */
+export function createTokenClient(clients: StarterKitClients, address: Address) {
+  const { publicClient } = clients;
+
+  const allowance = (owner: Address, spender: Address): Promise<bigint> =>
+    read(() => publicClient.readContract({ address, abi, functionName: "allowance", args: [owner, spender] }));
+  const approve = (spender: Address, amount: bigint): Promise<TransactionResult> =>
+    write(clients, { address, abi, functionName: "approve", args: [spender, amount] });
+
+  return {
+    address,
+    allowance,
+    approve,
+
+    name: (): Promise<string> => read(() => publicClient.readContract({ address, abi, functionName: "name" })),
+    symbol: (): Promise<string> => read(() => publicClient.readContract({ address, abi, functionName: "symbol" })),
+    decimals: (): Promise<number> => read(() => publicClient.readContract({ address, abi, functionName: "decimals" })),
+    totalSupply: (): Promise<bigint> =>
+      read(() => publicClient.readContract({ address, abi, functionName: "totalSupply" })),
+    owner: (): Promise<Address> => read(() => publicClient.readContract({ address, abi, functionName: "owner" })),
+    balanceOf: (account: Address): Promise<bigint> =>
+      read(() => publicClient.readContract({ address, abi, functionName: "balanceOf", args: [account] })),
+
+    /** Approves `spender` for `amount` unless the sender already allowed at least that much. */
+    ensureAllowance: async (spender: Address, amount: bigint): Promise<TransactionResult | undefined> => {
+      const owner = clients.walletClient?.account?.address;
+      if (!owner) {
+        throw new Error("A wallet client with an account is needed to approve tokens");
+      }
+      return (await allowance(owner, spender)) >= amount ? undefined : approve(spender, amount);
+    },
+
+    /** Nonce the next permit of `owner` has to be signed with */
+    nonces: (owner: Address): Promise<bigint> =>
+      read(() => publicClient.readContract({ address, abi, functionName: "nonces", args: [owner] })),
+    /**
+     * Signs a permit allowing `spender` to move `value` tokens of the sender until `deadline`, a unix timestamp, see
+     * `permitDeadline`. Nothing is sent, submit it with `permit` from any account.
+     */
+    signPermit: (spender: Address, value: bigint, deadline: bigint): Promise<SignedPermit> =>
+      signPermit(clients, address, spender, value, deadline),
+    /** Submits a permit signed by any owner, the sender only pays the gas. */
+    permit: (permit: SignedPermit): Promise<TransactionResult> => submitPermit(clients, { ...permit, token: address }),
+
+    /** Only the token owner can mint, others get `OwnableUnauthorizedAccountError`. */
+    mint: (to: Address, amount: bigint): Promise<TransactionResult> =>
+      write(clients, { address, abi, functionName: "mint", args: [to, amount] }),
+    transfer: (to: Address, amount: bigint): Promise<TransactionResult> =>
+      write(clients, { address, abi, functionName: "transfer", args: [to, amount] }),
+  };
+}
@@ -1,10 +1,41 @@
+import { constants } from '@amxx/graphprotocol-utils';
+import { Address, ByteArray, Bytes, crypto, DataSourceContext } from '@graphprotocol/graph-ts';
 import { PairCreated } from '../../generated/StarterKitERC20DexFactory/StarterKitERC20DexFactory';
-import { StarterKitERC20Dex as PairTemplate } from '../../generated/templates';
-import { fetchDex } from '../fetch/dex';
+import { StarterKitERC20Dex as PairTemplate, TimelockController as TimelockTemplate } from '../../generated/templates';
+import { fetchAccount } from '../fetch/account';
+import { fetchDex, fetchDexFactory, fetchERC20DexRole, fetchERC20DexRoleMember } from '../fetch/dex';
+import { snapshotProtocol } from '../snapshots/protocol';
+
+const ROLE_GRANTED = Bytes.fromByteArray(crypto.keccak256(ByteArray.fromUTF8('RoleGranted(bytes32,address,address)')))
 
 export function handlePairCreated(event: PairCreated): void {
   let contract = fetchDex(event.params.pair)
+  contract.factory = fetchDexFactory(event.address).id
   contract.save()
 
   PairTemplate.create(event.params.pair)
+
+  // The pair grants its roles to the caller of the factory in its constructor, before the pair template starts
+  // indexing it, so the RoleGranted events of the constructor are read from the receipt
+  let receipt = event.receipt
+  if (receipt !== null) {
+    for (let i = 0; i < receipt.logs.length; i++) {
+      let log = receipt.logs[i]
+      if (log.address.equals(event.params.pair) && log.topics.length == 4 && log.topics[0].equals(ROLE_GRANTED)) {
+        let role = fetchERC20DexRole(contract, log.topics[1])
+        let account = Address.fromBytes(changetype<Bytes>(log.topics[2].slice(12)))
+        fetchERC20DexRoleMember(role, fetchAccount(account))
+      }
+    }
+  }
+
+  // Fee changes are scheduled on the timelock the pair deploys in its constructor
+  let timelock = contract.timelock
+  if (timelock !== null) {
+    let context = new DataSourceContext()
+    context.setBytes('pair', event.params.pair)
+    TimelockTemplate.createWithContext(Address.fromBytes(timelock), context)
+  }
+
+  snapshotProtocol(contract, 'PAIR_CREATED', constants.BIGINT_ZERO, constants.BIGINT_ZERO, event.block.timestamp)
 }
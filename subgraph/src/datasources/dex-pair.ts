@@ -1,23 +1,47 @@
 import { constants, decimals, transactions } from '@amxx/graphprotocol-utils';
-import { Address } from '@graphprotocol/graph-ts';
+import { Address, BigDecimal, store } from '@graphprotocol/graph-ts';
 import {
   ERC20DexBurn,
   ERC20DexEmergencyWithdraw,
   ERC20DexFeeUpdate,
   ERC20DexMint,
   ERC20DexPairSnapshot,
-  ERC20DexSwap
+  ERC20DexPaused,
+  ERC20DexRoleAdminChanged,
+  ERC20DexRoleGranted,
+  ERC20DexRoleRevoked,
+  ERC20DexSwap,
+  ERC20DexUnpaused
 } from '../../generated/schema';
 import {
+  Approval as ApprovalEvent,
   Burn as BurnEvent,
   EmergencyWithdraw as EmergencyWithdrawEvent,
   FeeUpdated as FeeUpdatedEvent,
   Mint as MintEvent,
-  Swap as SwapEvent
+  Paused as PausedEvent,
+  RoleAdminChanged as RoleAdminChangedEvent,
+  RoleGranted as RoleGrantedEvent,
+  RoleRevoked as RoleRevokedEvent,
+  Swap as SwapEvent,
+  Transfer as TransferEvent,
+  Unpaused as UnpausedEvent
 } from '../../generated/templates/StarterKitERC20Dex/StarterKitERC20Dex';
 import { fetchAccount } from '../fetch/account';
-import { fetchDex, fetchERC20DexStake } from '../fetch/dex';
+import { fetchDex, fetchERC20DexRole, fetchERC20DexRoleMember, fetchERC20DexStake } from '../fetch/dex';
 import { fetchERC20 } from '../fetch/erc20';
+import {
+  accrueSwapFees,
+  recordDeposit,
+  recordWithdrawal,
+  refreshPositions,
+  settleFees,
+  transferPosition
+} from '../positions/position';
+import { snapshotPrice } from '../snapshots/price';
+import { snapshotProtocol } from '../snapshots/protocol';
+import { snapshotTrade } from '../snapshots/trader';
+import { processApproval, processTransfer } from './erc20';
 
 export function handleMint(event: MintEvent): void {
   let pair = fetchDex(event.address)
@@ -25,7 +49,7 @@ export function handleMint(event: MintEvent): void {
   let baseContract = fetchERC20(Address.fromBytes(pair.baseToken))
   let quoteContract = fetchERC20(Address.fromBytes(pair.quoteToken))
 
-  let mint = new ERC20DexMint(event.transaction.hash.toHexString())
+  let mint = new ERC20DexMint(event.transaction.hash.toHexString() + "-" + event.logIndex.toString())
   mint.pair = pair.id
   mint.sender = sender.id
   mint.transaction = transactions.log(event).id
@@ -37,16 +61,10 @@ export function handleMint(event: MintEvent): void {
   mint.quoteAmountExact = event.params.quoteAmount
   mint.quoteAmount = decimals.toDecimals(mint.quoteAmountExact, quoteContract.decimals)
   mint.liquidityExact = event.params.liquidity
-  mint.liquidity = decimals.toDecimals(mint.liquidityExact, baseContract.decimals)
+  mint.liquidity = decimals.toDecimals(mint.liquidityExact, pair.decimals)
 
   mint.save()
 
-  let from = fetchAccount(event.params.sender)
-  let stake = fetchERC20DexStake(pair, from)
-  stake.valueExact = stake.valueExact.plus(mint.liquidityExact)
-  stake.value = decimals.toDecimals(stake.valueExact, baseContract.decimals)
-  stake.save()
-
   let snapshot = new ERC20DexPairSnapshot("auto")
   snapshot.pair = pair.id
   snapshot.baseReserve = pair.baseReserve
@@ -56,9 +74,9 @@ export function handleMint(event: MintEvent): void {
   snapshot.totalSupply = pair.totalSupply
   snapshot.totalSupplyExact = pair.totalSupplyExact
   snapshot.baseTokenPrice = pair.baseTokenPrice
-  snapshot.baseTokenPriceExact = pair.baseReserveExact
+  snapshot.baseTokenPriceExact = pair.baseTokenPriceExact
   snapshot.quoteTokenPrice = pair.quoteTokenPrice
-  snapshot.quoteTokenPriceExact = pair.quoteReserveExact
+  snapshot.quoteTokenPriceExact = pair.quoteTokenPriceExact
   snapshot.volumeBaseToken = event.params.baseAmount.toBigDecimal()
   snapshot.volumeBaseTokenExact = event.params.baseAmount
   snapshot.volumeQuoteToken = event.params.quoteAmount.toBigDecimal()
@@ -67,6 +85,11 @@ export function handleMint(event: MintEvent): void {
   snapshot.liquidity = event.params.liquidity.toBigDecimal()
   snapshot.liquidityExact = event.params.liquidity
   snapshot.save()
+
+  snapshotPrice(pair, 'MINT', constants.BIGDECIMAL_ZERO, constants.BIGDECIMAL_ZERO, null, event.block.timestamp)
+  snapshotProtocol(pair, 'MINT', constants.BIGINT_ZERO, constants.BIGINT_ZERO, event.block.timestamp)
+
+  recordDeposit(pair, sender, event.params.baseAmount, event.params.quoteAmount, event.block.timestamp)
 }
 
 export function handleBurn(event: BurnEvent): void {
@@ -75,7 +98,7 @@ export function handleBurn(event: BurnEvent): void {
   let baseContract = fetchERC20(Address.fromBytes(pair.baseToken))
   let quoteContract = fetchERC20(Address.fromBytes(pair.quoteToken))
 
-  let burn = new ERC20DexBurn(event.transaction.hash.toHexString())
+  let burn = new ERC20DexBurn(event.transaction.hash.toHexString() + "-" + event.logIndex.toString())
   burn.pair = pair.id
   burn.sender = sender.id
   burn.transaction = transactions.log(event).id
@@ -87,16 +110,10 @@ export function handleBurn(event: BurnEvent): void {
   burn.quoteAmountExact = event.params.quoteAmount
   burn.quoteAmount = decimals.toDecimals(burn.quoteAmountExact, quoteContract.decimals)
   burn.liquidityExact = event.params.liquidity
-  burn.liquidity = decimals.toDecimals(burn.liquidityExact, baseContract.decimals)
+  burn.liquidity = decimals.toDecimals(burn.liquidityExact, pair.decimals)
 
   burn.save()
 
-  let from = fetchAccount(event.params.sender)
-  let stake = fetchERC20DexStake(pair, from)
-  stake.valueExact = stake.valueExact.minus(burn.liquidityExact)
-  stake.value = decimals.toDecimals(stake.valueExact, baseContract.decimals)
-  stake.save()
-
   let snapshot = new ERC20DexPairSnapshot("auto")
   snapshot.pair = pair.id
   snapshot.baseReserve = pair.baseReserve
@@ -106,9 +123,9 @@ export function handleBurn(event: BurnEvent): void {
   snapshot.totalSupply = pair.totalSupply
   snapshot.totalSupplyExact = pair.totalSupplyExact
   snapshot.baseTokenPrice = pair.baseTokenPrice
-  snapshot.baseTokenPriceExact = pair.baseReserveExact
+  snapshot.baseTokenPriceExact = pair.baseTokenPriceExact
   snapshot.quoteTokenPrice = pair.quoteTokenPrice
-  snapshot.quoteTokenPriceExact = pair.quoteReserveExact
+  snapshot.quoteTokenPriceExact = pair.quoteTokenPriceExact
   snapshot.volumeBaseToken = event.params.baseAmount.toBigDecimal()
   snapshot.volumeBaseTokenExact = event.params.baseAmount
   snapshot.volumeQuoteToken = event.params.quoteAmount.toBigDecimal()
@@ -117,6 +134,18 @@ export function handleBurn(event: BurnEvent): void {
   snapshot.liquidity = event.params.liquidity.toBigDecimal()
   snapshot.liquidityExact = event.params.liquidity
   snapshot.save()
+
+  snapshotPrice(pair, 'BURN', constants.BIGDECIMAL_ZERO, constants.BIGDECIMAL_ZERO, null, event.block.timestamp)
+  snapshotProtocol(pair, 'BURN', constants.BIGINT_ZERO, constants.BIGINT_ZERO, event.block.timestamp)
+
+  recordWithdrawal(
+    pair,
+    sender,
+    event.params.baseAmount,
+    event.params.quoteAmount,
+    event.params.liquidity,
+    event.block.timestamp
+  )
 }
 
 export function handleSwap(event: SwapEvent): void {
@@ -125,7 +154,7 @@ export function handleSwap(event: SwapEvent): void {
   let baseContract = fetchERC20(Address.fromBytes(pair.baseToken))
   let quoteContract = fetchERC20(Address.fromBytes(pair.quoteToken))
 
-  let swap = new ERC20DexSwap(event.transaction.hash.toHexString())
+  let swap = new ERC20DexSwap(event.transaction.hash.toHexString() + "-" + event.logIndex.toString())
   swap.pair = pair.id
   swap.sender = sender.id
   swap.transaction = transactions.log(event).id
@@ -152,9 +181,9 @@ export function handleSwap(event: SwapEvent): void {
   snapshot.totalSupply = pair.totalSupply
   snapshot.totalSupplyExact = pair.totalSupplyExact
   snapshot.baseTokenPrice = pair.baseTokenPrice
-  snapshot.baseTokenPriceExact = pair.baseReserveExact
+  snapshot.baseTokenPriceExact = pair.baseTokenPriceExact
   snapshot.quoteTokenPrice = pair.quoteTokenPrice
-  snapshot.quoteTokenPriceExact = pair.quoteReserveExact
+  snapshot.quoteTokenPriceExact = pair.quoteTokenPriceExact
   snapshot.volumeBaseToken = event.params.baseAmountIn.plus(event.params.baseAmountOut).toBigDecimal()
   snapshot.volumeBaseTokenExact = event.params.baseAmountIn.plus(event.params.baseAmountOut)
   snapshot.volumeQuoteToken = event.params.quoteAmountIn.plus(event.params.quoteAmountOut).toBigDecimal()
@@ -163,6 +192,32 @@ export function handleSwap(event: SwapEvent): void {
   snapshot.liquidityExact = constants.BIGINT_ZERO
   snapshot.txCount = constants.BIGINT_ONE
   snapshot.save()
+
+  let volumeBaseToken = swap.baseAmountIn.plus(swap.baseAmountOut)
+  let volumeQuoteToken = swap.quoteAmountIn.plus(swap.quoteAmountOut)
+  let executionPrice: BigDecimal | null = volumeBaseToken.equals(constants.BIGDECIMAL_ZERO)
+    ? null
+    : volumeQuoteToken.div(volumeBaseToken)
+  snapshotPrice(pair, 'SWAP', volumeBaseToken, volumeQuoteToken, executionPrice, event.block.timestamp)
+  snapshotProtocol(
+    pair,
+    'SWAP',
+    event.params.baseAmountIn.plus(event.params.baseAmountOut),
+    event.params.quoteAmountIn.plus(event.params.quoteAmountOut),
+    event.block.timestamp
+  )
+
+  snapshotTrade(
+    pair,
+    sender,
+    event.params.baseAmountIn,
+    event.params.quoteAmountIn,
+    event.params.baseAmountOut,
+    event.params.quoteAmountOut,
+    event.block.timestamp
+  )
+
+  accrueSwapFees(pair, event.params.baseAmountIn, event.params.quoteAmountIn)
 }
 
 export function handleEmergencyWithdraw(event: EmergencyWithdrawEvent): void {
@@ -182,6 +237,10 @@ export function handleEmergencyWithdraw(event: EmergencyWithdrawEvent): void {
 
   withdraw.save()
   pair.save()
+
+  snapshotProtocol(pair, 'EMERGENCY_WITHDRAW', constants.BIGINT_ZERO, constants.BIGINT_ZERO, event.block.timestamp)
+
+  refreshPositions(pair, event.block.timestamp)
 }
 
 export function handleFeeUpdated(event: FeeUpdatedEvent): void {
@@ -199,3 +258,128 @@ export function handleFeeUpdated(event: FeeUpdatedEvent): void {
   feeUpdate.emitter = event.address
   feeUpdate.save()
 }
+
+export function handleTransfer(event: TransferEvent): void {
+  let pair = fetchDex(event.address)
+  processTransfer(event, event.params.from, event.params.to, event.params.value, pair.id)
+
+  // Mints and burns of LP tokens, including the minimum liquidity locked at address(1), arrive here as transfers.
+  // The fees of the swaps since the last move of the LP tokens are settled at the balances they were earned with.
+  if (event.params.from != constants.ADDRESS_ZERO) {
+    settleFees(pair, fetchAccount(event.params.from))
+  }
+  if (event.params.to != constants.ADDRESS_ZERO) {
+    settleFees(pair, fetchAccount(event.params.to))
+  }
+
+  if (event.params.from != constants.ADDRESS_ZERO) {
+    let fromStake = fetchERC20DexStake(pair, fetchAccount(event.params.from))
+    fromStake.valueExact = fromStake.valueExact.minus(event.params.value)
+    fromStake.value = decimals.toDecimals(fromStake.valueExact, pair.decimals)
+    fromStake.save()
+  }
+
+  if (event.params.to != constants.ADDRESS_ZERO) {
+    let toStake = fetchERC20DexStake(pair, fetchAccount(event.params.to))
+    toStake.valueExact = toStake.valueExact.plus(event.params.value)
+    toStake.value = decimals.toDecimals(toStake.valueExact, pair.decimals)
+    toStake.save()
+  }
+
+  if (event.params.from != constants.ADDRESS_ZERO && event.params.to != constants.ADDRESS_ZERO) {
+    transferPosition(
+      pair,
+      fetchAccount(event.params.from),
+      fetchAccount(event.params.to),
+      event.params.value,
+      event.block.timestamp
+    )
+  }
+}
+
+export function handleApproval(event: ApprovalEvent): void {
+  processApproval(event, event.params.owner, event.params.spender, event.params.value)
+}
+
+export function handlePaused(event: PausedEvent): void {
+  let pair = fetchDex(event.address)
+  pair.paused = true
+  pair.save()
+
+  let paused = new ERC20DexPaused(event.transaction.hash.toHexString() + "-" + event.logIndex.toString())
+  paused.pair = pair.id
+  paused.account = fetchAccount(event.params.account).id
+  paused.timestamp = event.block.timestamp
+  paused.transaction = transactions.log(event).id
+  paused.emitter = event.address
+  paused.save()
+}
+
+export function handleUnpaused(event: UnpausedEvent): void {
+  let pair = fetchDex(event.address)
+  pair.paused = false
+  pair.save()
+
+  let unpaused = new ERC20DexUnpaused(event.transaction.hash.toHexString() + "-" + event.logIndex.toString())
+  unpaused.pair = pair.id
+  unpaused.account = fetchAccount(event.params.account).id
+  unpaused.timestamp = event.block.timestamp
+  unpaused.transaction = transactions.log(event).id
+  unpaused.emitter = event.address
+  unpaused.save()
+}
+
+export function handleRoleGranted(event: RoleGrantedEvent): void {
+  let pair = fetchDex(event.address)
+  let role = fetchERC20DexRole(pair, event.params.role)
+  let account = fetchAccount(event.params.account)
+  fetchERC20DexRoleMember(role, account)
+
+  let granted = new ERC20DexRoleGranted(event.transaction.hash.toHexString() + "-" + event.logIndex.toString())
+  granted.pair = pair.id
+  granted.role = role.id
+  granted.account = account.id
+  granted.sender = fetchAccount(event.params.sender).id
+  granted.timestamp = event.block.timestamp
+  granted.transaction = transactions.log(event).id
+  granted.emitter = event.address
+  granted.save()
+}
+
+export function handleRoleRevoked(event: RoleRevokedEvent): void {
+  let pair = fetchDex(event.address)
+  let role = fetchERC20DexRole(pair, event.params.role)
+  let account = fetchAccount(event.params.account)
+  store.remove('ERC20DexRoleMember', role.id.concat('/').concat(account.id.toHex()))
+
+  let revoked = new ERC20DexRoleRevoked(event.transaction.hash.toHexString() + "-" + event.logIndex.toString())
+  revoked.pair = pair.id
+  revoked.role = role.id
+  revoked.account = account.id
+  revoked.sender = fetchAccount(event.params.sender).id
+  revoked.timestamp = event.block.timestamp
+  revoked.transaction = transactions.log(event).id
+  revoked.emitter = event.address
+  revoked.save()
+}
+
+export function handleRoleAdminChanged(event: RoleAdminChangedEvent): void {
+  let pair = fetchDex(event.address)
+  let role = fetchERC20DexRole(pair, event.params.role)
+  let previousAdminRole = fetchERC20DexRole(pair, event.params.previousAdminRole)
+  let newAdminRole = fetchERC20DexRole(pair, event.params.newAdminRole)
+  role.adminRole = newAdminRole.id
+  role.save()
+
+  let adminChanged = new ERC20DexRoleAdminChanged(
+    event.transaction.hash.toHexString() + "-" + event.logIndex.toString()
+  )
+  adminChanged.pair = pair.id
+  adminChanged.role = role.id
+  adminChanged.previousAdminRole = previousAdminRole.id
+  adminChanged.newAdminRole = newAdminRole.id
+  adminChanged.timestamp = event.block.timestamp
+  adminChanged.transaction = transactions.log(event).id
+  adminChanged.emitter = event.address
+  adminChanged.save()
+}
@@ -0,0 +1,118 @@
+import { constants, transactions } from '@amxx/graphprotocol-utils';
+import { Address, BigInt, Bytes, dataSource, ethereum } from '@graphprotocol/graph-ts';
+import {
+  ERC20DexFeeUpdate,
+  ERC20DexTimelockCallExecuted,
+  ERC20DexTimelockCallScheduled,
+  ERC20DexTimelockCancelled,
+  ERC20DexTimelockOperation
+} from '../../generated/schema';
+import {
+  CallExecuted as CallExecutedEvent,
+  CallSalt as CallSaltEvent,
+  CallScheduled as CallScheduledEvent,
+  Cancelled as CancelledEvent
+} from '../../generated/templates/TimelockController/TimelockController';
+import { fetchAccount } from '../fetch/account';
+
+// Selector of StarterKitERC20Dex.setFee(uint256)
+const SET_FEE_SELECTOR = '0x69fe0e2d'
+
+export function handleCallScheduled(event: CallScheduledEvent): void {
+  let pair = dataSource.context().getBytes('pair')
+  let operation = ERC20DexTimelockOperation.load(event.params.id)
+
+  // Batches are recorded with their first call, a cancelled operation can be scheduled again under the same id
+  if (event.params.index.isZero()) {
+    if (operation === null) {
+      operation = new ERC20DexTimelockOperation(event.params.id)
+      operation.pair = pair
+      operation.timelock = fetchAccount(event.address).id
+    }
+    operation.target = fetchAccount(event.params.target).id
+    operation.value = event.params.value
+    operation.data = event.params.data
+    operation.predecessor = event.params.predecessor
+    operation.salt = constants.BYTES32_ZERO
+    operation.delay = event.params.delay
+    operation.readyAt = event.block.timestamp.plus(event.params.delay)
+    operation.newFee = decodeFeeChange(pair, event.params.target, event.params.data)
+    operation.status = 'PENDING'
+    operation.feeUpdate = null
+    operation.save()
+  }
+  if (operation === null) return
+
+  let scheduled = new ERC20DexTimelockCallScheduled(
+    event.transaction.hash.toHexString() + "-" + event.logIndex.toString()
+  )
+  scheduled.pair = pair
+  scheduled.operation = operation.id
+  scheduled.delay = event.params.delay
+  scheduled.timestamp = event.block.timestamp
+  scheduled.transaction = transactions.log(event).id
+  scheduled.emitter = event.address
+  scheduled.save()
+}
+
+export function handleCallSalt(event: CallSaltEvent): void {
+  let operation = ERC20DexTimelockOperation.load(event.params.id)
+  if (operation === null) return
+
+  operation.salt = event.params.salt
+  operation.save()
+}
+
+export function handleCallExecuted(event: CallExecutedEvent): void {
+  let operation = ERC20DexTimelockOperation.load(event.params.id)
+  if (operation === null) return
+
+  operation.status = 'EXECUTED'
+  // setFee emits FeeUpdated right before the timelock emits CallExecuted for the call
+  if (operation.newFee !== null) {
+    let feeUpdate = ERC20DexFeeUpdate.load(
+      event.transaction.hash.toHexString() + "-" + event.logIndex.minus(BigInt.fromI32(1)).toString()
+    )
+    if (feeUpdate !== null) {
+      operation.feeUpdate = feeUpdate.id
+    }
+  }
+  operation.save()
+
+  let executed = new ERC20DexTimelockCallExecuted(
+    event.transaction.hash.toHexString() + "-" + event.logIndex.toString()
+  )
+  executed.pair = operation.pair
+  executed.operation = operation.id
+  executed.timestamp = event.block.timestamp
+  executed.transaction = transactions.log(event).id
+  executed.emitter = event.address
+  executed.save()
+}
+
+export function handleCancelled(event: CancelledEvent): void {
+  let operation = ERC20DexTimelockOperation.load(event.params.id)
+  if (operation === null) return
+
+  operation.status = 'CANCELLED'
+  operation.save()
+
+  let cancelled = new ERC20DexTimelockCancelled(
+    event.transaction.hash.toHexString() + "-" + event.logIndex.toString()
+  )
+  cancelled.pair = operation.pair
+  cancelled.operation = operation.id
+  cancelled.timestamp = event.block.timestamp
+  cancelled.transaction = transactions.log(event).id
+  cancelled.emitter = event.address
+  cancelled.save()
+}
+
+function decodeFeeChange(pair: Bytes, target: Address, data: Bytes): BigInt | null {
+  if (target != pair || data.length != 36 || Bytes.fromUint8Array(data.subarray(0, 4)).toHexString() != SET_FEE_SELECTOR) {
+    return null
+  }
+
+  let decoded = ethereum.decode('uint256', Bytes.fromUint8Array(data.subarray(4)))
+  return decoded === null ? null : decoded.toBigInt()
+}
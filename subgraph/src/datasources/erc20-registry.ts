@@ -1,7 +1,12 @@
+import { JSONValue, JSONValueKind, TypedMap, json } from '@graphprotocol/graph-ts';
+import { ERC20Contract, ERC20TokenMetadata, ERC20TokenMetadataAttribute } from '../../generated/schema';
 import { token } from '../../generated/templates';
 import {
   TokenAdded as TokenAddedEvent,
 } from '../../generated/tokenregistry/StarterKitERC20Registry';
+import {
+  fetchAccount
+} from '../fetch/account';
 import {
   fetchERC20
 } from '../fetch/erc20';
@@ -9,7 +14,97 @@ import {
 export function handleTokenAdded(event: TokenAddedEvent): void {
   let contract = fetchERC20(event.params.tokenAddress)
   contract.extraData = event.params.extraData
+  contract.factory = fetchAccount(event.params.factoryAddress).id
+
+  let metadata = parseMetadata(contract, event.params.extraData)
+  contract.metadata = metadata.id
+  contract.description = metadata.description
   contract.save()
 
   token.create(event.params.tokenAddress)
-}
\ No newline at end of file
+}
+
+function parseMetadata(contract: ERC20Contract, extraData: string): ERC20TokenMetadata {
+  let metadata = new ERC20TokenMetadata(contract.id)
+  metadata.token = contract.id
+  metadata.raw = extraData
+  metadata.tags = []
+
+  let parsed = extraData.length > 0 ? json.try_fromString(extraData) : null
+  if (parsed === null || parsed.isError || parsed.value.kind != JSONValueKind.OBJECT) {
+    // Plain text, like the extraData of the example scenario, is the closest thing to a description
+    metadata.isJson = false
+    metadata.description = extraData.length > 0 ? extraData : null
+    metadata.save()
+    return metadata
+  }
+
+  metadata.isJson = true
+  let fields = parsed.value.toObject()
+  metadata.description = stringField(fields, 'description')
+  metadata.logoURI = stringField(fields, 'logoURI')
+  if (metadata.logoURI === null) {
+    metadata.logoURI = stringField(fields, 'logo')
+  }
+  metadata.website = stringField(fields, 'website')
+  if (metadata.website === null) {
+    metadata.website = stringField(fields, 'url')
+  }
+
+  let tags = fields.get('tags')
+  if (tags !== null && tags.kind == JSONValueKind.ARRAY) {
+    let values = tags.toArray()
+    let strings = new Array<string>()
+    for (let i = 0; i < values.length; i++) {
+      if (values[i].kind == JSONValueKind.STRING) {
+        strings.push(values[i].toString())
+      }
+    }
+    metadata.tags = strings
+  }
+  metadata.save()
+
+  for (let i = 0; i < fields.entries.length; i++) {
+    let key = fields.entries[i].key
+    if (key == 'description' || key == 'logoURI' || key == 'logo' || key == 'website' || key == 'url' || key == 'tags') {
+      continue
+    }
+
+    let value = scalarValue(fields.entries[i].value)
+    if (value !== null) {
+      let attribute = new ERC20TokenMetadataAttribute(contract.id.toHex().concat('/').concat(key))
+      attribute.metadata = metadata.id
+      attribute.key = key
+      attribute.value = value
+      attribute.save()
+    }
+  }
+
+  return metadata
+}
+
+function stringField(fields: TypedMap<string, JSONValue>, key: string): string | null {
+  let value = fields.get(key)
+  return value !== null && value.kind == JSONValueKind.STRING ? value.toString() : null
+}
+
+// Nested objects and arrays other than the tags have no place in a key/value attribute
+function scalarValue(value: JSONValue): string | null {
+  if (value.kind == JSONValueKind.STRING) return value.toString()
+  if (value.kind == JSONValueKind.BOOL) return value.toBool() ? 'true' : 'false'
+  if (value.kind == JSONValueKind.NUMBER) {
+    // Integers keep all of their digits, a f64 rounds them above 2^53 and writes 1e21 for large ones
+    return isInteger(changetype<string>(value.data as u32)) ? value.toBigInt().toString() : value.toF64().toString()
+  }
+  return null
+}
+
+function isInteger(number: string): bool {
+  let start = number.startsWith('-') ? 1 : 0
+  if (number.length == start) return false
+  for (let i = start; i < number.length; i++) {
+    let code = number.charCodeAt(i)
+    if (code < 48 || code > 57) return false
+  }
+  return true
+}
@@ -4,9 +4,20 @@ import {
   events,
   transactions,
 } from '@amxx/graphprotocol-utils';
-import { ERC20TokenVolume, ERC20Transfer } from '../../generated/schema';
+import { Address, BigInt, Bytes, ethereum } from '@graphprotocol/graph-ts';
+import {
+  ERC20Approval,
+  ERC20Burn,
+  ERC20Mint,
+  ERC20OwnershipTransferred,
+  ERC20Permit,
+  ERC20TokenVolume,
+  ERC20Transfer,
+} from '../../generated/schema';
 import {
   Approval as ApprovalEvent,
+  OwnershipTransferred as OwnershipTransferredEvent,
+  StarterKitERC20,
   Transfer as TransferEvent,
 } from '../../generated/templates/token/StarterKitERC20';
 import {
@@ -17,8 +28,40 @@ import {
   fetchERC20Approval,
   fetchERC20Balance,
 } from '../fetch/erc20';
+import { snapshotPortfolio } from '../snapshots/portfolio';
+
+// Selector of ERC20Permit.permit(address,address,uint256,uint256,uint8,bytes32,bytes32)
+const PERMIT_SELECTOR = '0xd505accf'
 
 export function handleTransfer(event: TransferEvent): void {
+  processTransfer(event, event.params.from, event.params.to, event.params.value, null)
+}
+
+export function handleApproval(event: ApprovalEvent): void {
+  processApproval(event, event.params.owner, event.params.spender, event.params.value)
+}
+
+export function handleOwnershipTransferred(event: OwnershipTransferredEvent): void {
+  let contract = fetchERC20(event.address)
+  let ev = new ERC20OwnershipTransferred(events.id(event))
+  ev.emitter = contract.asAccount
+  ev.transaction = transactions.log(event).id
+  ev.timestamp = event.block.timestamp
+  ev.contract = contract.id
+
+  if (event.params.previousOwner != constants.ADDRESS_ZERO) {
+    ev.previousOwner = fetchAccount(event.params.previousOwner).id
+  }
+  if (event.params.newOwner != constants.ADDRESS_ZERO) {
+    ev.newOwner = fetchAccount(event.params.newOwner).id
+  }
+  ev.save()
+
+  contract.owner = ev.newOwner
+  contract.save()
+}
+
+export function processTransfer(event: ethereum.Event, fromAddress: Address, toAddress: Address, value: BigInt, pair: Bytes | null): void {
   let contract = fetchERC20(event.address)
   let ev = new ERC20Transfer(events.id(event))
 
@@ -29,47 +72,164 @@ export function handleTransfer(event: TransferEvent): void {
 
   // Set ERC20Transfer specific fields
   ev.contract = contract.id
-  ev.value = decimals.toDecimals(event.params.value, contract.decimals)
-  ev.valueExact = event.params.value
+  ev.value = decimals.toDecimals(value, contract.decimals)
+  ev.valueExact = value
 
-  if (event.params.from != constants.ADDRESS_ZERO) {
-    let from = fetchAccount(event.params.from)
+  if (fromAddress != constants.ADDRESS_ZERO) {
+    let from = fetchAccount(fromAddress)
     let fromBalance = fetchERC20Balance(contract, from)
-    fromBalance.valueExact = fromBalance.valueExact.minus(event.params.value)
+    let wasHolder = !fromBalance.valueExact.isZero()
+    fromBalance.valueExact = fromBalance.valueExact.minus(value)
+    if (wasHolder && fromBalance.valueExact.isZero()) {
+      contract.holderCount = contract.holderCount.minus(constants.BIGINT_ONE)
+    }
     fromBalance.value = decimals.toDecimals(fromBalance.valueExact, contract.decimals)
     fromBalance.save()
+    snapshotPortfolio(from, contract.id, pair, fromBalance.value, fromBalance.valueExact, event.block.timestamp)
     ev.from = from.id
     ev.fromBalance = fromBalance.id
   }
 
-  if (event.params.to != constants.ADDRESS_ZERO) {
-    let to = fetchAccount(event.params.to)
+  if (toAddress != constants.ADDRESS_ZERO) {
+    let to = fetchAccount(toAddress)
     let toBalance = fetchERC20Balance(contract, to)
-    toBalance.valueExact = toBalance.valueExact.plus(event.params.value)
+    let wasHolder = !toBalance.valueExact.isZero()
+    toBalance.valueExact = toBalance.valueExact.plus(value)
+    if (!wasHolder && !toBalance.valueExact.isZero()) {
+      contract.holderCount = contract.holderCount.plus(constants.BIGINT_ONE)
+    }
     toBalance.value = decimals.toDecimals(toBalance.valueExact, contract.decimals)
     toBalance.save()
+    snapshotPortfolio(to, contract.id, pair, toBalance.value, toBalance.valueExact, event.block.timestamp)
     ev.to = to.id
     ev.toBalance = toBalance.id
   }
 
   ev.save()
 
+  // Spending an allowance emits no Approval, so allowances the transfer may have spent are read again
+  if (fromAddress != constants.ADDRESS_ZERO && toAddress != constants.ADDRESS_ZERO) {
+    refreshAllowance(contract.id, fromAddress, toAddress)
+    let caller = event.transaction.to
+    if (caller !== null && caller != toAddress) {
+      refreshAllowance(contract.id, fromAddress, caller)
+    }
+  }
+
+  let isMint = fromAddress == constants.ADDRESS_ZERO
+  let isBurn = toAddress == constants.ADDRESS_ZERO
+  if (isMint) {
+    contract.totalSupplyExact = contract.totalSupplyExact.plus(value)
+
+    let mint = new ERC20Mint(events.id(event).concat('/mint'))
+    mint.emitter = ev.emitter
+    mint.transaction = ev.transaction
+    mint.timestamp = ev.timestamp
+    mint.contract = contract.id
+    mint.transfer = ev.id
+    mint.to = ev.to!
+    mint.toBalance = ev.toBalance!
+    mint.value = ev.value
+    mint.valueExact = value
+    mint.save()
+  }
+  if (isBurn) {
+    contract.totalSupplyExact = contract.totalSupplyExact.minus(value)
+
+    let burn = new ERC20Burn(events.id(event).concat('/burn'))
+    burn.emitter = ev.emitter
+    burn.transaction = ev.transaction
+    burn.timestamp = ev.timestamp
+    burn.contract = contract.id
+    burn.transfer = ev.id
+    burn.from = ev.from!
+    burn.fromBalance = ev.fromBalance!
+    burn.value = ev.value
+    burn.valueExact = value
+    burn.save()
+  }
+  contract.totalSupply = decimals.toDecimals(contract.totalSupplyExact, contract.decimals)
+  contract.save()
+
   // Update volume tracking with proper Int8 ID and Timestamp
   let volume = new ERC20TokenVolume("auto")
   volume.token = contract.id
   volume.timestamp = event.block.timestamp.toI32()
-  volume.volume = event.params.value
+  volume.volume = value
   volume.transferCount = 1
+  volume.mintCount = isMint ? 1 : 0
+  volume.mintVolume = isMint ? value : constants.BIGINT_ZERO
+  volume.burnCount = isBurn ? 1 : 0
+  volume.burnVolume = isBurn ? value : constants.BIGINT_ZERO
   volume.save()
 }
 
-export function handleApproval(event: ApprovalEvent): void {
+export function processApproval(event: ethereum.Event, ownerAddress: Address, spenderAddress: Address, value: BigInt): void {
   let contract = fetchERC20(event.address)
 
-  let owner = fetchAccount(event.params.owner)
-  let spender = fetchAccount(event.params.spender)
+  let owner = fetchAccount(ownerAddress)
+  let spender = fetchAccount(spenderAddress)
   let approval = fetchERC20Approval(contract, owner, spender)
-  approval.valueExact = event.params.value
-  approval.value = decimals.toDecimals(event.params.value, contract.decimals)
+  approval.valueExact = value
+  approval.value = decimals.toDecimals(value, contract.decimals)
+
+  let deadline = decodePermit(event, ownerAddress, spenderAddress, value)
+  approval.viaPermit = deadline !== null
+  approval.permitDeadline = deadline
   approval.save()
+
+  if (deadline !== null) {
+    let permit = new ERC20Permit(events.id(event))
+    permit.emitter = contract.asAccount
+    permit.transaction = transactions.log(event).id
+    permit.timestamp = event.block.timestamp
+    permit.contract = contract.id
+    permit.owner = owner.id
+    permit.spender = spender.id
+    permit.submitter = fetchAccount(event.transaction.from).id
+    permit.value = approval.value
+    permit.valueExact = value
+    permit.deadline = deadline
+    permit.approval = approval.id
+    permit.save()
+  }
+}
+
+// Only allowances the subgraph already tracks are refreshed, reading every pair of accounts a transfer touches would
+// index allowances nobody granted
+function refreshAllowance(contract: Bytes, ownerAddress: Address, spenderAddress: Address): void {
+  let id = contract.toHex().concat('/').concat(ownerAddress.toHex()).concat('/').concat(spenderAddress.toHex())
+  let approval = ERC20Approval.load(id)
+  if (approval === null || approval.valueExact.isZero()) {
+    return
+  }
+
+  let allowance = StarterKitERC20.bind(Address.fromBytes(contract)).try_allowance(ownerAddress, spenderAddress)
+  if (allowance.reverted || allowance.value == approval.valueExact) {
+    return
+  }
+  let token = fetchERC20(Address.fromBytes(contract))
+  approval.valueExact = allowance.value
+  approval.value = decimals.toDecimals(allowance.value, token.decimals)
+  approval.save()
+}
+
+// The deadline of the permit that emitted the approval, when the transaction called permit on the token directly.
+// Permits submitted through another contract are indexed as plain approvals, their input is not visible to events.
+function decodePermit(event: ethereum.Event, ownerAddress: Address, spenderAddress: Address, value: BigInt): BigInt | null {
+  let input = event.transaction.input
+  let to = event.transaction.to
+  if (to === null || to != event.address || input.length != 228 || Bytes.fromUint8Array(input.subarray(0, 4)).toHexString() != PERMIT_SELECTOR) {
+    return null
+  }
+
+  let decoded = ethereum.decode('(address,address,uint256,uint256,uint8,bytes32,bytes32)', Bytes.fromUint8Array(input.subarray(4)))
+  if (decoded === null) {
+    return null
+  }
+  let args = decoded.toTuple()
+  if (args[0].toAddress() != ownerAddress || args[1].toAddress() != spenderAddress || args[2].toBigInt() != value) {
+    return null
+  }
+  return args[3].toBigInt()
 }
\ No newline at end of file
@@ -1,9 +1,25 @@
 import { constants, decimals } from '@amxx/graphprotocol-utils';
 import {
-  Address, BigInt
+  Address, BigInt, ByteArray, Bytes, crypto
 } from '@graphprotocol/graph-ts';
-import { Account, ERC20DexPair, ERC20DexStake } from '../../generated/schema';
+import {
+  Account,
+  ERC20DexFactory,
+  ERC20DexPair,
+  ERC20DexPosition,
+  ERC20DexRole,
+  ERC20DexRoleMember,
+  ERC20DexStake,
+  ERC20DexTrader
+} from '../../generated/schema';
+import { StarterKitERC20DexFactory } from '../../generated/StarterKitERC20DexFactory/StarterKitERC20DexFactory';
 import { StarterKitERC20Dex } from '../../generated/templates/StarterKitERC20Dex/StarterKitERC20Dex';
+import { fetchAccount } from './account';
+import { fetchERC20 } from './erc20';
+
+export const DEFAULT_ADMIN_ROLE = constants.BYTES32_ZERO
+export const ADMIN_ROLE = Bytes.fromByteArray(crypto.keccak256(ByteArray.fromUTF8('ADMIN_ROLE')))
+export const FEE_SETTER_ROLE = Bytes.fromByteArray(crypto.keccak256(ByteArray.fromUTF8('FEE_SETTER_ROLE')))
 
 export function fetchDex(address: Address): ERC20DexPair {
   let pair = ERC20DexPair.load(address)
@@ -19,6 +35,21 @@ export function fetchDex(address: Address): ERC20DexPair {
     pair.symbol = symbolResult.reverted ? '' : symbolResult.value
     pair.decimals = decimalsResult.reverted ? 0 : decimalsResult.value
     pair.asAccount = address
+    pair.lpToken = fetchERC20(address).id
+
+    let pausedResult = endpoint.try_paused()
+    let timelockResult = endpoint.try_timelock()
+    pair.paused = pausedResult.reverted ? false : pausedResult.value
+    pair.timelock = timelockResult.reverted ? null : fetchAccount(timelockResult.value).id
+
+    pair.volumeBaseToken = constants.BIGDECIMAL_ZERO
+    pair.volumeBaseTokenExact = constants.BIGINT_ZERO
+    pair.volumeQuoteToken = constants.BIGDECIMAL_ZERO
+    pair.volumeQuoteTokenExact = constants.BIGINT_ZERO
+    pair.swapCount = constants.BIGINT_ZERO
+    pair.txCount = constants.BIGINT_ZERO
+    pair.feeGrowthBase = constants.BIGDECIMAL_ZERO
+    pair.feeGrowthQuote = constants.BIGDECIMAL_ZERO
   }
 
   let baseReserveResult = endpoint.try_getBaseTokenBalance()
@@ -28,34 +59,37 @@ export function fetchDex(address: Address): ERC20DexPair {
   let swapFeeResult = endpoint.try_swapFee()
   let totalSupplyResult = endpoint.try_totalSupply()
 
+  pair.baseToken = baseTokenResult.reverted ? constants.ADDRESS_ZERO : baseTokenResult.value
+  pair.quoteToken = quoteTokenResult.reverted ? constants.ADDRESS_ZERO : quoteTokenResult.value
+  pair.swapFee = swapFeeResult.reverted ? constants.BIGINT_ZERO : swapFeeResult.value
+
+  // Both tokens of a pair have the same decimals, which the reserves and prices are in. The LP token has its own.
+  let tokenDecimals = baseTokenResult.reverted ? pair.decimals : fetchERC20(baseTokenResult.value).decimals
+
   if (!baseReserveResult.reverted && !quoteReserveResult.reverted) {
     let baseReserve = baseReserveResult.value
     let quoteReserve = quoteReserveResult.value
 
     pair.baseReserveExact = baseReserve
-    pair.baseReserve = decimals.toDecimals(pair.baseReserveExact, pair.decimals)
+    pair.baseReserve = decimals.toDecimals(pair.baseReserveExact, tokenDecimals)
     pair.quoteReserveExact = quoteReserve
-    pair.quoteReserve = decimals.toDecimals(pair.quoteReserveExact, pair.decimals)
+    pair.quoteReserve = decimals.toDecimals(pair.quoteReserveExact, tokenDecimals)
   }
 
-  pair.baseToken = baseTokenResult.reverted ? constants.ADDRESS_ZERO : baseTokenResult.value
-  pair.quoteToken = quoteTokenResult.reverted ? constants.ADDRESS_ZERO : quoteTokenResult.value
-  pair.swapFee = swapFeeResult.reverted ? constants.BIGINT_ZERO : swapFeeResult.value
-
   if (!totalSupplyResult.reverted) {
     let totalSupply = totalSupplyResult.value
     pair.totalSupplyExact = totalSupply
     pair.totalSupply = decimals.toDecimals(totalSupply, pair.decimals)
   }
 
-  let oneBig = constants.BIGINT_ONE.times(BigInt.fromI32(10).pow(pair.decimals as u8))
+  let oneBig = constants.BIGINT_ONE.times(BigInt.fromI32(10).pow(tokenDecimals as u8))
 
   let baseTokenPriceResult = endpoint.try_getQuoteToBasePrice(oneBig)
   let quoteTokenPriceResult = endpoint.try_getBaseToQuotePrice(oneBig)
 
   if (!baseTokenPriceResult.reverted) {
     pair.baseTokenPriceExact = baseTokenPriceResult.value
-    pair.baseTokenPrice = decimals.toDecimals(baseTokenPriceResult.value, pair.decimals)
+    pair.baseTokenPrice = decimals.toDecimals(baseTokenPriceResult.value, tokenDecimals)
   } else {
     pair.baseTokenPriceExact = constants.BIGINT_ZERO
     pair.baseTokenPrice = constants.BIGDECIMAL_ZERO
@@ -63,7 +97,7 @@ export function fetchDex(address: Address): ERC20DexPair {
 
   if (!quoteTokenPriceResult.reverted) {
     pair.quoteTokenPriceExact = quoteTokenPriceResult.value
-    pair.quoteTokenPrice = decimals.toDecimals(quoteTokenPriceResult.value, pair.decimals)
+    pair.quoteTokenPrice = decimals.toDecimals(quoteTokenPriceResult.value, tokenDecimals)
   } else {
     pair.quoteTokenPriceExact = constants.BIGINT_ZERO
     pair.quoteTokenPrice = constants.BIGDECIMAL_ZERO
@@ -73,6 +107,28 @@ export function fetchDex(address: Address): ERC20DexPair {
   return pair as ERC20DexPair
 }
 
+export function fetchDexFactory(address: Address): ERC20DexFactory {
+  let factory = ERC20DexFactory.load(address)
+
+  if (factory == null) {
+    factory = new ERC20DexFactory(address)
+    factory.asAccount = fetchAccount(address).id
+    factory.pairCount = 0
+    factory.swapCount = constants.BIGINT_ZERO
+    factory.mintCount = constants.BIGINT_ZERO
+    factory.burnCount = constants.BIGINT_ZERO
+    factory.txCount = constants.BIGINT_ZERO
+    factory.updatedAt = constants.BIGINT_ZERO
+  }
+
+  let pairCountResult = StarterKitERC20DexFactory.bind(address).try_allPairsLength()
+  if (!pairCountResult.reverted) {
+    factory.pairCount = pairCountResult.value.toI32()
+  }
+
+  factory.save()
+  return factory as ERC20DexFactory
+}
 
 export function fetchERC20DexStake(contract: ERC20DexPair, account: Account): ERC20DexStake {
   let id = contract.id.toHex().concat('/').concat(account.id.toHex())
@@ -88,4 +144,106 @@ export function fetchERC20DexStake(contract: ERC20DexPair, account: Account): ER
   }
 
   return balance as ERC20DexStake
-}
\ No newline at end of file
+}
+
+export function fetchERC20DexPosition(contract: ERC20DexPair, account: Account): ERC20DexPosition {
+  let id = contract.id.toHex().concat('/').concat(account.id.toHex())
+  let position = ERC20DexPosition.load(id)
+
+  if (position == null) {
+    position = new ERC20DexPosition(id)
+    position.pair = contract.id
+    position.account = account.id
+    position.stake = fetchERC20DexStake(contract, account).id
+    position.baseDeposited = constants.BIGDECIMAL_ZERO
+    position.baseDepositedExact = constants.BIGINT_ZERO
+    position.quoteDeposited = constants.BIGDECIMAL_ZERO
+    position.quoteDepositedExact = constants.BIGINT_ZERO
+    position.baseWithdrawn = constants.BIGDECIMAL_ZERO
+    position.baseWithdrawnExact = constants.BIGINT_ZERO
+    position.quoteWithdrawn = constants.BIGDECIMAL_ZERO
+    position.quoteWithdrawnExact = constants.BIGINT_ZERO
+    position.costBasis = constants.BIGDECIMAL_ZERO
+    position.holdBase = constants.BIGDECIMAL_ZERO
+    position.holdQuote = constants.BIGDECIMAL_ZERO
+    position.holdValue = constants.BIGDECIMAL_ZERO
+    position.redeemableBase = constants.BIGDECIMAL_ZERO
+    position.redeemableQuote = constants.BIGDECIMAL_ZERO
+    position.value = constants.BIGDECIMAL_ZERO
+    position.feesBase = constants.BIGDECIMAL_ZERO
+    position.feesQuote = constants.BIGDECIMAL_ZERO
+    position.feeGrowthBaseSettled = contract.feeGrowthBase
+    position.feeGrowthQuoteSettled = contract.feeGrowthQuote
+    position.feesValue = constants.BIGDECIMAL_ZERO
+    position.impermanentLoss = constants.BIGDECIMAL_ZERO
+    position.impermanentLossPercentage = constants.BIGDECIMAL_ZERO
+    position.updatedAt = constants.BIGINT_ZERO
+    position.save()
+  }
+
+  return position as ERC20DexPosition
+}
+
+export function fetchERC20DexTrader(contract: ERC20DexPair, account: Account): ERC20DexTrader {
+  let id = contract.id.toHex().concat('/').concat(account.id.toHex())
+  let trader = ERC20DexTrader.load(id)
+
+  if (trader == null) {
+    trader = new ERC20DexTrader(id)
+    trader.pair = contract.id
+    trader.account = account.id
+    trader.swapCount = constants.BIGINT_ZERO
+    trader.volumeBaseToken = constants.BIGDECIMAL_ZERO
+    trader.volumeBaseTokenExact = constants.BIGINT_ZERO
+    trader.volumeQuoteToken = constants.BIGDECIMAL_ZERO
+    trader.volumeQuoteTokenExact = constants.BIGINT_ZERO
+    trader.feesBaseToken = constants.BIGDECIMAL_ZERO
+    trader.feesBaseTokenExact = constants.BIGINT_ZERO
+    trader.feesQuoteToken = constants.BIGDECIMAL_ZERO
+    trader.feesQuoteTokenExact = constants.BIGINT_ZERO
+    trader.firstSwapAt = constants.BIGINT_ZERO
+    trader.lastSwapAt = constants.BIGINT_ZERO
+    trader.save()
+  }
+
+  return trader as ERC20DexTrader
+}
+
+export function fetchERC20DexRole(contract: ERC20DexPair, role: Bytes): ERC20DexRole {
+  let id = contract.id.toHex().concat('/').concat(role.toHex())
+  let entity = ERC20DexRole.load(id)
+
+  if (entity == null) {
+    entity = new ERC20DexRole(id)
+    entity.pair = contract.id
+    entity.role = role
+    entity.name = roleName(role)
+    // Roles are administered by DEFAULT_ADMIN_ROLE until RoleAdminChanged says otherwise
+    entity.adminRole = role == DEFAULT_ADMIN_ROLE ? id : fetchERC20DexRole(contract, DEFAULT_ADMIN_ROLE).id
+    entity.save()
+  }
+
+  return entity as ERC20DexRole
+}
+
+export function fetchERC20DexRoleMember(role: ERC20DexRole, account: Account): ERC20DexRoleMember {
+  let id = role.id.concat('/').concat(account.id.toHex())
+  let member = ERC20DexRoleMember.load(id)
+
+  if (member == null) {
+    member = new ERC20DexRoleMember(id)
+    member.pair = role.pair
+    member.role = role.id
+    member.account = account.id
+    member.save()
+  }
+
+  return member as ERC20DexRoleMember
+}
+
+function roleName(role: Bytes): string | null {
+  if (role == DEFAULT_ADMIN_ROLE) return 'DEFAULT_ADMIN_ROLE'
+  if (role == ADMIN_ROLE) return 'ADMIN_ROLE'
+  if (role == FEE_SETTER_ROLE) return 'FEE_SETTER_ROLE'
+  return null
+}
@@ -1,6 +1,5 @@
 import {
   constants,
-  decimals,
 } from '@amxx/graphprotocol-utils'
 import {
   Address
@@ -24,26 +23,27 @@ export function fetchERC20(address: Address): ERC20Contract {
     let name = endpoint.try_name()
     let symbol = endpoint.try_symbol()
     let decimals = endpoint.try_decimals()
+    let owner = endpoint.try_owner()
 
     // Common
     contract = new ERC20Contract(address)
     contract.name = name.reverted ? "" : name.value
     contract.symbol = symbol.reverted ? "" : symbol.value
     contract.decimals = decimals.reverted ? 18 : decimals.value
+    // The supply and holders are tracked from the transfers, tokens are indexed from their creation on
     contract.totalSupply = constants.BIGDECIMAL_ZERO
     contract.totalSupplyExact = constants.BIGINT_ZERO
+    contract.holderCount = constants.BIGINT_ZERO
     contract.asAccount = address
+    // Ownable sets the first owner in the constructor, before the token template starts indexing the token
+    contract.owner = owner.reverted || owner.value == constants.ADDRESS_ZERO ? null : fetchAccount(owner.value).id
+    contract.save()
 
     let account = fetchAccount(address)
     account.asERC20 = address
     account.save()
   }
 
-  let erc20Contract = StarterKitERC20.bind(address);
-  contract.totalSupply = decimals.toDecimals(erc20Contract.totalSupply(), contract.decimals)
-  contract.totalSupplyExact = erc20Contract.totalSupply()
-  contract.save()
-
   return contract as ERC20Contract
 }
 
@@ -74,6 +74,7 @@ export function fetchERC20Approval(contract: ERC20Contract, owner: Account, spen
     approval.spender = spender.id
     approval.value = constants.BIGDECIMAL_ZERO
     approval.valueExact = constants.BIGINT_ZERO
+    approval.viaPermit = false
   }
 
   return approval as ERC20Approval
@@ -0,0 +1,168 @@
+import { constants, decimals } from '@amxx/graphprotocol-utils';
+import { Address, BigDecimal, BigInt } from '@graphprotocol/graph-ts';
+import { Account, ERC20DexPair, ERC20DexPosition, ERC20DexStake } from '../../generated/schema';
+import { fetchERC20DexPosition } from '../fetch/dex';
+import { fetchERC20 } from '../fetch/erc20';
+
+let BPS = BigDecimal.fromString('10000')
+let HUNDRED = BigDecimal.fromString('100')
+
+// Liquidity added by Mint. The LP tokens were already credited by the Transfer emitted before it.
+export function recordDeposit(
+  pair: ERC20DexPair,
+  account: Account,
+  baseAmountExact: BigInt,
+  quoteAmountExact: BigInt,
+  timestamp: BigInt
+): void {
+  let position = fetchERC20DexPosition(pair, account)
+  let tokenDecimals = tokenDecimalsOf(pair)
+  let baseAmount = decimals.toDecimals(baseAmountExact, tokenDecimals)
+  let quoteAmount = decimals.toDecimals(quoteAmountExact, tokenDecimals)
+
+  position.baseDepositedExact = position.baseDepositedExact.plus(baseAmountExact)
+  position.baseDeposited = decimals.toDecimals(position.baseDepositedExact, tokenDecimals)
+  position.quoteDepositedExact = position.quoteDepositedExact.plus(quoteAmountExact)
+  position.quoteDeposited = decimals.toDecimals(position.quoteDepositedExact, tokenDecimals)
+
+  position.costBasis = position.costBasis.plus(baseAmount.times(price(pair))).plus(quoteAmount)
+  position.holdBase = position.holdBase.plus(baseAmount)
+  position.holdQuote = position.holdQuote.plus(quoteAmount)
+  refreshPosition(pair, position, timestamp)
+}
+
+// Liquidity removed by Burn. The LP tokens were already debited by the Transfer emitted before it, the cost basis,
+// baseline and fees of the position shrink by the share of its LP tokens that were burned.
+export function recordWithdrawal(
+  pair: ERC20DexPair,
+  account: Account,
+  baseAmountExact: BigInt,
+  quoteAmountExact: BigInt,
+  liquidity: BigInt,
+  timestamp: BigInt
+): void {
+  let position = fetchERC20DexPosition(pair, account)
+  let tokenDecimals = tokenDecimalsOf(pair)
+  position.baseWithdrawnExact = position.baseWithdrawnExact.plus(baseAmountExact)
+  position.baseWithdrawn = decimals.toDecimals(position.baseWithdrawnExact, tokenDecimals)
+  position.quoteWithdrawnExact = position.quoteWithdrawnExact.plus(quoteAmountExact)
+  position.quoteWithdrawn = decimals.toDecimals(position.quoteWithdrawnExact, tokenDecimals)
+
+  let stake = ERC20DexStake.load(position.stake)!
+  let share = shareOf(liquidity, stake.valueExact.plus(liquidity))
+  scalePosition(position, constants.BIGDECIMAL_ONE.minus(share))
+  refreshPosition(pair, position, timestamp)
+}
+
+// LP tokens moved between accounts outside of Mint and Burn carry their share of the position of the sender along
+export function transferPosition(
+  pair: ERC20DexPair,
+  from: Account,
+  to: Account,
+  value: BigInt,
+  timestamp: BigInt
+): void {
+  let fromPosition = fetchERC20DexPosition(pair, from)
+  let toPosition = fetchERC20DexPosition(pair, to)
+
+  let fromStake = ERC20DexStake.load(fromPosition.stake)!
+  let share = shareOf(value, fromStake.valueExact.plus(value))
+
+  toPosition.costBasis = toPosition.costBasis.plus(fromPosition.costBasis.times(share))
+  toPosition.holdBase = toPosition.holdBase.plus(fromPosition.holdBase.times(share))
+  toPosition.holdQuote = toPosition.holdQuote.plus(fromPosition.holdQuote.times(share))
+  toPosition.feesBase = toPosition.feesBase.plus(fromPosition.feesBase.times(share))
+  toPosition.feesQuote = toPosition.feesQuote.plus(fromPosition.feesQuote.times(share))
+  scalePosition(fromPosition, constants.BIGDECIMAL_ONE.minus(share))
+
+  refreshPosition(pair, fromPosition, timestamp)
+  refreshPosition(pair, toPosition, timestamp)
+}
+
+// The swap fee stays in the reserves, so each position earns it in proportion to its LP tokens. The swap only grows
+// the fees per LP token of the pair, a position settles its share of them before its LP tokens move, see settleFees.
+export function accrueSwapFees(pair: ERC20DexPair, baseAmountInExact: BigInt, quoteAmountInExact: BigInt): void {
+  if (pair.totalSupply.equals(constants.BIGDECIMAL_ZERO)) {
+    return
+  }
+
+  let fee = pair.swapFee.toBigDecimal().div(BPS)
+  let tokenDecimals = tokenDecimalsOf(pair)
+  let baseFee = decimals.toDecimals(baseAmountInExact, tokenDecimals).times(fee)
+  let quoteFee = decimals.toDecimals(quoteAmountInExact, tokenDecimals).times(fee)
+
+  pair.feeGrowthBase = pair.feeGrowthBase.plus(baseFee.div(pair.totalSupply))
+  pair.feeGrowthQuote = pair.feeGrowthQuote.plus(quoteFee.div(pair.totalSupply))
+  pair.save()
+}
+
+// Adds the fees earned since the position was last settled, to be called before the LP tokens of the account move
+export function settleFees(pair: ERC20DexPair, account: Account): void {
+  let position = fetchERC20DexPosition(pair, account)
+  settlePosition(pair, position)
+  position.save()
+}
+
+// Revalues every position of the pair, for events that move the reserves without moving LP tokens
+export function refreshPositions(pair: ERC20DexPair, timestamp: BigInt): void {
+  let positions = pair.positions.load()
+  for (let i = 0; i < positions.length; i++) {
+    refreshPosition(pair, positions[i], timestamp)
+  }
+}
+
+function refreshPosition(pair: ERC20DexPair, position: ERC20DexPosition, timestamp: BigInt): void {
+  settlePosition(pair, position)
+  let stake = ERC20DexStake.load(position.stake)!
+  let share = shareOf(stake.valueExact, pair.totalSupplyExact)
+  let currentPrice = price(pair)
+
+  position.redeemableBase = pair.baseReserve.times(share)
+  position.redeemableQuote = pair.quoteReserve.times(share)
+  position.value = position.redeemableBase.times(currentPrice).plus(position.redeemableQuote)
+  position.feesValue = position.feesBase.times(currentPrice).plus(position.feesQuote)
+  position.holdValue = position.holdBase.times(currentPrice).plus(position.holdQuote)
+
+  position.impermanentLoss = position.value.minus(position.feesValue).minus(position.holdValue)
+  position.impermanentLossPercentage = position.holdValue.equals(constants.BIGDECIMAL_ZERO)
+    ? constants.BIGDECIMAL_ZERO
+    : position.impermanentLoss.div(position.holdValue).times(HUNDRED)
+  position.updatedAt = timestamp
+  position.save()
+}
+
+function settlePosition(pair: ERC20DexPair, position: ERC20DexPosition): void {
+  let stake = ERC20DexStake.load(position.stake)!
+  let baseGrowth = pair.feeGrowthBase.minus(position.feeGrowthBaseSettled)
+  let quoteGrowth = pair.feeGrowthQuote.minus(position.feeGrowthQuoteSettled)
+  position.feesBase = position.feesBase.plus(stake.value.times(baseGrowth))
+  position.feesQuote = position.feesQuote.plus(stake.value.times(quoteGrowth))
+  position.feeGrowthBaseSettled = pair.feeGrowthBase
+  position.feeGrowthQuoteSettled = pair.feeGrowthQuote
+}
+
+function scalePosition(position: ERC20DexPosition, factor: BigDecimal): void {
+  position.costBasis = position.costBasis.times(factor)
+  position.holdBase = position.holdBase.times(factor)
+  position.holdQuote = position.holdQuote.times(factor)
+  position.feesBase = position.feesBase.times(factor)
+  position.feesQuote = position.feesQuote.times(factor)
+}
+
+// Deposits, withdrawals and fees are amounts of the tokens of the pair, which share their decimals
+function tokenDecimalsOf(pair: ERC20DexPair): i32 {
+  return fetchERC20(Address.fromBytes(pair.baseToken)).decimals
+}
+
+// Quote tokens per base token at the reserves of the pair
+function price(pair: ERC20DexPair): BigDecimal {
+  return pair.baseReserve.equals(constants.BIGDECIMAL_ZERO)
+    ? constants.BIGDECIMAL_ZERO
+    : pair.quoteReserve.div(pair.baseReserve)
+}
+
+function shareOf(amount: BigInt, total: BigInt): BigDecimal {
+  return total.equals(constants.BIGINT_ZERO)
+    ? constants.BIGDECIMAL_ZERO
+    : amount.toBigDecimal().div(total.toBigDecimal())
+}
@@ -0,0 +1,20 @@
+import { BigDecimal, BigInt, Bytes } from '@graphprotocol/graph-ts';
+import { Account, ERC20PortfolioSnapshot } from '../../generated/schema';
+
+export function snapshotPortfolio(
+  account: Account,
+  token: Bytes,
+  pair: Bytes | null,
+  value: BigDecimal,
+  valueExact: BigInt,
+  timestamp: BigInt
+): void {
+  let snapshot = new ERC20PortfolioSnapshot("auto")
+  snapshot.timestamp = timestamp.toI32()
+  snapshot.account = account.id
+  snapshot.token = token
+  snapshot.pair = pair
+  snapshot.balance = value
+  snapshot.balanceExact = valueExact
+  snapshot.save()
+}
@@ -0,0 +1,57 @@
+import { constants } from '@amxx/graphprotocol-utils';
+import { BigDecimal, BigInt } from '@graphprotocol/graph-ts';
+import { ERC20DexMinuteCandle, ERC20DexPair, ERC20DexPricePoint } from '../../generated/schema';
+
+const SECONDS_PER_MINUTE = BigInt.fromI32(60)
+
+export function snapshotPrice(
+  pair: ERC20DexPair,
+  kind: string,
+  volumeBaseToken: BigDecimal,
+  volumeQuoteToken: BigDecimal,
+  executionPrice: BigDecimal | null,
+  timestamp: BigInt
+): void {
+  // Both tokens of a pair have the same decimals, so the ratio of the decimal reserves is the price
+  let baseSpotPrice = pair.baseReserve.equals(constants.BIGDECIMAL_ZERO)
+    ? constants.BIGDECIMAL_ZERO
+    : pair.quoteReserve.div(pair.baseReserve)
+  let quoteSpotPrice = pair.quoteReserve.equals(constants.BIGDECIMAL_ZERO)
+    ? constants.BIGDECIMAL_ZERO
+    : pair.baseReserve.div(pair.quoteReserve)
+
+  let point = new ERC20DexPricePoint("auto")
+  point.timestamp = timestamp.toI32()
+  point.pair = pair.id
+  point.kind = kind
+  point.baseTokenSpotPrice = baseSpotPrice
+  point.quoteTokenSpotPrice = quoteSpotPrice
+  point.baseTokenExecutionPrice = executionPrice
+  point.volumeBaseToken = volumeBaseToken
+  point.volumeQuoteToken = volumeQuoteToken
+  point.save()
+
+  let minute = timestamp.minus(timestamp.mod(SECONDS_PER_MINUTE))
+  let id = pair.id.toHex().concat('/').concat(minute.toString())
+  let candle = ERC20DexMinuteCandle.load(id)
+
+  if (candle == null) {
+    candle = new ERC20DexMinuteCandle(id)
+    candle.pair = pair.id
+    candle.timestamp = minute
+    candle.open = baseSpotPrice
+    candle.high = baseSpotPrice
+    candle.low = baseSpotPrice
+    candle.volumeBaseToken = constants.BIGDECIMAL_ZERO
+    candle.volumeQuoteToken = constants.BIGDECIMAL_ZERO
+    candle.count = 0
+  }
+
+  if (baseSpotPrice.gt(candle.high)) candle.high = baseSpotPrice
+  if (baseSpotPrice.lt(candle.low)) candle.low = baseSpotPrice
+  candle.close = baseSpotPrice
+  candle.volumeBaseToken = candle.volumeBaseToken.plus(volumeBaseToken)
+  candle.volumeQuoteToken = candle.volumeQuoteToken.plus(volumeQuoteToken)
+  candle.count = candle.count + 1
+  candle.save()
+}
@@ -0,0 +1,104 @@
+import { constants, decimals } from '@amxx/graphprotocol-utils';
+import { Address, BigInt, Bytes } from '@graphprotocol/graph-ts';
+import {
+  ERC20DexFactorySnapshot,
+  ERC20DexPair,
+  ERC20DexTokenSnapshot,
+  ERC20DexTokenSummary
+} from '../../generated/schema';
+import { fetchDexFactory } from '../fetch/dex';
+import { fetchERC20 } from '../fetch/erc20';
+
+// Rolls an event of a pair up into its own totals, the totals of its factory and those of both of its tokens.
+// kind is one of PAIR_CREATED, MINT, BURN, SWAP or EMERGENCY_WITHDRAW, volumes are zero for all but swaps.
+export function snapshotProtocol(
+  pair: ERC20DexPair,
+  kind: string,
+  volumeBaseTokenExact: BigInt,
+  volumeQuoteTokenExact: BigInt,
+  timestamp: BigInt
+): void {
+  let isSwap = kind == 'SWAP'
+  let isTransaction = isSwap || kind == 'MINT' || kind == 'BURN'
+
+  if (isSwap) {
+    // Both tokens of a pair have the same decimals
+    let tokenDecimals = fetchERC20(Address.fromBytes(pair.baseToken)).decimals
+    pair.volumeBaseTokenExact = pair.volumeBaseTokenExact.plus(volumeBaseTokenExact)
+    pair.volumeBaseToken = decimals.toDecimals(pair.volumeBaseTokenExact, tokenDecimals)
+    pair.volumeQuoteTokenExact = pair.volumeQuoteTokenExact.plus(volumeQuoteTokenExact)
+    pair.volumeQuoteToken = decimals.toDecimals(pair.volumeQuoteTokenExact, tokenDecimals)
+    pair.swapCount = pair.swapCount.plus(constants.BIGINT_ONE)
+  }
+  if (isTransaction) {
+    pair.txCount = pair.txCount.plus(constants.BIGINT_ONE)
+  }
+  pair.save()
+
+  let factoryAddress = pair.factory
+  if (factoryAddress !== null) {
+    let factory = fetchDexFactory(Address.fromBytes(factoryAddress))
+    if (isSwap) factory.swapCount = factory.swapCount.plus(constants.BIGINT_ONE)
+    if (kind == 'MINT') factory.mintCount = factory.mintCount.plus(constants.BIGINT_ONE)
+    if (kind == 'BURN') factory.burnCount = factory.burnCount.plus(constants.BIGINT_ONE)
+    if (isTransaction) factory.txCount = factory.txCount.plus(constants.BIGINT_ONE)
+    factory.updatedAt = timestamp
+    factory.save()
+
+    let snapshot = new ERC20DexFactorySnapshot("auto")
+    snapshot.timestamp = timestamp.toI32()
+    snapshot.factory = factory.id
+    snapshot.pairCount = factory.pairCount
+    snapshot.pairsCreated = kind == 'PAIR_CREATED' ? 1 : 0
+    snapshot.swapCount = isSwap ? 1 : 0
+    snapshot.mintCount = kind == 'MINT' ? 1 : 0
+    snapshot.burnCount = kind == 'BURN' ? 1 : 0
+    snapshot.save()
+  }
+
+  snapshotToken(pair.baseToken, volumeBaseTokenExact, isSwap, timestamp)
+  snapshotToken(pair.quoteToken, volumeQuoteTokenExact, isSwap, timestamp)
+}
+
+function snapshotToken(address: Bytes, volumeExact: BigInt, isSwap: boolean, timestamp: BigInt): void {
+  let token = fetchERC20(Address.fromBytes(address))
+  let summary = ERC20DexTokenSummary.load(token.id)
+
+  if (summary == null) {
+    summary = new ERC20DexTokenSummary(token.id)
+    summary.token = token.id
+    summary.volume = constants.BIGDECIMAL_ZERO
+    summary.volumeExact = constants.BIGINT_ZERO
+    summary.swapCount = constants.BIGINT_ZERO
+  }
+
+  // Summed again over all pairs of the token, as the reserves of the other pairs may have moved since
+  let liquidityExact = constants.BIGINT_ZERO
+  let basePairs = token.pairsBaseToken.load()
+  for (let i = 0; i < basePairs.length; i++) {
+    liquidityExact = liquidityExact.plus(basePairs[i].baseReserveExact)
+  }
+  let quotePairs = token.pairsQuoteToken.load()
+  for (let i = 0; i < quotePairs.length; i++) {
+    liquidityExact = liquidityExact.plus(quotePairs[i].quoteReserveExact)
+  }
+
+  summary.pairCount = basePairs.length + quotePairs.length
+  summary.liquidityExact = liquidityExact
+  summary.liquidity = decimals.toDecimals(liquidityExact, token.decimals)
+  if (isSwap) {
+    summary.volumeExact = summary.volumeExact.plus(volumeExact)
+    summary.volume = decimals.toDecimals(summary.volumeExact, token.decimals)
+    summary.swapCount = summary.swapCount.plus(constants.BIGINT_ONE)
+  }
+  summary.updatedAt = timestamp
+  summary.save()
+
+  let snapshot = new ERC20DexTokenSnapshot("auto")
+  snapshot.timestamp = timestamp.toI32()
+  snapshot.token = token.id
+  snapshot.liquidity = summary.liquidity
+  snapshot.volume = isSwap ? decimals.toDecimals(volumeExact, token.decimals) : constants.BIGDECIMAL_ZERO
+  snapshot.swapCount = isSwap ? 1 : 0
+  snapshot.save()
+}
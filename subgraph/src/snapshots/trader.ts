@@ -0,0 +1,52 @@
+import { constants, decimals } from '@amxx/graphprotocol-utils';
+import { Address, BigInt } from '@graphprotocol/graph-ts';
+import { Account, ERC20DexPair, ERC20DexTrade } from '../../generated/schema';
+import { fetchERC20DexTrader } from '../fetch/dex';
+import { fetchERC20 } from '../fetch/erc20';
+
+let BPS = BigInt.fromI32(10000)
+
+// Adds a swap to the all-time totals of the account in the pair and to its hourly and daily stats. The fee is the
+// share of the amount sold that the swap fee keeps in the reserves, in the token that was sold.
+export function snapshotTrade(
+  pair: ERC20DexPair,
+  account: Account,
+  baseAmountInExact: BigInt,
+  quoteAmountInExact: BigInt,
+  baseAmountOutExact: BigInt,
+  quoteAmountOutExact: BigInt,
+  timestamp: BigInt
+): void {
+  // Both tokens of a pair have the same decimals
+  let tokenDecimals = fetchERC20(Address.fromBytes(pair.baseToken)).decimals
+  let volumeBaseExact = baseAmountInExact.plus(baseAmountOutExact)
+  let volumeQuoteExact = quoteAmountInExact.plus(quoteAmountOutExact)
+  let feeBaseExact = baseAmountInExact.times(pair.swapFee).div(BPS)
+  let feeQuoteExact = quoteAmountInExact.times(pair.swapFee).div(BPS)
+
+  let trader = fetchERC20DexTrader(pair, account)
+  if (trader.swapCount.equals(constants.BIGINT_ZERO)) {
+    trader.firstSwapAt = timestamp
+  }
+  trader.swapCount = trader.swapCount.plus(constants.BIGINT_ONE)
+  trader.volumeBaseTokenExact = trader.volumeBaseTokenExact.plus(volumeBaseExact)
+  trader.volumeBaseToken = decimals.toDecimals(trader.volumeBaseTokenExact, tokenDecimals)
+  trader.volumeQuoteTokenExact = trader.volumeQuoteTokenExact.plus(volumeQuoteExact)
+  trader.volumeQuoteToken = decimals.toDecimals(trader.volumeQuoteTokenExact, tokenDecimals)
+  trader.feesBaseTokenExact = trader.feesBaseTokenExact.plus(feeBaseExact)
+  trader.feesBaseToken = decimals.toDecimals(trader.feesBaseTokenExact, tokenDecimals)
+  trader.feesQuoteTokenExact = trader.feesQuoteTokenExact.plus(feeQuoteExact)
+  trader.feesQuoteToken = decimals.toDecimals(trader.feesQuoteTokenExact, tokenDecimals)
+  trader.lastSwapAt = timestamp
+  trader.save()
+
+  let trade = new ERC20DexTrade("auto")
+  trade.timestamp = timestamp.toI32()
+  trade.account = account.id
+  trade.pair = pair.id
+  trade.volumeBaseToken = decimals.toDecimals(volumeBaseExact, tokenDecimals)
+  trade.volumeQuoteToken = decimals.toDecimals(volumeQuoteExact, tokenDecimals)
+  trade.feeBaseToken = decimals.toDecimals(feeBaseExact, tokenDecimals)
+  trade.feeQuoteToken = decimals.toDecimals(feeQuoteExact, tokenDecimals)
+  trade.save()
+}
@@ -0,0 +1,65 @@
+import { constants } from '@amxx/graphprotocol-utils';
+import { afterEach, assert, beforeEach, clearStore, describe, test } from 'matchstick-as/assembly/index';
+import { ERC20Contract } from '../generated/schema';
+import { ADMIN_ROLE, DEFAULT_ADMIN_ROLE, FEE_SETTER_ROLE } from '../src/fetch/dex';
+import { handlePairCreated } from '../src/datasources/dex-factory';
+import { createPairCreatedEvent } from './events';
+import { ALICE, BASE_TOKEN, BOB, FACTORY, mockDex, mockDexFactory, PAIR, QUOTE_TOKEN, TIMELOCK } from './utils';
+
+let pair = PAIR.toHexString()
+
+describe('handlePairCreated', () => {
+  beforeEach(() => {
+    mockDex(18, constants.BIGINT_ZERO, constants.BIGINT_ZERO, constants.BIGINT_ZERO)
+    mockDexFactory(1)
+    // ALICE creates the pair through a contract BOB sends the transaction to
+    let event = createPairCreatedEvent(FACTORY, BASE_TOKEN, QUOTE_TOKEN, PAIR, 1, ALICE)
+    event.transaction.from = BOB
+    handlePairCreated(event)
+  })
+
+  afterEach(() => {
+    clearStore()
+  })
+
+  test('indexes the pair and its tokens', () => {
+    assert.fieldEquals('ERC20DexPair', pair, 'factory', FACTORY.toHexString())
+    assert.fieldEquals('ERC20DexPair', pair, 'baseToken', BASE_TOKEN.toHexString())
+    assert.fieldEquals('ERC20DexPair', pair, 'quoteToken', QUOTE_TOKEN.toHexString())
+    assert.fieldEquals('ERC20DexPair', pair, 'timelock', TIMELOCK.toHexString())
+    assert.fieldEquals('ERC20DexPair', pair, 'swapFee', '30')
+    assert.fieldEquals('ERC20Contract', BASE_TOKEN.toHexString(), 'symbol', 'BASE')
+    // The LP token of the pair has no owner, so the call reverts
+    assert.fieldEquals('ERC20Contract', pair, 'symbol', 'SKDEX')
+    assert.assertTrue(ERC20Contract.load(PAIR)!.owner === null)
+  })
+
+  test('indexes prices as zero while the pair has no reserves', () => {
+    assert.fieldEquals('ERC20DexPair', pair, 'baseReserve', '0')
+    assert.fieldEquals('ERC20DexPair', pair, 'baseTokenPriceExact', '0')
+    assert.fieldEquals('ERC20DexPair', pair, 'quoteTokenPriceExact', '0')
+  })
+
+  test('starts the pair and timelock templates', () => {
+    assert.dataSourceCount('StarterKitERC20Dex', 1)
+    assert.dataSourceExists('StarterKitERC20Dex', pair)
+    assert.dataSourceCount('TimelockController', 1)
+    assert.dataSourceExists('TimelockController', TIMELOCK.toHexString())
+  })
+
+  test('grants the roles of the pair to the caller of the factory', () => {
+    let roles = [DEFAULT_ADMIN_ROLE, ADMIN_ROLE, FEE_SETTER_ROLE]
+    for (let i = 0; i < roles.length; i++) {
+      let role = pair.concat('/').concat(roles[i].toHex())
+      assert.fieldEquals('ERC20DexRoleMember', role.concat('/').concat(ALICE.toHexString()), 'role', role)
+      assert.notInStore('ERC20DexRoleMember', role.concat('/').concat(BOB.toHexString()))
+    }
+    assert.fieldEquals('ERC20DexRole', pair.concat('/').concat(FEE_SETTER_ROLE.toHex()), 'name', 'FEE_SETTER_ROLE')
+  })
+
+  test('counts the pair on its factory and tokens', () => {
+    assert.fieldEquals('ERC20DexFactory', FACTORY.toHexString(), 'pairCount', '1')
+    assert.fieldEquals('ERC20DexTokenSummary', BASE_TOKEN.toHexString(), 'pairCount', '1')
+    assert.fieldEquals('ERC20DexTokenSummary', QUOTE_TOKEN.toHexString(), 'pairCount', '1')
+  })
+})
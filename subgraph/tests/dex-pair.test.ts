@@ -0,0 +1,314 @@
+import { constants, decimals } from '@amxx/graphprotocol-utils';
+import { Address, BigInt } from '@graphprotocol/graph-ts';
+import { afterEach, assert, clearStore, describe, newMockEvent, test } from 'matchstick-as/assembly/index';
+import { ERC20DexPosition } from '../generated/schema';
+import { handlePairCreated } from '../src/datasources/dex-factory';
+import {
+  handleApproval,
+  handleBurn,
+  handleEmergencyWithdraw,
+  handleFeeUpdated,
+  handleMint,
+  handlePaused,
+  handleRoleAdminChanged,
+  handleRoleGranted,
+  handleRoleRevoked,
+  handleSwap,
+  handleTransfer,
+  handleUnpaused
+} from '../src/datasources/dex-pair';
+import { ADMIN_ROLE, FEE_SETTER_ROLE } from '../src/fetch/dex';
+import {
+  createBurnEvent,
+  createDexApprovalEvent,
+  createDexTransferEvent,
+  createEmergencyWithdrawEvent,
+  createFeeUpdatedEvent,
+  createMintEvent,
+  createPairCreatedEvent,
+  createPausedEvent,
+  createRoleAdminChangedEvent,
+  createRoleGrantedEvent,
+  createRoleRevokedEvent,
+  createSwapEvent,
+  createUnpausedEvent
+} from './events';
+import {
+  ALICE,
+  amountOut,
+  BASE_TOKEN,
+  BOB,
+  FACTORY,
+  MINIMUM_LIQUIDITY,
+  mockDex,
+  mockDexFactory,
+  PAIR,
+  QUOTE_TOKEN,
+  SWAP_FEE,
+  units
+} from './utils';
+
+let pair = PAIR.toHexString()
+let LOCKED = Address.fromString('0x0000000000000000000000000000000000000001')
+
+// The id of an event of the pair, in the transaction every mock event shares
+function eventId(logIndex: i32): string {
+  return newMockEvent().transaction.hash.toHexString() + '-' + logIndex.toString()
+}
+
+function stakeId(account: Address): string {
+  return pair.concat('/').concat(account.toHexString())
+}
+
+function createPair(tokenDecimals: i32): void {
+  mockDex(tokenDecimals, constants.BIGINT_ZERO, constants.BIGINT_ZERO, constants.BIGINT_ZERO)
+  mockDexFactory(1)
+  handlePairCreated(createPairCreatedEvent(FACTORY, BASE_TOKEN, QUOTE_TOKEN, PAIR, 1, ALICE))
+}
+
+// The events of a first addLiquidity of equal amounts: the minimum liquidity is locked at address(1), the rest of the
+// LP tokens go to ALICE and Mint follows them
+function addLiquidity(tokenDecimals: i32, amount: BigInt): BigInt {
+  let liquidity = amount.minus(MINIMUM_LIQUIDITY)
+  mockDex(tokenDecimals, amount, amount, amount)
+
+  handleTransfer(createDexTransferEvent(PAIR, 1, constants.ADDRESS_ZERO, LOCKED, MINIMUM_LIQUIDITY))
+  handleTransfer(createDexTransferEvent(PAIR, 2, constants.ADDRESS_ZERO, ALICE, liquidity))
+  handleMint(createMintEvent(PAIR, 3, ALICE, amount, amount, liquidity))
+  return liquidity
+}
+
+describe('StarterKitERC20Dex', () => {
+  afterEach(() => {
+    clearStore()
+  })
+
+  describe('handleMint', () => {
+    test('records the deposit and the LP tokens of the provider', () => {
+      createPair(18)
+      let liquidity = addLiquidity(18, units(100, 18))
+
+      assert.fieldEquals('ERC20DexMint', eventId(3), 'baseAmount', '100')
+      assert.fieldEquals('ERC20DexMint', eventId(3), 'liquidityExact', liquidity.toString())
+      assert.fieldEquals('ERC20DexStake', stakeId(ALICE), 'valueExact', liquidity.toString())
+      assert.fieldEquals('ERC20DexStake', stakeId(LOCKED), 'valueExact', MINIMUM_LIQUIDITY.toString())
+      assert.fieldEquals('ERC20DexPosition', stakeId(ALICE), 'baseDeposited', '100')
+      // 100 base tokens at a price of 1 quote token, and 100 quote tokens
+      assert.fieldEquals('ERC20DexPosition', stakeId(ALICE), 'costBasis', '200')
+      assert.fieldEquals('ERC20DexPair', pair, 'baseReserve', '100')
+      assert.fieldEquals('ERC20DexPair', pair, 'txCount', '1')
+      assert.fieldEquals('ERC20DexFactory', FACTORY.toHexString(), 'mintCount', '1')
+      assert.fieldEquals('ERC20Contract', pair, 'totalSupplyExact', units(100, 18).toString())
+    })
+
+    test('converts the amounts of tokens with 6 decimals', () => {
+      createPair(6)
+      let liquidity = addLiquidity(6, units(100, 6))
+
+      assert.fieldEquals('ERC20DexMint', eventId(3), 'baseAmount', '100')
+      assert.fieldEquals('ERC20DexMint', eventId(3), 'quoteAmount', '100')
+      // LP tokens have 18 decimals whatever the decimals of the tokens of the pair
+      assert.fieldEquals('ERC20DexMint', eventId(3), 'liquidity', decimals.toDecimals(liquidity, 18).toString())
+      assert.fieldEquals('ERC20DexPair', pair, 'baseReserve', '100')
+      assert.fieldEquals('ERC20DexPair', pair, 'quoteReserve', '100')
+      let price = amountOut(units(1, 6), units(100, 6), units(100, 6))
+      assert.fieldEquals('ERC20DexPair', pair, 'baseTokenPriceExact', price.toString())
+      assert.fieldEquals('ERC20DexPosition', stakeId(ALICE), 'baseDeposited', '100')
+      assert.fieldEquals('ERC20DexPosition', stakeId(ALICE), 'costBasis', '200')
+    })
+  })
+
+  describe('handleSwap', () => {
+    test('keeps every swap of a transaction', () => {
+      createPair(18)
+      addLiquidity(18, units(100, 18))
+
+      // A base to quote swap followed by a quote to base swap, with the reserves the pair has after both
+      let quoteOut = amountOut(units(1, 18), units(100, 18), units(100, 18))
+      let baseOut = amountOut(units(1, 18), units(100, 18).minus(quoteOut), units(101, 18))
+      let baseReserve = units(101, 18).minus(baseOut)
+      let quoteReserve = units(101, 18).minus(quoteOut)
+      mockDex(18, baseReserve, quoteReserve, units(100, 18))
+
+      handleSwap(createSwapEvent(PAIR, 4, ALICE, units(1, 18), constants.BIGINT_ZERO, constants.BIGINT_ZERO, quoteOut))
+      handleSwap(createSwapEvent(PAIR, 5, ALICE, constants.BIGINT_ZERO, units(1, 18), baseOut, constants.BIGINT_ZERO))
+
+      assert.entityCount('ERC20DexSwap', 2)
+      assert.fieldEquals('ERC20DexSwap', eventId(4), 'quoteAmountOutExact', quoteOut.toString())
+      assert.fieldEquals('ERC20DexSwap', eventId(5), 'baseAmountOutExact', baseOut.toString())
+      assert.fieldEquals('ERC20DexPair', pair, 'swapCount', '2')
+      assert.fieldEquals('ERC20DexPair', pair, 'volumeBaseTokenExact', units(1, 18).plus(baseOut).toString())
+      assert.fieldEquals('ERC20DexPair', pair, 'volumeQuoteTokenExact', units(1, 18).plus(quoteOut).toString())
+      assert.fieldEquals('ERC20DexPair', pair, 'baseReserveExact', baseReserve.toString())
+      assert.fieldEquals('ERC20DexFactory', FACTORY.toHexString(), 'swapCount', '2')
+      assert.fieldEquals('ERC20DexTokenSummary', BASE_TOKEN.toHexString(), 'swapCount', '2')
+
+      // The fee of each swap is 0.3% of 1 token, shared by 100 LP tokens. The positions settle it once their LP tokens move.
+      assert.fieldEquals('ERC20DexPair', pair, 'feeGrowthBase', '0.00003')
+      assert.fieldEquals('ERC20DexPair', pair, 'feeGrowthQuote', '0.00003')
+      assert.fieldEquals('ERC20DexPosition', stakeId(ALICE), 'feesBase', '0')
+    })
+
+    test('sums the swaps and fees of each trader', () => {
+      createPair(18)
+      addLiquidity(18, units(100, 18))
+
+      let quoteOut = amountOut(units(1, 18), units(100, 18), units(100, 18))
+      let baseOut = amountOut(units(2, 18), units(100, 18).minus(quoteOut), units(101, 18))
+      mockDex(18, units(101, 18).minus(baseOut), units(102, 18).minus(quoteOut), units(100, 18))
+
+      handleSwap(createSwapEvent(PAIR, 4, ALICE, units(1, 18), constants.BIGINT_ZERO, constants.BIGINT_ZERO, quoteOut))
+      handleSwap(createSwapEvent(PAIR, 5, ALICE, constants.BIGINT_ZERO, units(1, 18), baseOut, constants.BIGINT_ZERO))
+      handleSwap(createSwapEvent(PAIR, 6, BOB, constants.BIGINT_ZERO, units(1, 18), constants.BIGINT_ZERO, quoteOut))
+
+      // The fee is kept from the amount sold, 0.3% of 1 token
+      let fee = units(1, 18).times(SWAP_FEE).div(BigInt.fromI32(10000))
+      let volumeBase = units(1, 18).plus(baseOut)
+      let volumeQuote = units(1, 18).plus(quoteOut)
+      assert.fieldEquals('ERC20DexTrader', stakeId(ALICE), 'swapCount', '2')
+      assert.fieldEquals('ERC20DexTrader', stakeId(ALICE), 'volumeBaseTokenExact', volumeBase.toString())
+      assert.fieldEquals('ERC20DexTrader', stakeId(ALICE), 'volumeQuoteTokenExact', volumeQuote.toString())
+      assert.fieldEquals('ERC20DexTrader', stakeId(ALICE), 'feesBaseTokenExact', fee.toString())
+      assert.fieldEquals('ERC20DexTrader', stakeId(ALICE), 'feesQuoteTokenExact', fee.toString())
+      assert.fieldEquals('ERC20DexTrader', stakeId(ALICE), 'feesBaseToken', '0.003')
+      assert.fieldEquals('ERC20DexTrader', stakeId(ALICE), 'account', ALICE.toHexString())
+      assert.fieldEquals('ERC20DexTrader', stakeId(BOB), 'swapCount', '1')
+      assert.fieldEquals('ERC20DexTrader', stakeId(BOB), 'feesBaseTokenExact', '0')
+      assert.fieldEquals('ERC20DexTrader', stakeId(BOB), 'feesQuoteTokenExact', fee.toString())
+      assert.entityCount('ERC20DexTrader', 2)
+    })
+  })
+
+  describe('handleBurn', () => {
+    test('records the withdrawal and the LP tokens burned', () => {
+      createPair(18)
+      let liquidity = addLiquidity(18, units(100, 18))
+      mockDex(18, units(50, 18), units(50, 18), units(50, 18))
+
+      handleTransfer(createDexTransferEvent(PAIR, 4, ALICE, constants.ADDRESS_ZERO, units(50, 18)))
+      handleBurn(createBurnEvent(PAIR, 5, ALICE, units(50, 18), units(50, 18), ALICE, units(50, 18)))
+
+      assert.fieldEquals('ERC20DexBurn', eventId(5), 'baseAmount', '50')
+      assert.fieldEquals('ERC20DexBurn', eventId(5), 'liquidity', '50')
+      assert.fieldEquals('ERC20DexStake', stakeId(ALICE), 'valueExact', liquidity.minus(units(50, 18)).toString())
+      assert.fieldEquals('ERC20DexPosition', stakeId(ALICE), 'baseWithdrawn', '50')
+      assert.fieldEquals('ERC20DexPair', pair, 'baseReserve', '50')
+      assert.fieldEquals('ERC20DexFactory', FACTORY.toHexString(), 'burnCount', '1')
+      assert.fieldEquals('ERC20Contract', pair, 'totalSupplyExact', units(50, 18).toString())
+    })
+  })
+
+  describe('handleTransfer', () => {
+    test('moves the stake and the position share of LP tokens between accounts', () => {
+      createPair(18)
+      let liquidity = addLiquidity(18, units(100, 18))
+
+      handleTransfer(createDexTransferEvent(PAIR, 4, ALICE, BOB, units(40, 18)))
+
+      assert.fieldEquals('ERC20DexStake', stakeId(ALICE), 'valueExact', liquidity.minus(units(40, 18)).toString())
+      assert.fieldEquals('ERC20DexStake', stakeId(BOB), 'valueExact', units(40, 18).toString())
+      assert.fieldEquals('ERC20Balance', stakeId(BOB), 'value', '40')
+
+      let alice = ERC20DexPosition.load(stakeId(ALICE))!
+      let bob = ERC20DexPosition.load(stakeId(BOB))!
+      assert.assertTrue(bob.costBasis.gt(constants.BIGDECIMAL_ZERO))
+      assert.assertTrue(alice.costBasis.gt(bob.costBasis))
+      // The deposits stay with the account that made them
+      assert.fieldEquals('ERC20DexPosition', stakeId(BOB), 'baseDepositedExact', '0')
+    })
+
+    test('settles the swap fees of the positions before their LP tokens move', () => {
+      createPair(18)
+      addLiquidity(18, units(100, 18))
+      let quoteOut = amountOut(units(1, 18), units(100, 18), units(100, 18))
+      mockDex(18, units(101, 18), units(100, 18).minus(quoteOut), units(100, 18))
+      handleSwap(createSwapEvent(PAIR, 4, ALICE, units(1, 18), constants.BIGINT_ZERO, constants.BIGINT_ZERO, quoteOut))
+
+      handleTransfer(createDexTransferEvent(PAIR, 5, ALICE, BOB, units(40, 18)))
+
+      let alice = ERC20DexPosition.load(stakeId(ALICE))!
+      let bob = ERC20DexPosition.load(stakeId(BOB))!
+      // The fees earned before the transfer move along with the LP tokens, like the cost basis
+      assert.assertTrue(bob.feesBase.gt(constants.BIGDECIMAL_ZERO))
+      assert.assertTrue(alice.feesBase.gt(bob.feesBase))
+      assert.fieldEquals('ERC20DexPosition', stakeId(ALICE), 'feeGrowthBaseSettled', '0.00003')
+      assert.fieldEquals('ERC20DexPosition', stakeId(BOB), 'feeGrowthBaseSettled', '0.00003')
+      // The LP tokens locked at address(1) never move, so its position never settles
+      assert.fieldEquals('ERC20DexPosition', stakeId(LOCKED), 'feesBase', '0')
+    })
+  })
+
+  describe('handleEmergencyWithdraw', () => {
+    test('records the withdrawal and the reserves left', () => {
+      createPair(18)
+      addLiquidity(18, units(100, 18))
+      mockDex(18, units(90, 18), units(100, 18), units(100, 18))
+
+      handleEmergencyWithdraw(createEmergencyWithdrawEvent(PAIR, BASE_TOKEN, units(10, 18)))
+
+      assert.fieldEquals('ERC20DexEmergencyWithdraw', eventId(1), 'token', BASE_TOKEN.toHexString())
+      assert.fieldEquals('ERC20DexEmergencyWithdraw', eventId(1), 'amount', units(10, 18).toString())
+      assert.fieldEquals('ERC20DexPair', pair, 'baseReserve', '90')
+    })
+  })
+
+  describe('handleFeeUpdated', () => {
+    test('records the old and new fee', () => {
+      createPair(18)
+
+      handleFeeUpdated(createFeeUpdatedEvent(PAIR, 1, BigInt.fromI32(30), BigInt.fromI32(50)))
+
+      assert.fieldEquals('ERC20DexFeeUpdate', eventId(1), 'oldFee', '30')
+      assert.fieldEquals('ERC20DexFeeUpdate', eventId(1), 'newFee', '50')
+    })
+  })
+
+  describe('handleApproval', () => {
+    test('records the allowance of LP tokens', () => {
+      createPair(18)
+
+      handleApproval(createDexApprovalEvent(PAIR, ALICE, BOB, units(3, 18)))
+
+      assert.fieldEquals('ERC20Approval', stakeId(ALICE).concat('/').concat(BOB.toHexString()), 'value', '3')
+    })
+  })
+
+  describe('handlePaused and handleUnpaused', () => {
+    test('toggle the paused flag of the pair', () => {
+      createPair(18)
+
+      handlePaused(createPausedEvent(PAIR, ALICE))
+      assert.fieldEquals('ERC20DexPair', pair, 'paused', 'true')
+      assert.fieldEquals('ERC20DexPaused', eventId(1), 'account', ALICE.toHexString())
+
+      handleUnpaused(createUnpausedEvent(PAIR, ALICE))
+      assert.fieldEquals('ERC20DexPair', pair, 'paused', 'false')
+      assert.entityCount('ERC20DexUnpaused', 1)
+    })
+  })
+
+  describe('role handlers', () => {
+    test('add and remove role members', () => {
+      createPair(18)
+      let role = pair.concat('/').concat(ADMIN_ROLE.toHex())
+      let member = role.concat('/').concat(BOB.toHexString())
+
+      handleRoleGranted(createRoleGrantedEvent(PAIR, ADMIN_ROLE, BOB, ALICE))
+      assert.fieldEquals('ERC20DexRoleMember', member, 'account', BOB.toHexString())
+      assert.fieldEquals('ERC20DexRoleGranted', eventId(1), 'sender', ALICE.toHexString())
+
+      handleRoleRevoked(createRoleRevokedEvent(PAIR, ADMIN_ROLE, BOB, ALICE))
+      assert.notInStore('ERC20DexRoleMember', member)
+      assert.entityCount('ERC20DexRoleRevoked', 1)
+    })
+
+    test('change the admin role of a role', () => {
+      createPair(18)
+      let role = pair.concat('/').concat(FEE_SETTER_ROLE.toHex())
+
+      handleRoleAdminChanged(createRoleAdminChangedEvent(PAIR, FEE_SETTER_ROLE, constants.BYTES32_ZERO, ADMIN_ROLE))
+
+      assert.fieldEquals('ERC20DexRole', role, 'adminRole', pair.concat('/').concat(ADMIN_ROLE.toHex()))
+    })
+  })
+})
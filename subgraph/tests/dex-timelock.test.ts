@@ -0,0 +1,114 @@
+import { BigInt, Bytes, DataSourceContext } from '@graphprotocol/graph-ts';
+import {
+  afterEach,
+  assert,
+  beforeEach,
+  clearStore,
+  dataSourceMock,
+  describe,
+  newMockEvent,
+  test
+} from 'matchstick-as/assembly/index';
+import { ERC20DexTimelockOperation } from '../generated/schema';
+import { handleFeeUpdated } from '../src/datasources/dex-pair';
+import {
+  handleCallExecuted,
+  handleCallSalt,
+  handleCallScheduled,
+  handleCancelled
+} from '../src/datasources/dex-timelock';
+import {
+  createCallExecutedEvent,
+  createCallSaltEvent,
+  createCallScheduledEvent,
+  createCancelledEvent,
+  createFeeUpdatedEvent
+} from './events';
+import { ALICE, mockDex, PAIR, TIMELOCK } from './utils';
+
+let OPERATION = Bytes.fromHexString('0x1111111111111111111111111111111111111111111111111111111111111111')
+let SALT = Bytes.fromHexString('0x2222222222222222222222222222222222222222222222222222222222222222')
+let DELAY = BigInt.fromI32(3600)
+// setFee(50)
+let SET_FEE = Bytes.fromHexString('0x69fe0e2d0000000000000000000000000000000000000000000000000000000000000032')
+
+let operation = OPERATION.toHexString()
+
+function eventId(logIndex: i32): string {
+  return newMockEvent().transaction.hash.toHexString() + '-' + logIndex.toString()
+}
+
+describe('TimelockController', () => {
+  beforeEach(() => {
+    let context = new DataSourceContext()
+    context.setBytes('pair', PAIR)
+    dataSourceMock.setReturnValues(TIMELOCK.toHexString(), 'settlemint', context)
+  })
+
+  afterEach(() => {
+    clearStore()
+    dataSourceMock.resetValues()
+  })
+
+  describe('handleCallScheduled', () => {
+    test('records a pending fee change of the pair', () => {
+      let event = createCallScheduledEvent(TIMELOCK, 1, OPERATION, 0, PAIR, SET_FEE, DELAY)
+      handleCallScheduled(event)
+      handleCallSalt(createCallSaltEvent(TIMELOCK, 2, OPERATION, SALT))
+
+      assert.fieldEquals('ERC20DexTimelockOperation', operation, 'pair', PAIR.toHexString())
+      assert.fieldEquals('ERC20DexTimelockOperation', operation, 'status', 'PENDING')
+      assert.fieldEquals('ERC20DexTimelockOperation', operation, 'newFee', '50')
+      assert.fieldEquals('ERC20DexTimelockOperation', operation, 'salt', SALT.toHexString())
+      let readyAt = event.block.timestamp.plus(DELAY)
+      assert.fieldEquals('ERC20DexTimelockOperation', operation, 'readyAt', readyAt.toString())
+      assert.fieldEquals('ERC20DexTimelockCallScheduled', eventId(1), 'operation', operation)
+    })
+
+    test('leaves the fee empty for other calls', () => {
+      handleCallScheduled(createCallScheduledEvent(TIMELOCK, 1, OPERATION, 0, ALICE, SET_FEE, DELAY))
+
+      assert.assertTrue(ERC20DexTimelockOperation.load(OPERATION)!.newFee === null)
+    })
+
+    test('records a batch once, with its first call', () => {
+      handleCallScheduled(createCallScheduledEvent(TIMELOCK, 1, OPERATION, 0, PAIR, SET_FEE, DELAY))
+      handleCallScheduled(createCallScheduledEvent(TIMELOCK, 2, OPERATION, 1, ALICE, Bytes.empty(), DELAY))
+
+      assert.entityCount('ERC20DexTimelockOperation', 1)
+      assert.fieldEquals('ERC20DexTimelockOperation', operation, 'target', PAIR.toHexString())
+      assert.entityCount('ERC20DexTimelockCallScheduled', 2)
+    })
+  })
+
+  describe('handleCallExecuted', () => {
+    test('links the fee update the call emitted right before', () => {
+      mockDex(18, BigInt.zero(), BigInt.zero(), BigInt.zero())
+      handleCallScheduled(createCallScheduledEvent(TIMELOCK, 1, OPERATION, 0, PAIR, SET_FEE, DELAY))
+
+      handleFeeUpdated(createFeeUpdatedEvent(PAIR, 2, BigInt.fromI32(30), BigInt.fromI32(50)))
+      handleCallExecuted(createCallExecutedEvent(TIMELOCK, 3, OPERATION, PAIR, SET_FEE))
+
+      assert.fieldEquals('ERC20DexTimelockOperation', operation, 'status', 'EXECUTED')
+      assert.fieldEquals('ERC20DexTimelockOperation', operation, 'feeUpdate', eventId(2))
+      assert.fieldEquals('ERC20DexTimelockCallExecuted', eventId(3), 'operation', operation)
+    })
+
+    test('ignores operations scheduled before indexing started', () => {
+      handleCallExecuted(createCallExecutedEvent(TIMELOCK, 1, OPERATION, PAIR, SET_FEE))
+
+      assert.entityCount('ERC20DexTimelockOperation', 0)
+      assert.entityCount('ERC20DexTimelockCallExecuted', 0)
+    })
+  })
+
+  describe('handleCancelled', () => {
+    test('cancels a pending operation', () => {
+      handleCallScheduled(createCallScheduledEvent(TIMELOCK, 1, OPERATION, 0, PAIR, SET_FEE, DELAY))
+      handleCancelled(createCancelledEvent(TIMELOCK, 2, OPERATION))
+
+      assert.fieldEquals('ERC20DexTimelockOperation', operation, 'status', 'CANCELLED')
+      assert.fieldEquals('ERC20DexTimelockCancelled', eventId(2), 'operation', operation)
+    })
+  })
+})
@@ -0,0 +1,67 @@
+import { afterEach, assert, beforeEach, clearStore, describe, test } from 'matchstick-as/assembly/index';
+import { ERC20TokenMetadata } from '../generated/schema';
+import { handleTokenAdded } from '../src/datasources/erc20-registry';
+import { createTokenAddedEvent } from './events';
+import { ALICE, mockERC20, REGISTRY, TOKEN, TOKEN_FACTORY } from './utils';
+
+let token = TOKEN.toHexString()
+
+describe('handleTokenAdded', () => {
+  beforeEach(() => {
+    mockERC20(TOKEN, 'Example Token', 'EXT', 18, ALICE)
+  })
+
+  afterEach(() => {
+    clearStore()
+  })
+
+  test('indexes the token and starts its template', () => {
+    handleTokenAdded(
+      createTokenAddedEvent(REGISTRY, TOKEN, 'Example Token', 'EXT', 'This is an example token', TOKEN_FACTORY)
+    )
+
+    assert.fieldEquals('ERC20Contract', token, 'symbol', 'EXT')
+    assert.fieldEquals('ERC20Contract', token, 'factory', TOKEN_FACTORY.toHexString())
+    assert.fieldEquals('ERC20Contract', token, 'extraData', 'This is an example token')
+    assert.dataSourceCount('token', 1)
+    assert.dataSourceExists('token', token)
+  })
+
+  test('keeps plain text extraData as the description', () => {
+    handleTokenAdded(
+      createTokenAddedEvent(REGISTRY, TOKEN, 'Example Token', 'EXT', 'This is an example token', TOKEN_FACTORY)
+    )
+
+    assert.fieldEquals('ERC20TokenMetadata', token, 'isJson', 'false')
+    assert.fieldEquals('ERC20TokenMetadata', token, 'description', 'This is an example token')
+    assert.fieldEquals('ERC20Contract', token, 'description', 'This is an example token')
+  })
+
+  test('parses JSON extraData into metadata and attributes', () => {
+    let extraData = '{"description":"A token","logo":"ipfs://logo","url":"https://example.com",'
+      + '"tags":["stable",1,"usd"],"audited":true,"supply":1000,"cap":123456789012345678901234,"rate":1.5,'
+      + '"nested":{"a":1}}'
+
+    handleTokenAdded(createTokenAddedEvent(REGISTRY, TOKEN, 'Example Token', 'EXT', extraData, TOKEN_FACTORY))
+
+    assert.fieldEquals('ERC20TokenMetadata', token, 'isJson', 'true')
+    assert.fieldEquals('ERC20TokenMetadata', token, 'description', 'A token')
+    assert.fieldEquals('ERC20TokenMetadata', token, 'logoURI', 'ipfs://logo')
+    assert.fieldEquals('ERC20TokenMetadata', token, 'website', 'https://example.com')
+    assert.fieldEquals('ERC20TokenMetadata', token, 'tags', '[stable, usd]')
+    assert.fieldEquals('ERC20TokenMetadataAttribute', token.concat('/audited'), 'value', 'true')
+    assert.fieldEquals('ERC20TokenMetadataAttribute', token.concat('/supply'), 'value', '1000')
+    // Integers keep every digit past the precision of a f64, fractions are written as a f64
+    assert.fieldEquals('ERC20TokenMetadataAttribute', token.concat('/cap'), 'value', '123456789012345678901234')
+    assert.fieldEquals('ERC20TokenMetadataAttribute', token.concat('/rate'), 'value', '1.5')
+    assert.notInStore('ERC20TokenMetadataAttribute', token.concat('/nested'))
+    assert.entityCount('ERC20TokenMetadataAttribute', 4)
+  })
+
+  test('leaves the description empty without extraData', () => {
+    handleTokenAdded(createTokenAddedEvent(REGISTRY, TOKEN, 'Example Token', 'EXT', '', TOKEN_FACTORY))
+
+    assert.fieldEquals('ERC20TokenMetadata', token, 'isJson', 'false')
+    assert.assertNull(ERC20TokenMetadata.load(TOKEN)!.description)
+  })
+})
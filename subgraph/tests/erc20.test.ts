@@ -0,0 +1,150 @@
+import { constants } from '@amxx/graphprotocol-utils';
+import { BigInt, ethereum } from '@graphprotocol/graph-ts';
+import { afterEach, assert, beforeEach, clearStore, createMockedFunction, describe, test } from 'matchstick-as/assembly/index';
+import { ERC20Approval, ERC20Contract } from '../generated/schema';
+import { handleApproval, handleOwnershipTransferred, handleTransfer } from '../src/datasources/erc20';
+import {
+  createApprovalEvent,
+  createOwnershipTransferredEvent,
+  createPermitApprovalEvent,
+  createTransferEvent
+} from './events';
+import { ALICE, BOB, mockERC20, mockERC20Reverted, TOKEN, units } from './utils';
+
+let token = TOKEN.toHexString()
+
+function balanceId(account: string): string {
+  return token.concat('/').concat(account)
+}
+
+let approvalId = token.concat('/').concat(ALICE.toHexString()).concat('/').concat(BOB.toHexString())
+
+describe('token', () => {
+  beforeEach(() => {
+    mockERC20(TOKEN, 'Example Token', 'EXT', 18, ALICE)
+  })
+
+  afterEach(() => {
+    clearStore()
+  })
+
+  describe('handleTransfer', () => {
+    test('mints tokens to an account', () => {
+      handleTransfer(createTransferEvent(TOKEN, 1, constants.ADDRESS_ZERO, ALICE, units(100, 18)))
+
+      assert.fieldEquals('ERC20Contract', token, 'name', 'Example Token')
+      assert.fieldEquals('ERC20Contract', token, 'owner', ALICE.toHexString())
+      assert.fieldEquals('ERC20Contract', token, 'totalSupply', '100')
+      assert.fieldEquals('ERC20Contract', token, 'holderCount', '1')
+      assert.fieldEquals('ERC20Balance', balanceId(ALICE.toHexString()), 'value', '100')
+      assert.entityCount('ERC20Mint', 1)
+      assert.entityCount('ERC20Burn', 0)
+    })
+
+    test('moves balances and drops holders whose balance reaches zero', () => {
+      handleTransfer(createTransferEvent(TOKEN, 1, constants.ADDRESS_ZERO, ALICE, units(100, 18)))
+      handleTransfer(createTransferEvent(TOKEN, 2, ALICE, BOB, units(40, 18)))
+
+      assert.fieldEquals('ERC20Contract', token, 'holderCount', '2')
+      assert.fieldEquals('ERC20Balance', balanceId(ALICE.toHexString()), 'value', '60')
+      assert.fieldEquals('ERC20Balance', balanceId(BOB.toHexString()), 'value', '40')
+
+      handleTransfer(createTransferEvent(TOKEN, 3, ALICE, BOB, units(60, 18)))
+
+      assert.fieldEquals('ERC20Contract', token, 'holderCount', '1')
+      assert.fieldEquals('ERC20Balance', balanceId(ALICE.toHexString()), 'valueExact', '0')
+      assert.fieldEquals('ERC20Contract', token, 'totalSupply', '100')
+      assert.entityCount('ERC20Transfer', 3)
+    })
+
+    test('burns tokens from an account', () => {
+      handleTransfer(createTransferEvent(TOKEN, 1, constants.ADDRESS_ZERO, ALICE, units(100, 18)))
+      handleTransfer(createTransferEvent(TOKEN, 2, ALICE, constants.ADDRESS_ZERO, units(25, 18)))
+
+      assert.fieldEquals('ERC20Contract', token, 'totalSupply', '75')
+      assert.fieldEquals('ERC20Balance', balanceId(ALICE.toHexString()), 'value', '75')
+      assert.entityCount('ERC20Burn', 1)
+    })
+
+    test('converts values with the decimals of the token', () => {
+      mockERC20(TOKEN, 'USD Coin', 'USDC', 6, ALICE)
+
+      handleTransfer(createTransferEvent(TOKEN, 1, constants.ADDRESS_ZERO, ALICE, BigInt.fromI32(1500000)))
+
+      assert.fieldEquals('ERC20Contract', token, 'decimals', '6')
+      assert.fieldEquals('ERC20Contract', token, 'totalSupply', '1.5')
+      assert.fieldEquals('ERC20Balance', balanceId(ALICE.toHexString()), 'value', '1.5')
+      assert.fieldEquals('ERC20Balance', balanceId(ALICE.toHexString()), 'valueExact', '1500000')
+    })
+
+    test('falls back to defaults when the calls to the token revert', () => {
+      mockERC20Reverted(TOKEN)
+
+      handleTransfer(createTransferEvent(TOKEN, 1, constants.ADDRESS_ZERO, ALICE, units(1, 18)))
+
+      assert.fieldEquals('ERC20Contract', token, 'name', '')
+      assert.fieldEquals('ERC20Contract', token, 'symbol', '')
+      assert.fieldEquals('ERC20Contract', token, 'decimals', '18')
+      assert.assertTrue(ERC20Contract.load(TOKEN)!.owner === null)
+      assert.fieldEquals('ERC20Balance', balanceId(ALICE.toHexString()), 'value', '1')
+    })
+  })
+
+  describe('handleApproval', () => {
+    test('records the allowance of a spender', () => {
+      handleApproval(createApprovalEvent(TOKEN, ALICE, BOB, units(5, 18)))
+
+      assert.fieldEquals('ERC20Approval', approvalId, 'value', '5')
+      assert.fieldEquals('ERC20Approval', approvalId, 'valueExact', units(5, 18).toString())
+      assert.fieldEquals('ERC20Approval', approvalId, 'viaPermit', 'false')
+      assert.entityCount('ERC20Permit', 0)
+    })
+
+    test('records an allowance set by a permit', () => {
+      let deadline = BigInt.fromI32(1700000000)
+      let event = createPermitApprovalEvent(TOKEN, ALICE, BOB, units(5, 18), deadline)
+      handleApproval(event)
+
+      assert.fieldEquals('ERC20Approval', approvalId, 'value', '5')
+      assert.fieldEquals('ERC20Approval', approvalId, 'viaPermit', 'true')
+      assert.fieldEquals('ERC20Approval', approvalId, 'permitDeadline', deadline.toString())
+      assert.entityCount('ERC20Permit', 1)
+
+      // Approving afterwards replaces the permit
+      handleApproval(createApprovalEvent(TOKEN, ALICE, BOB, units(1, 18)))
+
+      assert.fieldEquals('ERC20Approval', approvalId, 'viaPermit', 'false')
+      assert.assertTrue(ERC20Approval.load(approvalId)!.permitDeadline === null)
+      assert.entityCount('ERC20Permit', 1)
+    })
+
+    test('reads the allowance again once a transfer spent it', () => {
+      handleTransfer(createTransferEvent(TOKEN, 1, constants.ADDRESS_ZERO, ALICE, units(10, 18)))
+      handleApproval(createPermitApprovalEvent(TOKEN, ALICE, BOB, units(5, 18), BigInt.fromI32(1700000000)))
+      createMockedFunction(TOKEN, 'allowance', 'allowance(address,address):(uint256)')
+        .withArgs([ethereum.Value.fromAddress(ALICE), ethereum.Value.fromAddress(BOB)])
+        .returns([ethereum.Value.fromUnsignedBigInt(units(2, 18))])
+
+      // The spender pulls tokens to itself, like a pair adding liquidity
+      handleTransfer(createTransferEvent(TOKEN, 2, ALICE, BOB, units(3, 18)))
+
+      assert.fieldEquals('ERC20Approval', approvalId, 'value', '2')
+      assert.fieldEquals('ERC20Approval', approvalId, 'viaPermit', 'true')
+    })
+  })
+
+  describe('handleOwnershipTransferred', () => {
+    test('moves the token to its new owner', () => {
+      handleOwnershipTransferred(createOwnershipTransferredEvent(TOKEN, ALICE, BOB))
+
+      assert.fieldEquals('ERC20Contract', token, 'owner', BOB.toHexString())
+      assert.entityCount('ERC20OwnershipTransferred', 1)
+    })
+
+    test('leaves a renounced token without owner', () => {
+      handleOwnershipTransferred(createOwnershipTransferredEvent(TOKEN, ALICE, constants.ADDRESS_ZERO))
+
+      assert.assertTrue(ERC20Contract.load(TOKEN)!.owner === null)
+    })
+  })
+})
@@ -0,0 +1,322 @@
+import { constants } from '@amxx/graphprotocol-utils';
+import { Address, BigInt, ByteArray, Bytes, crypto, ethereum } from '@graphprotocol/graph-ts';
+import { newMockEvent } from 'matchstick-as/assembly/index';
+import { PairCreated } from '../generated/StarterKitERC20DexFactory/StarterKitERC20DexFactory';
+import {
+  Approval as DexApproval,
+  Burn,
+  EmergencyWithdraw,
+  FeeUpdated,
+  Mint,
+  Paused,
+  RoleAdminChanged,
+  RoleGranted,
+  RoleRevoked,
+  Swap,
+  Transfer as DexTransfer,
+  Unpaused
+} from '../generated/templates/StarterKitERC20Dex/StarterKitERC20Dex';
+import {
+  CallExecuted,
+  CallSalt,
+  CallScheduled,
+  Cancelled
+} from '../generated/templates/TimelockController/TimelockController';
+import { Approval, OwnershipTransferred, Transfer } from '../generated/templates/token/StarterKitERC20';
+import { TokenAdded } from '../generated/tokenregistry/StarterKitERC20Registry';
+import { ADMIN_ROLE, DEFAULT_ADMIN_ROLE, FEE_SETTER_ROLE } from '../src/fetch/dex';
+
+// Events of one test share the transaction of newMockEvent, the log index tells them apart like it does on chain
+function newEvent<T extends ethereum.Event>(address: Address, logIndex: i32, parameters: ethereum.EventParam[]): T {
+  let event = changetype<T>(newMockEvent())
+  event.address = address
+  event.logIndex = BigInt.fromI32(logIndex)
+  event.parameters = parameters
+  return event
+}
+
+function addressParam(name: string, value: Address): ethereum.EventParam {
+  return new ethereum.EventParam(name, ethereum.Value.fromAddress(value))
+}
+
+function uintParam(name: string, value: BigInt): ethereum.EventParam {
+  return new ethereum.EventParam(name, ethereum.Value.fromUnsignedBigInt(value))
+}
+
+function bytes32Param(name: string, value: Bytes): ethereum.EventParam {
+  return new ethereum.EventParam(name, ethereum.Value.fromFixedBytes(value))
+}
+
+export function createTokenAddedEvent(
+  registry: Address,
+  token: Address,
+  name: string,
+  symbol: string,
+  extraData: string,
+  factory: Address
+): TokenAdded {
+  return newEvent<TokenAdded>(registry, 1, [
+    addressParam('tokenAddress', token),
+    new ethereum.EventParam('name', ethereum.Value.fromString(name)),
+    new ethereum.EventParam('symbol', ethereum.Value.fromString(symbol)),
+    new ethereum.EventParam('extraData', ethereum.Value.fromString(extraData)),
+    addressParam('factoryAddress', factory)
+  ])
+}
+
+export function createTransferEvent(
+  token: Address,
+  logIndex: i32,
+  from: Address,
+  to: Address,
+  value: BigInt
+): Transfer {
+  return newEvent<Transfer>(token, logIndex, [
+    addressParam('from', from),
+    addressParam('to', to),
+    uintParam('value', value)
+  ])
+}
+
+export function createApprovalEvent(token: Address, owner: Address, spender: Address, value: BigInt): Approval {
+  return newEvent<Approval>(token, 1, [
+    addressParam('owner', owner),
+    addressParam('spender', spender),
+    uintParam('value', value)
+  ])
+}
+
+// An approval emitted by a permit the transaction submitted to the token directly, as a relayer would
+export function createPermitApprovalEvent(
+  token: Address,
+  owner: Address,
+  spender: Address,
+  value: BigInt,
+  deadline: BigInt
+): Approval {
+  let event = createApprovalEvent(token, owner, spender, value)
+  let args = new ethereum.Tuple()
+  args.push(ethereum.Value.fromAddress(owner))
+  args.push(ethereum.Value.fromAddress(spender))
+  args.push(ethereum.Value.fromUnsignedBigInt(value))
+  args.push(ethereum.Value.fromUnsignedBigInt(deadline))
+  args.push(ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(27)))
+  args.push(ethereum.Value.fromFixedBytes(Bytes.fromHexString('0x'.concat('11'.repeat(32)))))
+  args.push(ethereum.Value.fromFixedBytes(Bytes.fromHexString('0x'.concat('22'.repeat(32)))))
+  event.transaction.to = token
+  event.transaction.input = Bytes.fromHexString('0xd505accf').concat(ethereum.encode(ethereum.Value.fromTuple(args))!)
+  return event
+}
+
+export function createOwnershipTransferredEvent(
+  token: Address,
+  previousOwner: Address,
+  newOwner: Address
+): OwnershipTransferred {
+  return newEvent<OwnershipTransferred>(token, 1, [
+    addressParam('previousOwner', previousOwner),
+    addressParam('newOwner', newOwner)
+  ])
+}
+
+export function createPairCreatedEvent(
+  factory: Address,
+  baseToken: Address,
+  quoteToken: Address,
+  pair: Address,
+  pairCount: i32,
+  creator: Address
+): PairCreated {
+  let event = newEvent<PairCreated>(factory, 1, [
+    addressParam('baseToken', baseToken),
+    addressParam('quoteToken', quoteToken),
+    addressParam('pair', pair),
+    uintParam('pairCount', BigInt.fromI32(pairCount))
+  ])
+  // The constructor of the pair grants its roles to the caller of the factory, logged before PairCreated
+  let roles = [DEFAULT_ADMIN_ROLE, ADMIN_ROLE, FEE_SETTER_ROLE]
+  let logs: ethereum.Log[] = []
+  for (let i = 0; i < roles.length; i++) {
+    logs.push(roleGrantedLog(pair, roles[i], creator, factory, i))
+  }
+  event.receipt!.logs = logs
+  return event
+}
+
+function roleGrantedLog(pair: Address, role: Bytes, account: Address, sender: Address, logIndex: i32): ethereum.Log {
+  let signature = Bytes.fromByteArray(crypto.keccak256(ByteArray.fromUTF8('RoleGranted(bytes32,address,address)')))
+  let log = changetype<ethereum.Log>(newMockEvent().receipt!.logs[0])
+  log.address = pair
+  log.topics = [signature, role, addressTopic(account), addressTopic(sender)]
+  log.data = Bytes.empty()
+  log.logIndex = BigInt.fromI32(logIndex)
+  return log
+}
+
+function addressTopic(address: Address): Bytes {
+  return Bytes.fromHexString('0x000000000000000000000000'.concat(address.toHexString().slice(2)))
+}
+
+export function createMintEvent(
+  pair: Address,
+  logIndex: i32,
+  sender: Address,
+  baseAmount: BigInt,
+  quoteAmount: BigInt,
+  liquidity: BigInt
+): Mint {
+  return newEvent<Mint>(pair, logIndex, [
+    addressParam('sender', sender),
+    uintParam('baseAmount', baseAmount),
+    uintParam('quoteAmount', quoteAmount),
+    uintParam('liquidity', liquidity)
+  ])
+}
+
+export function createBurnEvent(
+  pair: Address,
+  logIndex: i32,
+  sender: Address,
+  baseAmount: BigInt,
+  quoteAmount: BigInt,
+  to: Address,
+  liquidity: BigInt
+): Burn {
+  return newEvent<Burn>(pair, logIndex, [
+    addressParam('sender', sender),
+    uintParam('baseAmount', baseAmount),
+    uintParam('quoteAmount', quoteAmount),
+    addressParam('to', to),
+    uintParam('liquidity', liquidity)
+  ])
+}
+
+export function createSwapEvent(
+  pair: Address,
+  logIndex: i32,
+  sender: Address,
+  baseAmountIn: BigInt,
+  quoteAmountIn: BigInt,
+  baseAmountOut: BigInt,
+  quoteAmountOut: BigInt
+): Swap {
+  return newEvent<Swap>(pair, logIndex, [
+    addressParam('sender', sender),
+    uintParam('baseAmountIn', baseAmountIn),
+    uintParam('quoteAmountIn', quoteAmountIn),
+    uintParam('baseAmountOut', baseAmountOut),
+    uintParam('quoteAmountOut', quoteAmountOut),
+    addressParam('to', sender)
+  ])
+}
+
+export function createEmergencyWithdrawEvent(pair: Address, token: Address, amount: BigInt): EmergencyWithdraw {
+  return newEvent<EmergencyWithdraw>(pair, 1, [addressParam('token', token), uintParam('amount', amount)])
+}
+
+export function createFeeUpdatedEvent(pair: Address, logIndex: i32, oldFee: BigInt, newFee: BigInt): FeeUpdated {
+  return newEvent<FeeUpdated>(pair, logIndex, [uintParam('oldFee', oldFee), uintParam('newFee', newFee)])
+}
+
+export function createDexTransferEvent(
+  pair: Address,
+  logIndex: i32,
+  from: Address,
+  to: Address,
+  value: BigInt
+): DexTransfer {
+  return newEvent<DexTransfer>(pair, logIndex, [
+    addressParam('from', from),
+    addressParam('to', to),
+    uintParam('value', value)
+  ])
+}
+
+export function createDexApprovalEvent(pair: Address, owner: Address, spender: Address, value: BigInt): DexApproval {
+  return newEvent<DexApproval>(pair, 1, [
+    addressParam('owner', owner),
+    addressParam('spender', spender),
+    uintParam('value', value)
+  ])
+}
+
+export function createPausedEvent(pair: Address, account: Address): Paused {
+  return newEvent<Paused>(pair, 1, [addressParam('account', account)])
+}
+
+export function createUnpausedEvent(pair: Address, account: Address): Unpaused {
+  return newEvent<Unpaused>(pair, 2, [addressParam('account', account)])
+}
+
+export function createRoleGrantedEvent(pair: Address, role: Bytes, account: Address, sender: Address): RoleGranted {
+  return newEvent<RoleGranted>(pair, 1, [
+    bytes32Param('role', role),
+    addressParam('account', account),
+    addressParam('sender', sender)
+  ])
+}
+
+export function createRoleRevokedEvent(pair: Address, role: Bytes, account: Address, sender: Address): RoleRevoked {
+  return newEvent<RoleRevoked>(pair, 2, [
+    bytes32Param('role', role),
+    addressParam('account', account),
+    addressParam('sender', sender)
+  ])
+}
+
+export function createRoleAdminChangedEvent(
+  pair: Address,
+  role: Bytes,
+  previousAdminRole: Bytes,
+  newAdminRole: Bytes
+): RoleAdminChanged {
+  return newEvent<RoleAdminChanged>(pair, 1, [
+    bytes32Param('role', role),
+    bytes32Param('previousAdminRole', previousAdminRole),
+    bytes32Param('newAdminRole', newAdminRole)
+  ])
+}
+
+export function createCallScheduledEvent(
+  timelock: Address,
+  logIndex: i32,
+  id: Bytes,
+  index: i32,
+  target: Address,
+  data: Bytes,
+  delay: BigInt
+): CallScheduled {
+  return newEvent<CallScheduled>(timelock, logIndex, [
+    bytes32Param('id', id),
+    uintParam('index', BigInt.fromI32(index)),
+    addressParam('target', target),
+    uintParam('value', BigInt.zero()),
+    new ethereum.EventParam('data', ethereum.Value.fromBytes(data)),
+    bytes32Param('predecessor', constants.BYTES32_ZERO),
+    uintParam('delay', delay)
+  ])
+}
+
+export function createCallSaltEvent(timelock: Address, logIndex: i32, id: Bytes, salt: Bytes): CallSalt {
+  return newEvent<CallSalt>(timelock, logIndex, [bytes32Param('id', id), bytes32Param('salt', salt)])
+}
+
+export function createCallExecutedEvent(
+  timelock: Address,
+  logIndex: i32,
+  id: Bytes,
+  target: Address,
+  data: Bytes
+): CallExecuted {
+  return newEvent<CallExecuted>(timelock, logIndex, [
+    bytes32Param('id', id),
+    uintParam('index', BigInt.zero()),
+    addressParam('target', target),
+    uintParam('value', BigInt.zero()),
+    new ethereum.EventParam('data', ethereum.Value.fromBytes(data))
+  ])
+}
+
+export function createCancelledEvent(timelock: Address, logIndex: i32, id: Bytes): Cancelled {
+  return newEvent<Cancelled>(timelock, logIndex, [bytes32Param('id', id)])
+}
@@ -0,0 +1,93 @@
+import { Address, BigInt, ethereum } from '@graphprotocol/graph-ts';
+import { createMockedFunction } from 'matchstick-as/assembly/index';
+
+export const FACTORY = Address.fromString('0x5e771e1417100000000000000000000000000003')
+export const REGISTRY = Address.fromString('0x5e771e1417100000000000000000000000000001')
+export const TOKEN_FACTORY = Address.fromString('0x5e771e1417100000000000000000000000000002')
+export const PAIR = Address.fromString('0x00000000000000000000000000000000000000d1')
+export const TIMELOCK = Address.fromString('0x00000000000000000000000000000000000000d2')
+export const BASE_TOKEN = Address.fromString('0x00000000000000000000000000000000000000b1')
+export const QUOTE_TOKEN = Address.fromString('0x00000000000000000000000000000000000000c1')
+export const TOKEN = Address.fromString('0x00000000000000000000000000000000000000e1')
+export const ALICE = Address.fromString('0x00000000000000000000000000000000000a11ce')
+export const BOB = Address.fromString('0x0000000000000000000000000000000000000b0b')
+
+export const SWAP_FEE = BigInt.fromI32(30)
+export const MINIMUM_LIQUIDITY = BigInt.fromI32(1000)
+
+// An amount of whole tokens in the smallest unit of a token with the given decimals
+export function units(amount: i32, decimals: i32): BigInt {
+  return BigInt.fromI32(amount).times(BigInt.fromI32(10).pow(decimals as u8))
+}
+
+// The calls fetchERC20 makes. A null owner makes owner() revert, like it does for the LP token of a pair.
+export function mockERC20(address: Address, name: string, symbol: string, decimals: i32, owner: Address | null): void {
+  createMockedFunction(address, 'name', 'name():(string)').returns([ethereum.Value.fromString(name)])
+  createMockedFunction(address, 'symbol', 'symbol():(string)').returns([ethereum.Value.fromString(symbol)])
+  createMockedFunction(address, 'decimals', 'decimals():(uint8)').returns([ethereum.Value.fromI32(decimals)])
+  if (owner === null) {
+    createMockedFunction(address, 'owner', 'owner():(address)').reverts()
+  } else {
+    createMockedFunction(address, 'owner', 'owner():(address)').returns([ethereum.Value.fromAddress(owner)])
+  }
+}
+
+// A token whose calls all revert, which fetchERC20 indexes with its defaults
+export function mockERC20Reverted(address: Address): void {
+  createMockedFunction(address, 'name', 'name():(string)').reverts()
+  createMockedFunction(address, 'symbol', 'symbol():(string)').reverts()
+  createMockedFunction(address, 'decimals', 'decimals():(uint8)').reverts()
+  createMockedFunction(address, 'owner', 'owner():(address)').reverts()
+}
+
+// The calls fetchDex makes on PAIR, which trades BASE_TOKEN for QUOTE_TOKEN. Mock it again after every event that
+// moves the reserves or the LP supply, like the contract would answer at the block of the next event.
+export function mockDex(tokenDecimals: i32, baseReserve: BigInt, quoteReserve: BigInt, totalSupply: BigInt): void {
+  mockERC20(PAIR, 'StarterKit DEX Pair', 'SKDEX', 18, null)
+  mockERC20(BASE_TOKEN, 'Base Token', 'BASE', tokenDecimals, ALICE)
+  mockERC20(QUOTE_TOKEN, 'Quote Token', 'QUOTE', tokenDecimals, ALICE)
+
+  createMockedFunction(PAIR, 'paused', 'paused():(bool)').returns([ethereum.Value.fromBoolean(false)])
+  createMockedFunction(PAIR, 'timelock', 'timelock():(address)').returns([ethereum.Value.fromAddress(TIMELOCK)])
+  createMockedFunction(PAIR, 'baseToken', 'baseToken():(address)').returns([ethereum.Value.fromAddress(BASE_TOKEN)])
+  createMockedFunction(PAIR, 'quoteToken', 'quoteToken():(address)').returns([
+    ethereum.Value.fromAddress(QUOTE_TOKEN)
+  ])
+  createMockedFunction(PAIR, 'swapFee', 'swapFee():(uint256)').returns([ethereum.Value.fromUnsignedBigInt(SWAP_FEE)])
+  createMockedFunction(PAIR, 'totalSupply', 'totalSupply():(uint256)').returns([
+    ethereum.Value.fromUnsignedBigInt(totalSupply)
+  ])
+  createMockedFunction(PAIR, 'getBaseTokenBalance', 'getBaseTokenBalance():(uint256)').returns([
+    ethereum.Value.fromUnsignedBigInt(baseReserve)
+  ])
+  createMockedFunction(PAIR, 'getQuoteTokenBalance', 'getQuoteTokenBalance():(uint256)').returns([
+    ethereum.Value.fromUnsignedBigInt(quoteReserve)
+  ])
+
+  // Without reserves the price functions revert with InvalidReserves
+  let oneToken = units(1, tokenDecimals)
+  let baseTokenPrice = createMockedFunction(PAIR, 'getQuoteToBasePrice', 'getQuoteToBasePrice(uint256):(uint256)')
+    .withArgs([ethereum.Value.fromUnsignedBigInt(oneToken)])
+  let quoteTokenPrice = createMockedFunction(PAIR, 'getBaseToQuotePrice', 'getBaseToQuotePrice(uint256):(uint256)')
+    .withArgs([ethereum.Value.fromUnsignedBigInt(oneToken)])
+  if (baseReserve.isZero() || quoteReserve.isZero()) {
+    baseTokenPrice.reverts()
+    quoteTokenPrice.reverts()
+  } else {
+    baseTokenPrice.returns([ethereum.Value.fromUnsignedBigInt(amountOut(oneToken, quoteReserve, baseReserve))])
+    quoteTokenPrice.returns([ethereum.Value.fromUnsignedBigInt(amountOut(oneToken, baseReserve, quoteReserve))])
+  }
+}
+
+// The call fetchDexFactory makes
+export function mockDexFactory(pairCount: i32): void {
+  createMockedFunction(FACTORY, 'allPairsLength', 'allPairsLength():(uint256)').returns([
+    ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(pairCount))
+  ])
+}
+
+// StarterKitERC20Dex.getAmountOfTokens
+export function amountOut(amountIn: BigInt, inputReserve: BigInt, outputReserve: BigInt): BigInt {
+  let amountInWithFee = amountIn.times(BigInt.fromI32(10000).minus(SWAP_FEE))
+  return amountInWithFee.times(outputReserve).div(inputReserve.times(BigInt.fromI32(10000)).plus(amountInWithFee))
+}
@@ -0,0 +1,185 @@
+import { task, types } from "hardhat/config";
+import { formatUnits, parseEventLogs, parseUnits } from "viem";
+import { operationsContext } from "../scripts/operations/context";
+import { formatAmount, formatFee } from "../scripts/operations/format";
+import {
+  applySlippage,
+  blockDeadline,
+  expectedQuoteAmount,
+  maxSwapAmount,
+  quoteAddLiquidity,
+  quoteBaseToQuote,
+  quoteQuoteToBase,
+  quoteRemoveLiquidity,
+  starterKitERC20DexAbi,
+} from "../sdk";
+
+interface PairArgs {
+  pair: string;
+  deploymentId?: string;
+}
+
+type Side = "base" | "quote";
+
+task("dex:create-pair", "Creates the DEX pair of two tokens")
+  .addParam("base", "Symbol or address of the first token")
+  .addParam("quote", "Symbol or address of the second token")
+  .addOptionalParam("deploymentId", "Ignition deployment id, defaults to the one of the selected network")
+  .setAction(async (args: { base: string; quote: string; deploymentId?: string }, hre) => {
+    const context = await operationsContext(hre, args.deploymentId);
+    const { pairAddress, hash } = await context.dexFactory.createPair(
+      await context.resolveToken(args.base),
+      await context.resolveToken(args.quote),
+    );
+
+    // The factory orders the tokens by address, so the base token is not necessarily the first one
+    const { base, quote } = await context.describePair(pairAddress);
+    console.log(`Pair ${base.symbol}/${quote.symbol} created at ${pairAddress} in ${hash}`);
+  });
+
+task("dex:add-liquidity", "Adds liquidity to a pair, approving both tokens when needed")
+  .addParam("pair", "Address of the pair, or <base>/<quote> token symbols")
+  .addParam("baseAmount", "Amount of base tokens, in token units")
+  .addOptionalParam("quoteAmount", "Amount of quote tokens, defaults to the amount matching the pool ratio")
+  .addOptionalParam("deploymentId", "Ignition deployment id, defaults to the one of the selected network")
+  .setAction(async (args: PairArgs & { baseAmount: string; quoteAmount?: string }, hre) => {
+    const context = await operationsContext(hre, args.deploymentId);
+    const pair = context.dex(await context.resolvePair(args.pair));
+    const { state, base, quote } = await context.describePair(pair.address);
+
+    const baseAmount = parseUnits(args.baseAmount, base.decimals);
+    let quoteAmount: bigint;
+    if (args.quoteAmount !== undefined) {
+      quoteAmount = parseUnits(args.quoteAmount, quote.decimals);
+    } else if (state.baseReserve === 0n && state.quoteReserve === 0n) {
+      throw new Error("The pair has no liquidity yet, pass --quote-amount to set the initial price");
+    } else {
+      quoteAmount = expectedQuoteAmount(state, baseAmount).expected;
+    }
+
+    // Fails before approving anything when the pair would reject the amounts
+    quoteAddLiquidity(state, baseAmount, quoteAmount);
+    await context.token(state.baseToken).ensureAllowance(pair.address, baseAmount);
+    await context.token(state.quoteToken).ensureAllowance(pair.address, quoteAmount);
+
+    const { receipt, hash } = await pair.addLiquidity(baseAmount, quoteAmount);
+    const [minted] = parseEventLogs({ abi: starterKitERC20DexAbi, logs: receipt.logs, eventName: "Mint" });
+    console.log(
+      `Added ${formatAmount(baseAmount, base)} and ${formatAmount(quoteAmount, quote)}, minted ${formatUnits(
+        minted.args.liquidity,
+        18,
+      )} LP tokens in ${hash}`,
+    );
+  });
+
+task("dex:quote", "Quotes a swap off-chain with the same math as the pair")
+  .addParam("pair", "Address of the pair, or <base>/<quote> token symbols")
+  .addParam("amount", "Amount of tokens to sell, in token units")
+  .addOptionalParam("sell", "Token to sell, base or quote", "base")
+  .addOptionalParam("deploymentId", "Ignition deployment id, defaults to the one of the selected network")
+  .setAction(async (args: PairArgs & { amount: string; sell: string }, hre) => {
+    const context = await operationsContext(hre, args.deploymentId);
+    const { state, base, quote } = await context.describePair(await context.resolvePair(args.pair));
+    const sell = side(args.sell);
+    const [input, output] = sell === "base" ? [base, quote] : [quote, base];
+
+    const amount = parseUnits(args.amount, input.decimals);
+    const amountOut = sell === "base" ? quoteBaseToQuote(state, amount) : quoteQuoteToBase(state, amount);
+    console.log(`Selling ${args.amount} ${input.symbol} buys ${formatAmount(amountOut, output)}`);
+    console.log(`Swap fee ${formatFee(state.swapFee)}`);
+    if (sell === "base") {
+      console.log(`At most ${formatAmount(maxSwapAmount(state.baseReserve), base)} per swap`);
+    }
+  });
+
+task("dex:swap", "Swaps tokens on a pair, approving the sold token when needed")
+  .addParam("pair", "Address of the pair, or <base>/<quote> token symbols")
+  .addParam("amount", "Amount of tokens to sell, in token units")
+  .addOptionalParam("sell", "Token to sell, base or quote", "base")
+  .addOptionalParam("slippage", "Accepted slippage on the quote, in basis points", 50n, types.bigint)
+  .addOptionalParam("deadline", "Seconds until the swap expires", 600, types.int)
+  .addOptionalParam("deploymentId", "Ignition deployment id, defaults to the one of the selected network")
+  .setAction(async (args: PairArgs & { amount: string; sell: string; slippage: bigint; deadline: number }, hre) => {
+    const context = await operationsContext(hre, args.deploymentId);
+    const pair = context.dex(await context.resolvePair(args.pair));
+    const { state, base, quote } = await context.describePair(pair.address);
+    const sell = side(args.sell);
+    const [input, output] = sell === "base" ? [base, quote] : [quote, base];
+
+    const amount = parseUnits(args.amount, input.decimals);
+    const deadline = await blockDeadline(context.clients.publicClient, args.deadline, context.clients.blockTime);
+    const amountOut = sell === "base" ? quoteBaseToQuote(state, amount) : quoteQuoteToBase(state, amount);
+    const minAmountOut = applySlippage(amountOut, args.slippage);
+
+    await context.token(input.address).ensureAllowance(pair.address, amount);
+    const { receipt, hash } =
+      sell === "base"
+        ? await pair.swapBaseToQuote(amount, minAmountOut, deadline)
+        : await pair.swapQuoteToBase(amount, minAmountOut, deadline);
+
+    const [swap] = parseEventLogs({ abi: starterKitERC20DexAbi, logs: receipt.logs, eventName: "Swap" });
+    const received = sell === "base" ? swap.args.quoteAmountOut : swap.args.baseAmountOut;
+    console.log(`Sold ${args.amount} ${input.symbol} for ${formatAmount(received, output)} in ${hash}`);
+  });
+
+task("dex:remove-liquidity", "Removes liquidity from a pair")
+  .addParam("pair", "Address of the pair, or <base>/<quote> token symbols")
+  .addOptionalParam("amount", "Amount of LP tokens to burn, defaults to all LP tokens of the sender")
+  .addOptionalParam("slippage", "Accepted slippage on the returned tokens, in basis points", 50n, types.bigint)
+  .addOptionalParam("deadline", "Seconds until the withdrawal expires", 600, types.int)
+  .addOptionalParam("deploymentId", "Ignition deployment id, defaults to the one of the selected network")
+  .setAction(async (args: PairArgs & { amount?: string; slippage: bigint; deadline: number }, hre) => {
+    const context = await operationsContext(hre, args.deploymentId);
+    const pair = context.dex(await context.resolvePair(args.pair));
+    const { state, base, quote } = await context.describePair(pair.address);
+
+    const amount = args.amount !== undefined ? parseUnits(args.amount, 18) : await pair.balanceOf(context.account);
+    const deadline = await blockDeadline(context.clients.publicClient, args.deadline, context.clients.blockTime);
+    const { baseAmount, quoteAmount } = quoteRemoveLiquidity(state, amount);
+
+    const { hash } = await pair.removeLiquidity(
+      amount,
+      applySlippage(baseAmount, args.slippage),
+      applySlippage(quoteAmount, args.slippage),
+      deadline,
+    );
+    console.log(
+      `Burned ${formatUnits(amount, 18)} LP tokens for ${formatAmount(baseAmount, base)} and ${formatAmount(
+        quoteAmount,
+        quote,
+      )} in ${hash}`,
+    );
+  });
+
+task("dex:status", "Shows the reserves, fee and health of the DEX pairs")
+  .addOptionalParam("pair", "Address of the pair, or <base>/<quote> token symbols, defaults to all pairs")
+  .addOptionalParam("deploymentId", "Ignition deployment id, defaults to the one of the selected network")
+  .setAction(async (args: Partial<PairArgs>, hre) => {
+    const context = await operationsContext(hre, args.deploymentId);
+    const pairs = args.pair ? [await context.resolvePair(args.pair)] : await context.dexFactory.listPairs();
+    if (pairs.length === 0) {
+      console.log(`No pairs in the DEX factory at ${context.addresses.dexFactory}`);
+    }
+
+    for (const address of pairs) {
+      const pair = context.dex(address);
+      const { state, base, quote } = await context.describePair(address);
+      const balancesVerified = await pair.verifyBalances();
+
+      console.log(`${base.symbol}/${quote.symbol} ${address}`);
+      console.log(`  base reserve      ${formatAmount(state.baseReserve, base)} (${base.address})`);
+      console.log(`  quote reserve     ${formatAmount(state.quoteReserve, quote)} (${quote.address})`);
+      console.log(`  LP supply         ${formatUnits(state.totalSupply, 18)}`);
+      console.log(`  LP balance        ${formatUnits(await pair.balanceOf(context.account), 18)}`);
+      console.log(`  swap fee          ${formatFee(state.swapFee)}`);
+      console.log(`  paused            ${state.paused ? "yes" : "no"}`);
+      console.log(
+        `  verifyBalances    ${balancesVerified ? "✔" : "✘ tracked balances do not match the token balances"}`,
+      );
+    }
+  });
+
+function side(value: string): Side {
+  if (value !== "base" && value !== "quote") throw new Error(`--sell must be base or quote, got ${value}`);
+  return value;
+}
@@ -0,0 +1,127 @@
+import { task, types } from "hardhat/config";
+import { isHex, type Address, type Hex } from "viem";
+import { operationsContext, type OperationsContext } from "../scripts/operations/context";
+import { formatFee } from "../scripts/operations/format";
+import { feeChangeCall, type TimelockOperation } from "../sdk";
+
+interface OperationArgs {
+  pair: string;
+  id: string;
+  deploymentId?: string;
+}
+
+task("fee:propose", "Schedules a swap fee change on the timelock of a pair")
+  .addParam("pair", "Address of the pair, or <base>/<quote> token symbols")
+  .addParam("fee", "New swap fee in basis points, e.g. 30 for 0.3%", undefined, types.bigint)
+  .addOptionalParam(
+    "delay",
+    "Seconds before the change can be executed, defaults to the minimum delay",
+    undefined,
+    types.int,
+  )
+  .addOptionalParam("salt", "Salt of the operation as 32 bytes hex, random by default")
+  .addOptionalParam("deploymentId", "Ignition deployment id, defaults to the one of the selected network")
+  .setAction(async (args: { pair: string; fee: bigint; delay?: number; salt?: string; deploymentId?: string }, hre) => {
+    const context = await operationsContext(hre, args.deploymentId);
+    const pair = await context.resolvePair(args.pair);
+    const timelock = context.timelock(await context.dex(pair).timelock());
+
+    const call = feeChangeCall(pair, args.fee, args.salt === undefined ? undefined : bytes32(args.salt, "--salt"));
+    const { id, hash } = await timelock.schedule(call, args.delay === undefined ? undefined : BigInt(args.delay));
+    console.log(`Fee change to ${formatFee(args.fee)} on ${await pairLabel(context, pair)} scheduled in ${hash}`);
+    console.log(`  operation   ${id}`);
+    console.log(`  ready at    ${formatTimestamp(await timelock.getTimestamp(id))}`);
+  });
+
+task("fee:list", "Lists the fee changes scheduled on the timelocks of the pairs")
+  .addOptionalParam("pair", "Address of the pair, or <base>/<quote> token symbols, defaults to all pairs")
+  .addFlag("all", "Also list the executed and cancelled fee changes")
+  .addOptionalParam("deploymentId", "Ignition deployment id, defaults to the one of the selected network")
+  .setAction(async (args: { pair?: string; all: boolean; deploymentId?: string }, hre) => {
+    const context = await operationsContext(hre, args.deploymentId);
+    const pairs = args.pair ? [await context.resolvePair(args.pair)] : await context.dexFactory.listPairs();
+
+    const rows = [];
+    for (const pair of pairs) {
+      const label = await pairLabel(context, pair);
+      for (const operation of await feeChanges(context, pair)) {
+        if (!args.all && (operation.status === "executed" || operation.status === "cancelled")) continue;
+        rows.push({
+          pair: label,
+          operation: operation.id,
+          fee: formatFee(operation.newFee!),
+          status: operation.status,
+          readyAt: formatTimestamp(operation.readyAt),
+        });
+      }
+    }
+
+    if (rows.length === 0) {
+      console.log(args.all ? "No fee changes were ever scheduled" : "No pending fee changes");
+    } else {
+      console.table(rows);
+    }
+  });
+
+task("fee:execute", "Executes a scheduled fee change once its delay has passed")
+  .addParam("pair", "Address of the pair, or <base>/<quote> token symbols")
+  .addParam("id", "Operation id of the fee change, see fee:list")
+  .addOptionalParam("deploymentId", "Ignition deployment id, defaults to the one of the selected network")
+  .setAction(async (args: OperationArgs, hre) => {
+    const context = await operationsContext(hre, args.deploymentId);
+    const pair = await context.resolvePair(args.pair);
+    const operation = await feeChange(context, pair, bytes32(args.id, "--id"));
+
+    if (operation.status === "waiting") {
+      throw new Error(`Fee change ${operation.id} cannot be executed before ${formatTimestamp(operation.readyAt)}`);
+    }
+    if (operation.status !== "ready") throw new Error(`Fee change ${operation.id} was already ${operation.status}`);
+
+    const { hash } = await context.timelock(await context.dex(pair).timelock()).execute(operation);
+    console.log(`Swap fee of ${await pairLabel(context, pair)} changed to ${formatFee(operation.newFee!)} in ${hash}`);
+  });
+
+task("fee:cancel", "Cancels a fee change that has not been executed yet")
+  .addParam("pair", "Address of the pair, or <base>/<quote> token symbols")
+  .addParam("id", "Operation id of the fee change, see fee:list")
+  .addOptionalParam("deploymentId", "Ignition deployment id, defaults to the one of the selected network")
+  .setAction(async (args: OperationArgs, hre) => {
+    const context = await operationsContext(hre, args.deploymentId);
+    const pair = await context.resolvePair(args.pair);
+    const operation = await feeChange(context, pair, bytes32(args.id, "--id"));
+
+    if (operation.status === "executed" || operation.status === "cancelled") {
+      throw new Error(`Fee change ${operation.id} was already ${operation.status}`);
+    }
+
+    const { hash } = await context.timelock(await context.dex(pair).timelock()).cancel(operation.id);
+    console.log(
+      `Fee change to ${formatFee(operation.newFee!)} on ${await pairLabel(context, pair)} cancelled in ${hash}`,
+    );
+  });
+
+/** The `setFee` operations of the timelock of a pair, other calls it may have scheduled are left out. */
+async function feeChanges(context: OperationsContext, pair: Address): Promise<TimelockOperation[]> {
+  const operations = await context.timelock(await context.dex(pair).timelock()).listOperations();
+  return operations.filter((operation) => operation.target === pair && operation.newFee !== undefined);
+}
+
+async function feeChange(context: OperationsContext, pair: Address, id: Hex): Promise<TimelockOperation> {
+  const operation = (await feeChanges(context, pair)).find((operation) => operation.id === id);
+  if (!operation) throw new Error(`No fee change ${id} was scheduled on the timelock of ${pair}`);
+  return operation;
+}
+
+async function pairLabel(context: OperationsContext, pair: Address): Promise<string> {
+  const { base, quote } = await context.describePair(pair);
+  return `${base.symbol}/${quote.symbol}`;
+}
+
+function bytes32(value: string, param: string): Hex {
+  if (!isHex(value) || value.length !== 66) throw new Error(`${param} must be 32 bytes of hex, got ${value}`);
+  return value.toLowerCase() as Hex;
+}
+
+function formatTimestamp(timestamp: bigint): string {
+  return new Date(Number(timestamp) * 1000).toISOString();
+}
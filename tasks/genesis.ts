@@ -0,0 +1,38 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { task, types } from "hardhat/config";
+import { buildAlloc, type GenesisToken } from "../scripts/genesis/alloc";
+import { verifyAlloc } from "../scripts/genesis/verify";
+
+task("genesis:alloc", "Generates the genesis alloc for the predeployed contract set")
+  .addOptionalParam("out", "File to write the alloc to, printed to stdout when omitted")
+  .addOptionalParam("tokens", "JSON file with an array of tokens to seed in the registry")
+  .addOptionalParam("chainId", "Chain id of the target network, required when seeding tokens", undefined, types.int)
+  .addFlag("verify", "Boot the alloc on the Hardhat network and compare it against a regular deployment")
+  .setAction(async (args: { out?: string; tokens?: string; chainId?: number; verify: boolean }, hre) => {
+    await hre.run("compile", { quiet: true });
+
+    const tokens: GenesisToken[] = args.tokens ? JSON.parse(await readFile(args.tokens, "utf8")) : [];
+    const chainId = args.chainId ?? (args.verify ? hre.network.config.chainId : undefined);
+    const alloc = await buildAlloc(hre.artifacts, { chainId, tokens });
+
+    // Verified before anything is written, so a failing alloc never ends up in --out
+    if (args.verify) {
+      const checks = await verifyAlloc(hre, alloc, tokens);
+      for (const check of checks) {
+        console.error(`${check.ok ? "✔" : "✘"} ${check.name}`);
+        if (!check.ok) {
+          console.error(`    expected ${check.expected}\n    actual   ${check.actual}`);
+        }
+      }
+      if (checks.some((check) => !check.ok)) {
+        throw new Error("The genesis alloc does not behave like a regular deployment");
+      }
+    }
+
+    if (args.out) {
+      await writeFile(args.out, `${JSON.stringify(alloc, null, 2)}\n`);
+      console.error(`Genesis alloc for ${Object.keys(alloc).length} accounts written to ${args.out}`);
+    } else {
+      console.log(JSON.stringify(alloc, null, 2));
+    }
+  });
@@ -0,0 +1,99 @@
+import { existsSync } from "node:fs";
+import { writeFile } from "node:fs/promises";
+import path from "node:path";
+import { task } from "hardhat/config";
+import type { PublicClient } from "viem";
+import {
+  checkHealth,
+  deploymentContracts,
+  presetContracts,
+  type DeployedSet,
+  type HealthReport,
+} from "../scripts/health/check";
+import { readIgnitionDeployment } from "../scripts/ignition/deployment";
+import { formatFee } from "../scripts/operations/format";
+import { networkDeploymentId } from "../scripts/networks/config";
+
+task(
+  "health:check",
+  "Checks the preset contracts, the Ignition deployment and the DEX pairs against this package and their health",
+)
+  .addOptionalParam("deploymentId", "Ignition deployment id, defaults to the one of the selected network")
+  .addOptionalParam("out", "File to write the JSON report to")
+  .addFlag("json", "Print the JSON report to stdout instead of the summary")
+  .setAction(async (args: { deploymentId?: string; out?: string; json: boolean }, hre) => {
+    await hre.run("compile", { quiet: true });
+    const publicClient = (await hre.viem.getPublicClient()) as PublicClient;
+    const chainId = await publicClient.getChainId();
+
+    const sets: DeployedSet[] = [];
+    const preset = presetContracts();
+    const presetCode = await Promise.all(preset.contracts.map(({ address }) => publicClient.getBytecode({ address })));
+    // A network without genesis contracts has nothing at any of the preset addresses, one missing of three is drift
+    if (presetCode.some((code) => code !== undefined && code !== "0x")) {
+      sets.push(preset);
+    }
+    const deploymentId = args.deploymentId ?? networkDeploymentId(hre.network.name, chainId);
+    const deploymentDir = path.join(hre.config.paths.ignition, "deployments", deploymentId);
+    if (existsSync(deploymentDir)) {
+      const deployment = await readIgnitionDeployment(deploymentDir);
+      if (deployment.chainId !== chainId) {
+        throw new Error(`The deployment in ${deploymentDir} is for chain ${deployment.chainId}, not ${chainId}`);
+      }
+      sets.push(deploymentContracts(deploymentId, deployment));
+    } else if (args.deploymentId) {
+      throw new Error(`No Ignition deployment found in ${deploymentDir}`);
+    }
+    if (sets.length === 0) {
+      throw new Error(
+        `No Ignition deployment found in ${deploymentDir} and no predeployed contracts on chain ${chainId}`,
+      );
+    }
+
+    const report = await checkHealth(publicClient, hre.artifacts, sets);
+
+    if (args.out) {
+      await writeFile(args.out, `${JSON.stringify(report, null, 2)}\n`);
+      console.error(`Health report written to ${args.out}`);
+    }
+    if (args.json) {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      printReport(report, sets);
+    }
+
+    const failed = report.checks.filter((check) => !check.ok);
+    if (failed.length > 0) {
+      throw new Error(`${failed.length} of ${report.checks.length} health checks failed`);
+    }
+  });
+
+function printReport(report: HealthReport, sets: DeployedSet[]) {
+  console.log(
+    `Checked ${sets.map((set) => set.source).join(" and ")} on chain ${report.chainId} at block ${report.blockNumber}`,
+  );
+
+  let subject: string | undefined;
+  for (const check of report.checks) {
+    if (check.subject !== subject) {
+      subject = check.subject;
+      console.log(`${subject} ${check.address}`);
+    }
+    console.log(`  ${check.ok ? "✔" : "✘"} ${check.name}`);
+    if (!check.ok) {
+      console.log(`      expected ${check.expected}\n      actual   ${check.actual}`);
+    }
+  }
+
+  for (const pair of report.pairs) {
+    console.log(`${pair.name} ${pair.address}`);
+    console.log(`  base reserve      ${pair.baseReserve}, held ${pair.baseBalance}, gap ${pair.baseGap}`);
+    console.log(`  quote reserve     ${pair.quoteReserve}, held ${pair.quoteBalance}, gap ${pair.quoteGap}`);
+    console.log(`  swap fee          ${formatFee(BigInt(pair.swapFee))}`);
+    console.log(`  paused            ${pair.paused ? "yes" : "no"}`);
+    console.log(`  timelock          ${pair.timelock}`);
+    for (const [role, holders] of Object.entries(pair.roles)) {
+      console.log(`  ${role} ${holders.join(", ") || "none"}`);
+    }
+  }
+}
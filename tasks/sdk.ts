@@ -0,0 +1,33 @@
+import { writeFile } from "node:fs/promises";
+import path from "node:path";
+import { task } from "hardhat/config";
+
+/** The contracts the SDK ships typed ABIs for, keyed by the name of the exported constant. */
+const SDK_ABIS: Record<string, string> = {
+  starterKitERC20Abi: "StarterKitERC20",
+  starterKitERC20RegistryAbi: "StarterKitERC20Registry",
+  starterKitERC20FactoryAbi: "StarterKitERC20Factory",
+  starterKitERC20DexFactoryAbi: "StarterKitERC20DexFactory",
+  starterKitERC20DexAbi: "StarterKitERC20Dex",
+  timelockControllerAbi: "TimelockController",
+};
+
+task("sdk:abis", "Regenerates the typed ABIs of the SDK from the compiled artifacts").setAction(async (_, hre) => {
+  await hre.run("compile", { quiet: true });
+
+  const declarations = [];
+  const errors = new Map<string, unknown>();
+  for (const [name, contract] of Object.entries(SDK_ABIS)) {
+    const { abi } = await hre.artifacts.readArtifact(contract);
+    declarations.push(`export const ${name} = ${JSON.stringify(abi, null, 2)} as const;\n`);
+    for (const item of abi.filter((item) => item.type === "error")) {
+      errors.set(`${item.name}(${item.inputs.map((input: { type: string }) => input.type).join(",")})`, item);
+    }
+  }
+  // Tokens revert inside pair and factory calls, so errors are decoded against the errors of every contract
+  declarations.push(`export const starterKitErrorsAbi = ${JSON.stringify([...errors.values()], null, 2)} as const;\n`);
+
+  const file = path.join(hre.config.paths.root, "sdk", "abis.ts");
+  await writeFile(file, `// Generated by \`npx hardhat sdk:abis\`, do not edit.\n\n${declarations.join("\n")}`);
+  console.log(`Typed ABIs written to ${path.relative(hre.config.paths.root, file)}`);
+});
@@ -0,0 +1,56 @@
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { task, types } from "hardhat/config";
+import { networkDeploymentId } from "../scripts/networks/config";
+import { blockDeadline } from "../sdk/deadline";
+
+task("seed:deploy", "Deploys the contracts and the seed scenario, with swap deadlines computed from the block time")
+  .addOptionalPositionalParam("modulePath", "The Ignition module to deploy", "./ignition/modules/main.ts")
+  .addOptionalParam("deadline", "Seconds until the swaps of the scenario expire", 3600, types.int)
+  .addOptionalParam("deploymentId", "Ignition deployment id, defaults to the one of the selected network")
+  .addFlag("reset", "Wipes the existing deployment state before deploying")
+  .setAction(async (args: { modulePath: string; deadline: number; deploymentId?: string; reset: boolean }, hre) => {
+    const publicClient = await hre.viem.getPublicClient();
+    const deploymentId = args.deploymentId ?? networkDeploymentId(hre.network.name, await publicClient.getChainId());
+    const deploymentDir = path.join(hre.config.paths.ignition, "deployments", deploymentId);
+
+    // A deployment that already sent its swaps has to be resumed with the deadline it was started with
+    const previous = args.reset ? undefined : await previousSwapDeadline(deploymentDir);
+    const swapDeadline = previous ?? (await blockDeadline(publicClient, args.deadline));
+    console.log(`Swaps of the scenario expire after block ${swapDeadline}`);
+
+    // The factory orders the tokens of a pair by address, so the pairs are seeded once the tokens have their addresses
+    await hre.run(
+      { scope: "ignition", task: "deploy" },
+      { modulePath: "./ignition/modules/tokens.ts", deploymentId, reset: args.reset },
+    );
+    // Read by loadTokenAddresses when the DexModule is built, which happens when the deploy task loads the module
+    process.env.SEED_DEPLOYMENT = deploymentDir;
+    await hre.run(
+      { scope: "ignition", task: "deploy" },
+      {
+        modulePath: args.modulePath,
+        parameters: JSON.stringify({ DexModule: { swapDeadline: `${swapDeadline}n` } }),
+        deploymentId,
+      },
+    );
+  });
+
+async function previousSwapDeadline(deploymentDir: string): Promise<bigint | undefined> {
+  const journalFile = path.join(deploymentDir, "journal.jsonl");
+  if (!existsSync(journalFile)) return undefined;
+
+  for (const line of (await readFile(journalFile, "utf8")).split("\n")) {
+    if (line.trim() === "") continue;
+    const message = JSON.parse(line) as { type: string; futureId?: string; args?: { value?: string }[] };
+    if (
+      message.type === "CALL_EXECUTION_STATE_INITIALIZE" &&
+      /^DexModule#execute_.+_swap$/.test(message.futureId ?? "")
+    ) {
+      const deadline = message.args?.[2]?.value;
+      return deadline === undefined ? undefined : BigInt(deadline);
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,126 @@
+import { spawn } from "node:child_process";
+import { existsSync } from "node:fs";
+import { readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { task, types } from "hardhat/config";
+import type { PublicClient } from "viem";
+import { readIgnitionDeployment } from "../scripts/ignition/deployment";
+import { networkDeploymentId, networkGraphName } from "../scripts/networks/config";
+import { auditSubgraph } from "../scripts/subgraph/audit";
+import { renderManifest, renderNetworks } from "../scripts/subgraph/manifest";
+import { createSubgraphClient } from "../scripts/subgraph/query";
+
+task("subgraph:deploy", "Deploys the subgraph for the Ignition deployment on the selected network")
+  .addOptionalParam("deploymentId", "Ignition deployment id, defaults to the one of the selected network")
+  .addOptionalParam(
+    "graphNetwork",
+    "Network name graph-node knows the chain by, defaults to the graphNetwork of the selected network or settlemint",
+  )
+  .addOptionalParam("node", "Graph node admin endpoint", process.env.GRAPH_NODE_URL ?? "http://localhost:8020")
+  .addOptionalParam("ipfs", "IPFS endpoint", process.env.GRAPH_IPFS_URL ?? "https://ipfs.network.thegraph.com")
+  .addOptionalParam("name", "Name of the subgraph on the graph node", "starterkit")
+  .addOptionalParam("versionLabel", "Version label of the deployment, defaults to v1.0.<unix timestamp>")
+  .addOptionalParam("networksFile", "Also write the addresses and start blocks to this graph-cli networks.json")
+  .addFlag("manifestOnly", "Only render the manifest without deploying it")
+  .setAction(
+    async (
+      args: {
+        deploymentId?: string;
+        graphNetwork?: string;
+        node: string;
+        ipfs: string;
+        name: string;
+        versionLabel?: string;
+        networksFile?: string;
+        manifestOnly: boolean;
+      },
+      hre,
+    ) => {
+      const chainId = Number(await hre.network.provider.request({ method: "eth_chainId" }));
+      const deploymentId = args.deploymentId ?? networkDeploymentId(hre.network.name, chainId);
+      const graphNetwork = args.graphNetwork ?? networkGraphName(hre.network.name);
+      const deployment = await readIgnitionDeployment(
+        path.join(hre.config.paths.ignition, "deployments", deploymentId),
+      );
+
+      const subgraphDir = path.join(hre.config.paths.root, "subgraph");
+      const checkedInManifest = await readFile(path.join(subgraphDir, "subgraph.yaml"), "utf8");
+      const manifest = `subgraph.${deploymentId}.yaml`;
+      await writeFile(path.join(subgraphDir, manifest), renderManifest(checkedInManifest, graphNetwork, deployment));
+      console.log(`Subgraph manifest for ${deploymentId} written to subgraph/${manifest}`);
+
+      if (args.networksFile) {
+        const existing = existsSync(args.networksFile) ? JSON.parse(await readFile(args.networksFile, "utf8")) : {};
+        const networks = { ...existing, ...renderNetworks(checkedInManifest, graphNetwork, deployment) };
+        await writeFile(args.networksFile, `${JSON.stringify(networks, null, 2)}\n`);
+        console.log(`Network ${graphNetwork} written to ${args.networksFile}`);
+      }
+
+      if (args.manifestOnly) {
+        return;
+      }
+
+      const versionLabel = args.versionLabel ?? `v1.0.${Math.floor(Date.now() / 1000)}`;
+      await graph(subgraphDir, ["codegen", manifest]);
+      await graph(subgraphDir, ["create", "--node", args.node, args.name]);
+      await graph(subgraphDir, [
+        "deploy",
+        "--version-label",
+        versionLabel,
+        "--node",
+        args.node,
+        "--ipfs",
+        args.ipfs,
+        args.name,
+        manifest,
+      ]);
+
+      console.log(`Subgraph ${args.name} ${versionLabel} deployed to ${args.node}`);
+    },
+  );
+
+task(
+  "subgraph:audit",
+  "Compares the balances, supplies, reserves, stakes and fees the subgraph indexed against the chain",
+)
+  .addOptionalParam(
+    "endpoint",
+    "GraphQL endpoint of the subgraph",
+    process.env.GRAPH_QUERY_URL ?? "http://localhost:8000/subgraphs/name/starterkit",
+  )
+  .addOptionalParam("block", "Block to audit, defaults to the latest block the subgraph indexed", undefined, types.int)
+  .addOptionalParam("out", "File to write the JSON report to, printed to stdout when omitted")
+  .setAction(async (args: { endpoint: string; block?: number; out?: string }, hre) => {
+    const publicClient = (await hre.viem.getPublicClient()) as PublicClient;
+    const report = await auditSubgraph(publicClient, createSubgraphClient(args.endpoint), args.block);
+
+    if (args.out) {
+      await writeFile(args.out, `${JSON.stringify(report, null, 2)}\n`);
+      console.error(`Audit report written to ${args.out}`);
+    } else {
+      console.log(JSON.stringify(report, null, 2));
+    }
+
+    const checked = Object.entries(report.checked).map(([entity, count]) => `${count} ${entity}`);
+    console.error(`Audited ${checked.join(", ")} at block ${report.blockNumber}`);
+    for (const diff of report.diffs) {
+      console.error(`✘ ${diff.entity} ${diff.id} ${diff.field}`);
+      console.error(diff.detail ? `    ${diff.detail}` : `    subgraph ${diff.subgraph}\n    chain    ${diff.chain}`);
+    }
+    if (report.hasIndexingErrors) {
+      console.error("The subgraph has indexing errors, it stopped indexing at the first failing handler");
+    }
+    if (report.diffs.length > 0) {
+      throw new Error(`The subgraph disagrees with the chain on ${report.diffs.length} values`);
+    }
+  });
+
+function graph(cwd: string, args: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn("npx", ["graph", ...args], { cwd, stdio: "inherit" });
+    child.on("error", reject);
+    child.on("exit", (code) =>
+      code === 0 ? resolve() : reject(new Error(`graph ${args[0]} exited with code ${code}`)),
+    );
+  });
+}
@@ -0,0 +1,153 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { task, types } from "hardhat/config";
+import { formatUnits, getAddress } from "viem";
+import { buildDistributionModule } from "../ignition/modules/distribution";
+import { checkSender, distribute, reconcileDistribution, recordBaselines } from "../scripts/distribution/distribute";
+import { openJournal } from "../scripts/distribution/journal";
+import { parseRecipients, planDistribution, type DistributionMode } from "../scripts/distribution/recipients";
+import { networkDeploymentId } from "../scripts/networks/config";
+import { operationsContext } from "../scripts/operations/context";
+
+task("token:create", "Creates a token through the factory and registers it")
+  .addParam("name", "Name of the token")
+  .addParam("symbol", "Symbol of the token, unique in the registry")
+  .addOptionalParam("extraData", "Extra data stored with the token in the registry", "")
+  .addOptionalParam("deploymentId", "Ignition deployment id, defaults to the one of the selected network")
+  .setAction(async (args: { name: string; symbol: string; extraData: string; deploymentId?: string }, hre) => {
+    const { factory } = await operationsContext(hre, args.deploymentId);
+
+    const { tokenAddress, hash } = await factory.createToken(args.name, args.symbol, args.extraData);
+    console.log(`Token ${args.symbol} created at ${tokenAddress} in ${hash}`);
+  });
+
+task("token:mint", "Mints tokens, only the owner of the token can mint")
+  .addParam("token", "Symbol or address of the token")
+  .addParam("amount", "Amount in token units, e.g. 1.5")
+  .addOptionalParam("to", "Receiver of the tokens, defaults to the sender")
+  .addOptionalParam("deploymentId", "Ignition deployment id, defaults to the one of the selected network")
+  .setAction(async (args: { token: string; amount: string; to?: string; deploymentId?: string }, hre) => {
+    const context = await operationsContext(hre, args.deploymentId);
+    const token = context.token(await context.resolveToken(args.token));
+    const to = args.to ? getAddress(args.to) : context.account;
+
+    const { hash } = await token.mint(to, await context.parseAmount(token.address, args.amount));
+    console.log(`Minted ${args.amount} ${await token.symbol()} to ${to} in ${hash}`);
+  });
+
+task("token:list", "Lists the tokens in the registry")
+  .addOptionalParam("account", "Also show the balances of this account")
+  .addOptionalParam("deploymentId", "Ignition deployment id, defaults to the one of the selected network")
+  .setAction(async (args: { account?: string; deploymentId?: string }, hre) => {
+    const context = await operationsContext(hre, args.deploymentId);
+    const account = args.account ? getAddress(args.account) : undefined;
+
+    const rows = [];
+    for (const { tokenAddress, symbol, extraData } of await context.registry.getTokenList()) {
+      const token = context.token(tokenAddress);
+      const decimals = await token.decimals();
+      rows.push({
+        symbol,
+        name: await token.name(),
+        address: tokenAddress,
+        totalSupply: formatUnits(await token.totalSupply(), decimals),
+        ...(account ? { balance: formatUnits(await token.balanceOf(account), decimals) } : {}),
+        extraData,
+      });
+    }
+
+    if (rows.length === 0) {
+      console.log(`No tokens in the registry at ${context.addresses.registry}`);
+    } else {
+      console.table(rows);
+    }
+  });
+
+task("token:distribute", "Mints or transfers tokens to the recipients of a CSV or JSON file, resuming interrupted runs")
+  .addPositionalParam("file", "CSV with address,amount[,token] rows, or a JSON array of { address, amount, token }")
+  .addOptionalParam("mode", "mint, as the owner of the tokens, or transfer from the sender", "mint")
+  .addOptionalParam("token", "Symbol or address of the token for rows without a token")
+  .addOptionalParam("batchSize", "Transactions sent before waiting for their receipts", 50, types.int)
+  .addOptionalParam("journal", "Journal of the distribution, defaults to <file>.journal.jsonl")
+  .addOptionalParam("report", "File to write the reconciliation report to, defaults to <file>.report.json")
+  .addOptionalParam("deploymentId", "Ignition deployment id, defaults to the one of the selected network")
+  .addFlag("dryRun", "Only validate the file and show what would be paid")
+  .addFlag("ignition", "Pay out through an Ignition module in the deployment instead of the journaled batches")
+  .setAction(
+    async (
+      args: {
+        file: string;
+        mode: string;
+        token?: string;
+        batchSize: number;
+        journal?: string;
+        report?: string;
+        deploymentId?: string;
+        dryRun: boolean;
+        ignition: boolean;
+      },
+      hre,
+    ) => {
+      if (args.mode !== "mint" && args.mode !== "transfer") throw new Error("--mode must be mint or transfer");
+      if (args.batchSize < 1) throw new Error("--batch-size must be at least 1");
+      const context = await operationsContext(hre, args.deploymentId);
+      const { publicClient } = context.clients;
+
+      const rows = parseRecipients(args.file, await readFile(args.file, "utf8"));
+      const plan = await planDistribution(
+        rows,
+        args.mode as DistributionMode,
+        context.resolveToken,
+        async (address) => ({
+          symbol: await context.token(address).symbol(),
+          decimals: await context.token(address).decimals(),
+        }),
+        args.token,
+      );
+
+      const totals = new Map<string, { recipients: number; amount: bigint; decimals: number }>();
+      for (const entry of plan.entries) {
+        const total = totals.get(entry.symbol) ?? {
+          recipients: 0,
+          amount: 0n,
+          decimals: await context.token(entry.token).decimals(),
+        };
+        totals.set(entry.symbol, { ...total, recipients: total.recipients + 1, amount: total.amount + entry.amount });
+      }
+      for (const [symbol, { recipients, amount, decimals }] of totals) {
+        console.log(`${plan.mode} ${formatUnits(amount, decimals)} ${symbol} to ${recipients} recipients`);
+      }
+      if (args.dryRun) return;
+
+      const chainId = await publicClient.getChainId();
+      const journal = await openJournal(args.journal ?? `${args.file}.journal.jsonl`, plan, chainId);
+      await recordBaselines(publicClient, plan, journal);
+      await checkSender(publicClient, plan, journal, context.account);
+
+      if (args.ignition) {
+        await hre.ignition.deploy(buildDistributionModule(plan), {
+          deploymentId: args.deploymentId ?? networkDeploymentId(hre.network.name, chainId),
+        });
+      } else {
+        await distribute(context.clients, plan, journal, args.batchSize, ({ paid, total }) =>
+          console.log(`Paid ${paid} of ${total} recipients`),
+        );
+      }
+
+      const report = await reconcileDistribution(publicClient, plan, journal);
+      const reportFile = args.report ?? `${args.file}.report.json`;
+      await writeFile(reportFile, `${JSON.stringify(report, null, 2)}\n`);
+      console.log(`Reconciliation report written to ${reportFile}`);
+
+      const mismatches = report.entries.filter((entry) => !entry.ok);
+      for (const entry of mismatches.slice(0, 10)) {
+        console.error(
+          `✘ line ${entry.line}: ${entry.recipient} holds ${entry.actual} ${entry.symbol}, expected ${entry.expected}`,
+        );
+      }
+      if (mismatches.length > 0) {
+        throw new Error(
+          `${mismatches.length} recipients do not hold the balance the distribution should have left them`,
+        );
+      }
+    },
+  );
@@ -0,0 +1,105 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { getAddress, parseEther, type Address } from "viem";
+import { buildDexModule } from "../ignition/modules/dex";
+import { loadScenario, type LoadedScenario } from "../ignition/scenario";
+import { deploySeed } from "../scripts/ignition/seed";
+import { blockDeadline, DeadlineExpiredError, ImplausibleDeadlineError, validateDeadline } from "../sdk";
+
+describe("DexModule", function () {
+  let deploymentDir: string;
+
+  beforeEach(async function () {
+    deploymentDir = await mkdtemp(path.join(tmpdir(), "ignition-"));
+  });
+
+  afterEach(async function () {
+    await rm(deploymentDir, { recursive: true, force: true });
+  });
+
+  it("swaps when the deadline is computed from the block time", async function () {
+    const publicClient = await hre.viem.getPublicClient();
+    const swapDeadline = await blockDeadline(publicClient, 3600);
+
+    const deployed = await deploySeed(hre, loadScenario(), deploymentDir, { DexModule: { swapDeadline } });
+    const token1 = await hre.viem.getContractAt("StarterKitERC20", deployed["TokenModule#contract_token1_instance"]);
+
+    // The example scenario adds 100 base tokens of liquidity and sells 3 of them
+    expect(await token1.read.balanceOf([deployed["DexModule#contract_pair_instance"]])).to.equal(parseEther("103"));
+  });
+
+  it("refuses to build the pairs without the addresses of their tokens", function () {
+    expect(() => buildDexModule(loadScenario(), {})).to.throw("The addresses of the tokens token1, token2 are unknown");
+  });
+
+  it("refuses to deploy the swaps without a deadline", async function () {
+    await expect(deploySeed(hre, loadScenario(), deploymentDir)).to.be.rejectedWith(/swapDeadline/);
+  });
+
+  it("fails the swap once the chain is past the deadline block", async function () {
+    const publicClient = await hre.viem.getPublicClient();
+    // Tokens, the pair and its liquidity are deployed block by block before the swap is sent
+    const swapDeadline = (await publicClient.getBlockNumber()) + 5n;
+
+    await expect(deploySeed(hre, loadScenario(), deploymentDir, { DexModule: { swapDeadline } })).to.be.rejectedWith(
+      /DexModule#execute_pair_swap[\s\S]*DeadlineExpired/,
+    );
+  });
+
+  it("seeds a pair whose base token sorts after its quote token", async function () {
+    const publicClient = await hre.viem.getPublicClient();
+    const mints = [{ to: "account:0", amount: parseEther("1000").toString() }];
+    const scenario: LoadedScenario = {
+      tokens: [
+        { id: "first", name: "First", symbol: "FST", mints },
+        { id: "second", name: "Second", symbol: "SND", mints },
+      ],
+      pairs: [],
+    };
+    const tokens = await deploySeed(hre, scenario, deploymentDir);
+    const [low, high] = ["first", "second"]
+      .map((id) => ({ id, address: getAddress(tokens[`TokenModule#contract_${id}_instance`]) }))
+      .sort((a, b) => (BigInt(a.address) < BigInt(b.address) ? -1 : 1));
+
+    // Quoted at 2 quote tokens per base token, selling 1 base token
+    scenario.pairs.push({
+      id: "pair",
+      base: high.id,
+      quote: low.id,
+      baseAmount: parseEther("10").toString(),
+      quoteAmount: parseEther("20").toString(),
+      swap: { baseAmount: parseEther("1").toString(), minQuoteAmount: "1" },
+    });
+    const swapDeadline = await blockDeadline(publicClient, 3600);
+    const deployed = await deploySeed(hre, scenario, deploymentDir, { DexModule: { swapDeadline } });
+
+    const pair = await hre.viem.getContractAt("StarterKitERC20Dex", deployed["DexModule#contract_pair_instance"]);
+    const base = await hre.viem.getContractAt("StarterKitERC20", high.address as Address);
+    const quote = await hre.viem.getContractAt("StarterKitERC20", low.address as Address);
+    const quoteBought = parseEther("20") - (await quote.read.balanceOf([pair.address]));
+
+    expect(await pair.read.baseToken()).to.equal(low.address);
+    expect(await base.read.balanceOf([pair.address])).to.equal(parseEther("11"));
+    expect(await pair.read.getQuoteTokenBalance()).to.equal(parseEther("11"));
+    // 1 of 11 base tokens buys a bit less than 20 / 11 quote tokens after the fee
+    expect(quoteBought > parseEther("1.6") && quoteBought < parseEther("20") / 11n).to.equal(true);
+  });
+
+  it("rejects a unix timestamp passed as the deadline", async function () {
+    const publicClient = await hre.viem.getPublicClient();
+    const timestamp = BigInt(Math.floor(Date.now() / 1000) + 3600);
+
+    await expect(validateDeadline(publicClient, timestamp)).to.be.rejectedWith(ImplausibleDeadlineError);
+  });
+
+  it("rejects a deadline that has already passed", async function () {
+    const publicClient = await hre.viem.getPublicClient();
+
+    await expect(validateDeadline(publicClient, await publicClient.getBlockNumber())).to.be.rejectedWith(
+      DeadlineExpiredError,
+    );
+  });
+});
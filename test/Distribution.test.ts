@@ -0,0 +1,349 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  getAddress,
+  isAddress,
+  keccak256,
+  parseEther,
+  toHex,
+  type Address,
+  type PublicClient,
+  type WalletClient,
+} from "viem";
+import { ContractsModule } from "../ignition/modules/contracts";
+import { buildDistributionModule } from "../ignition/modules/distribution";
+import { checkSender, distribute, reconcileDistribution, recordBaselines } from "../scripts/distribution/distribute";
+import { openJournal } from "../scripts/distribution/journal";
+import {
+  DistributionFileError,
+  parseRecipients,
+  planDistribution,
+  type DistributionMode,
+} from "../scripts/distribution/recipients";
+import {
+  createFactoryClient,
+  createRegistryClient,
+  createTokenClient,
+  TokenNotFoundError,
+  type StarterKitClients,
+} from "../sdk";
+
+describe("Token distribution", function () {
+  let directory: string;
+
+  beforeEach(async function () {
+    directory = await mkdtemp(path.join(tmpdir(), "distribution-"));
+  });
+
+  afterEach(async function () {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  async function tokensFixture() {
+    const publicClient = (await hre.viem.getPublicClient()) as PublicClient;
+    const walletClients = (await hre.viem.getWalletClients()) as WalletClient[];
+    const clients: StarterKitClients = { publicClient, walletClient: walletClients[0] };
+    const [deployer, ...recipients] = walletClients.map(({ account }) => getAddress(account!.address));
+
+    const { registry, factory } = await hre.ignition.deploy(ContractsModule);
+    const { tokenAddress: eurs } = await createFactoryClient(clients, factory.address).createToken("Euro", "EURS", "");
+    const { tokenAddress: usds } = await createFactoryClient(clients, factory.address).createToken(
+      "Dollar",
+      "USDS",
+      "",
+    );
+    const registryClient = createRegistryClient(clients, registry.address);
+
+    const plan = async (file: string, content: string, mode: DistributionMode = "mint", defaultToken?: string) =>
+      planDistribution(
+        parseRecipients(file, content),
+        mode,
+        // Resolves tokens like the operations tasks do
+        async (token) => {
+          if (isAddress(token)) return getAddress(token);
+          try {
+            return (await registryClient.getTokenBySymbol(token)).tokenAddress;
+          } catch (error) {
+            if (error instanceof TokenNotFoundError) throw new Error(`No token with symbol ${token} in the registry`);
+            throw error;
+          }
+        },
+        async (token) => ({
+          symbol: await createTokenClient(clients, token).symbol(),
+          decimals: await createTokenClient(clients, token).decimals(),
+        }),
+        defaultToken,
+      );
+
+    return { clients, deployer, recipients, eurs, usds, plan };
+  }
+
+  describe("planDistribution", function () {
+    it("resolves the tokens of a CSV through the registry", async function () {
+      const { recipients, eurs, usds, plan } = await loadFixture(tokensFixture);
+
+      const { entries } = await plan(
+        "recipients.csv",
+        [
+          "address,amount,token",
+          `${recipients[0]},1.5,EURS`,
+          "",
+          "# Default token",
+          `${recipients[1].toLowerCase()},2`,
+          `${recipients[1]},3,USDS`,
+        ].join("\n"),
+        "mint",
+        "EURS",
+      );
+
+      expect(entries).to.deep.equal([
+        { line: 2, token: eurs, symbol: "EURS", recipient: recipients[0], amount: parseEther("1.5") },
+        { line: 5, token: eurs, symbol: "EURS", recipient: recipients[1], amount: parseEther("2") },
+        { line: 6, token: usds, symbol: "USDS", recipient: recipients[1], amount: parseEther("3") },
+      ]);
+    });
+
+    it("reads a JSON array of recipients", async function () {
+      const { recipients, usds, plan } = await loadFixture(tokensFixture);
+
+      const { entries } = await plan(
+        "recipients.json",
+        JSON.stringify([{ address: recipients[0], amount: 4, token: "USDS" }]),
+      );
+
+      expect(entries).to.deep.equal([
+        { line: 1, token: usds, symbol: "USDS", recipient: recipients[0], amount: parseEther("4") },
+      ]);
+    });
+
+    it("lists every invalid row at once", async function () {
+      const { recipients, plan } = await loadFixture(tokensFixture);
+      const wrongChecksum = recipients[1].replace(/[a-f]/, (letter) => letter.toUpperCase());
+
+      const rows = [
+        `${recipients[0]},1,EURS`,
+        `${wrongChecksum},1,EURS`,
+        `0x1234,1,EURS`,
+        `${recipients[2]},1.0000000000000000001,EURS`,
+        `${recipients[0]},2,EURS`,
+        `${recipients[3]},1,GBPS`,
+        `${recipients[4]},0,EURS`,
+      ];
+
+      await expect(plan("recipients.csv", rows.join("\n")))
+        .to.be.rejectedWith(DistributionFileError)
+        .and.eventually.have.deep.property("issues", [
+          { line: 2, message: `${wrongChecksum} has a wrong checksum, expected ${recipients[1]}` },
+          { line: 3, message: "0x1234 is not an address" },
+          { line: 4, message: "amount 1.0000000000000000001 has more decimals than the 18 of EURS" },
+          { line: 5, message: `${recipients[0]} already receives EURS on line 1` },
+          { line: 6, message: "No token with symbol GBPS in the registry" },
+          { line: 7, message: "amount is zero" },
+        ]);
+    });
+  });
+
+  describe("distribute", function () {
+    it("mints to every recipient in batches and reconciles the balances", async function () {
+      const { clients, deployer, recipients, eurs, plan } = await loadFixture(tokensFixture);
+      const paid = recipients.slice(0, 9);
+      const csv = paid.map((recipient, index) => `${recipient},${index + 1}`).join("\n");
+      const distribution = await plan("recipients.csv", csv, "mint", "EURS");
+      const journal = await openJournal(path.join(directory, "journal.jsonl"), distribution, 31337);
+
+      await recordBaselines(clients.publicClient, distribution, journal);
+      await checkSender(clients.publicClient, distribution, journal, deployer);
+      const progress: number[] = [];
+      await distribute(clients, distribution, journal, 4, ({ paid }) => progress.push(paid));
+      const report = await reconcileDistribution(clients.publicClient, distribution, journal);
+
+      expect(progress).to.deep.equal([0, 4, 8, 9]);
+      expect(report.ok).to.equal(true);
+      expect(report.tokens).to.deep.equal([
+        {
+          token: eurs,
+          symbol: "EURS",
+          recipients: 9,
+          amount: `${parseEther("45")}`,
+          mismatches: 0,
+        },
+      ]);
+      expect(await createTokenClient(clients, eurs).balanceOf(recipients[2])).to.equal(parseEther("3"));
+    });
+
+    it("resumes an interrupted run without paying anyone twice", async function () {
+      const { clients, recipients, eurs, plan } = await loadFixture(tokensFixture);
+      const csv = recipients.map((recipient) => `${recipient},10`).join("\n");
+      const distribution = await plan("recipients.csv", csv, "mint", "EURS");
+      const journalFile = path.join(directory, "journal.jsonl");
+
+      const interrupted = await openJournal(journalFile, distribution, 31337);
+      await recordBaselines(clients.publicClient, distribution, interrupted);
+      await expect(
+        distribute(clients, distribution, interrupted, 3, ({ paid }) => {
+          if (paid === 3) throw new Error("interrupted");
+        }),
+      ).to.be.rejectedWith("interrupted");
+
+      const resumed = await openJournal(journalFile, distribution, 31337);
+      await recordBaselines(clients.publicClient, distribution, resumed);
+      const progress: number[] = [];
+      await distribute(clients, distribution, resumed, 3, ({ paid }) => progress.push(paid));
+      const report = await reconcileDistribution(clients.publicClient, distribution, resumed);
+
+      expect(progress[0]).to.equal(3);
+      expect(report.ok).to.equal(true);
+      expect(await createTokenClient(clients, eurs).totalSupply()).to.equal(parseEther(`${10 * recipients.length}`));
+      const sent = (await readFile(journalFile, "utf8")).split("\n").filter((line) => line.includes('"sent"'));
+      expect(sent).to.have.lengthOf(recipients.length);
+    });
+
+    it("looks up a payment that was sent but not journaled as mined", async function () {
+      const { clients, recipients, eurs, plan } = await loadFixture(tokensFixture);
+      const distribution = await plan("recipients.csv", `${recipients[0]},5`, "mint", "EURS");
+      const journal = await openJournal(path.join(directory, "journal.jsonl"), distribution, 31337);
+      await recordBaselines(clients.publicClient, distribution, journal);
+
+      // The run crashed right after sending
+      const { hash } = await createTokenClient(clients, eurs).mint(recipients[0], parseEther("5"));
+      await journal.recordSent(distribution.entries[0], hash);
+      await distribute(clients, distribution, journal, 10);
+
+      expect(journal.confirmedHash(distribution.entries[0])).to.equal(hash);
+      expect(await createTokenClient(clients, eurs).balanceOf(recipients[0])).to.equal(parseEther("5"));
+    });
+
+    it("finds a payment by its nonce when the run stopped before journaling the hash", async function () {
+      const { clients, deployer, recipients, eurs, plan } = await loadFixture(tokensFixture);
+      const distribution = await plan("recipients.csv", `${recipients[0]},5\n${recipients[1]},5`, "mint", "EURS");
+      const journal = await openJournal(path.join(directory, "journal.jsonl"), distribution, 31337);
+      await recordBaselines(clients.publicClient, distribution, journal);
+
+      // The run crashed after sending the first payment, and before sending the second
+      const block = await clients.publicClient.getBlockNumber();
+      const nonce = await clients.publicClient.getTransactionCount({ address: deployer });
+      await journal.recordSending(distribution.entries[0], { nonce, block });
+      await hre.network.provider.send("hardhat_mine", ["0x5"]);
+      const { hash } = await createTokenClient(clients, eurs).mint(recipients[0], parseEther("5"));
+      await journal.recordSending(distribution.entries[1], { nonce: nonce + 1, block });
+      await distribute(clients, distribution, journal, 10);
+
+      expect(journal.confirmedHash(distribution.entries[0])).to.equal(hash);
+      expect(await createTokenClient(clients, eurs).balanceOf(recipients[0])).to.equal(parseEther("5"));
+      expect(await createTokenClient(clients, eurs).balanceOf(recipients[1])).to.equal(parseEther("5"));
+    });
+
+    it("waits for a payment the node does not know yet instead of paying it again", async function () {
+      const { clients, deployer, recipients, eurs, plan } = await loadFixture(tokensFixture);
+      const distribution = await plan("recipients.csv", `${recipients[0]},5`, "mint", "EURS");
+      const journal = await openJournal(path.join(directory, "journal.jsonl"), distribution, 31337);
+      await recordBaselines(clients.publicClient, distribution, journal);
+
+      // Another node behind the RPC returned a hash this node has not seen, and mined the payment since
+      const block = await clients.publicClient.getBlockNumber();
+      const nonce = await clients.publicClient.getTransactionCount({ address: deployer });
+      await journal.recordSending(distribution.entries[0], { nonce, block });
+      await journal.recordSent(distribution.entries[0], keccak256(toHex("unseen")));
+      const { hash } = await createTokenClient(clients, eurs).mint(recipients[0], parseEther("5"));
+      await distribute(clients, distribution, journal, 10);
+
+      expect(journal.confirmedHash(distribution.entries[0])).to.equal(hash);
+      expect(await createTokenClient(clients, eurs).balanceOf(recipients[0])).to.equal(parseEther("5"));
+    });
+
+    it("sends a payment no node has seen again with its journaled nonce", async function () {
+      const { clients, deployer, recipients, eurs, plan } = await loadFixture(tokensFixture);
+      const distribution = await plan("recipients.csv", `${recipients[0]},5`, "mint", "EURS");
+      const journalFile = path.join(directory, "journal.jsonl");
+      const journal = await openJournal(journalFile, distribution, 31337);
+      await recordBaselines(clients.publicClient, distribution, journal);
+
+      const block = await clients.publicClient.getBlockNumber();
+      const nonce = await clients.publicClient.getTransactionCount({ address: deployer });
+      await journal.recordSending(distribution.entries[0], { nonce, block });
+      await journal.recordSent(distribution.entries[0], keccak256(toHex("unseen")));
+      await distribute(clients, distribution, journal, 10);
+
+      const hash = journal.confirmedHash(distribution.entries[0])!;
+      expect((await clients.publicClient.getTransaction({ hash })).nonce).to.equal(nonce);
+      expect(await createTokenClient(clients, eurs).balanceOf(recipients[0])).to.equal(parseEther("5"));
+      expect(await readFile(journalFile, "utf8")).not.to.include('"reverted"');
+    });
+
+    it("drops the incomplete last line of a run killed while journaling", async function () {
+      const { clients, recipients, eurs, plan } = await loadFixture(tokensFixture);
+      const distribution = await plan("recipients.csv", `${recipients[0]},5`, "mint", "EURS");
+      const journalFile = path.join(directory, "journal.jsonl");
+      await recordBaselines(clients.publicClient, distribution, await openJournal(journalFile, distribution, 31337));
+      await writeFile(journalFile, `${await readFile(journalFile, "utf8")}{"type":"sending","key":`);
+
+      const journal = await openJournal(journalFile, distribution, 31337);
+      await distribute(clients, distribution, journal, 10);
+
+      expect(await createTokenClient(clients, eurs).balanceOf(recipients[0])).to.equal(parseEther("5"));
+      const lines = (await readFile(journalFile, "utf8")).trimEnd().split("\n");
+      expect(lines.map((line) => JSON.parse(line).type)).to.deep.equal([
+        "plan",
+        "baseline",
+        "sending",
+        "sent",
+        "confirmed",
+      ]);
+    });
+
+    it("refuses to resume a journal that is corrupt before its last line", async function () {
+      const { recipients, plan } = await loadFixture(tokensFixture);
+      const distribution = await plan("recipients.csv", `${recipients[0]},5`, "mint", "EURS");
+      const journalFile = path.join(directory, "journal.jsonl");
+      await openJournal(journalFile, distribution, 31337);
+      await writeFile(journalFile, `${await readFile(journalFile, "utf8")}{"type":\n{}\n`);
+
+      await expect(openJournal(journalFile, distribution, 31337)).to.be.rejectedWith(
+        `${journalFile} is corrupt at line 2`,
+      );
+    });
+
+    it("refuses to resume a journal of another distribution", async function () {
+      const { recipients, plan } = await loadFixture(tokensFixture);
+      const journalFile = path.join(directory, "journal.jsonl");
+      await openJournal(journalFile, await plan("recipients.csv", `${recipients[0]},5`, "mint", "EURS"), 31337);
+
+      await expect(
+        openJournal(journalFile, await plan("recipients.csv", `${recipients[0]},6`, "mint", "EURS"), 31337),
+      ).to.be.rejectedWith("journals another distribution");
+    });
+
+    it("transfers only what the sender holds", async function () {
+      const { clients, deployer, recipients, plan } = await loadFixture(tokensFixture);
+      const distribution = await plan("recipients.csv", `${recipients[0]},5`, "transfer", "EURS");
+      const journal = await openJournal(path.join(directory, "journal.jsonl"), distribution, 31337);
+
+      await expect(checkSender(clients.publicClient, distribution, journal, deployer)).to.be.rejectedWith(
+        `${deployer} holds 0 EURS, the distribution needs ${parseEther("5")}`,
+      );
+    });
+  });
+
+  it("pays out a plan through Ignition", async function () {
+    const { clients, recipients, usds, plan } = await loadFixture(tokensFixture);
+    const file = path.join(directory, "recipients.json");
+    await writeFile(file, JSON.stringify(recipients.map((address) => ({ address, amount: "2.5" }))));
+    const distribution = await plan(file, await readFile(file, "utf8"), "mint", "USDS");
+    const journal = await openJournal(`${file}.journal.jsonl`, distribution, 31337);
+    await recordBaselines(clients.publicClient, distribution, journal);
+
+    const { USDS } = (await hre.ignition.deploy(buildDistributionModule(distribution))) as Record<
+      string,
+      { address: Address }
+    >;
+    const report = await reconcileDistribution(clients.publicClient, distribution, journal);
+
+    expect(USDS.address).to.equal(usds);
+    expect(report.ok).to.equal(true);
+    expect(report.entries.map((entry) => entry.actual)).to.deep.equal(recipients.map(() => `${parseEther("2.5")}`));
+  });
+});
@@ -0,0 +1,70 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { getAddress, parseEther, type Hex } from "viem";
+import { buildAlloc, PRESET_ADDRESSES, SEEDED_TOKEN_ADDRESS_START, type GenesisToken } from "../scripts/genesis/alloc";
+import { verifyAlloc, type VerificationCheck } from "../scripts/genesis/verify";
+
+function failed(checks: VerificationCheck[]) {
+  return checks.filter((check) => !check.ok).map((check) => check.name);
+}
+
+describe("Genesis alloc", function () {
+  // verifyAlloc creates tokens and a pair at the preset addresses, so every test leaves the chain as it found it
+  let snapshot: Hex;
+  let chainId: number;
+
+  beforeEach(async function () {
+    const publicClient = await hre.viem.getPublicClient();
+    const testClient = await hre.viem.getTestClient();
+    snapshot = await testClient.snapshot();
+    chainId = await publicClient.getChainId();
+  });
+
+  afterEach(async function () {
+    const testClient = await hre.viem.getTestClient();
+    await testClient.revert({ id: snapshot });
+  });
+
+  it("behaves like a regular deployment of the contract set", async function () {
+    const alloc = await buildAlloc(hre.artifacts, { chainId });
+
+    expect(Object.keys(alloc)).to.have.members(Object.values(PRESET_ADDRESSES));
+    expect(failed(await verifyAlloc(hre, alloc))).to.deep.equal([]);
+  });
+
+  it("seeds tokens that behave like tokens created through the factory", async function () {
+    const [owner, holder] = await hre.viem.getWalletClients();
+    const tokens: GenesisToken[] = [
+      {
+        name: "Genesis Euro",
+        symbol: "GEUR",
+        owner: owner.account.address,
+        balances: { [holder.account.address]: parseEther("1000").toString() },
+      },
+      { name: "Genesis Dollar", symbol: "GUSD", extraData: "stable", owner: owner.account.address },
+    ];
+    const alloc = await buildAlloc(hre.artifacts, { chainId, tokens });
+
+    const token = await hre.viem.getContractAt("StarterKitERC20", `0x${SEEDED_TOKEN_ADDRESS_START.toString(16)}`);
+    const checks = await verifyAlloc(hre, alloc, tokens);
+    expect(failed(checks)).to.deep.equal([]);
+    expect(checks.map((check) => check.name)).to.include.members(["GEUR DOMAIN_SEPARATOR", "registry GUSD by symbol"]);
+    expect(await token.read.balanceOf([holder.account.address])).to.equal(parseEther("1000"));
+  });
+
+  it("flags seeded balances that differ from the tokens the alloc was built for", async function () {
+    const [owner, holder] = await hre.viem.getWalletClients();
+    const token = (amount: string): GenesisToken => ({
+      name: "Genesis Euro",
+      symbol: "GEUR",
+      owner: owner.account.address,
+      balances: { [holder.account.address]: parseEther(amount).toString() },
+    });
+    const alloc = await buildAlloc(hre.artifacts, { chainId, tokens: [token("1000")] });
+
+    expect(failed(await verifyAlloc(hre, alloc, [token("999")]))).to.deep.equal([
+      "GEUR totalSupply",
+      `GEUR balanceOf ${getAddress(holder.account.address)}`,
+    ]);
+  });
+});
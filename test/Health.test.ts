@@ -0,0 +1,157 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { getAddress, numberToHex, pad, parseEther, size, slice, type Address, type Hex, type PublicClient } from "viem";
+import { loadScenario } from "../ignition/scenario";
+import { buildAlloc } from "../scripts/genesis/alloc";
+import type { StorageLayout } from "../scripts/genesis/storage";
+import { checkHealth, presetContracts, type DeployedSet, type HealthReport } from "../scripts/health/check";
+import { deploySeed } from "../scripts/ignition/seed";
+import { blockDeadline } from "../sdk";
+
+function failed(report: HealthReport) {
+  return report.checks.filter((check) => !check.ok).map((check) => `${check.subject}: ${check.name}`);
+}
+
+describe("Deployment health", function () {
+  async function deploymentFixture() {
+    const publicClient = (await hre.viem.getPublicClient()) as PublicClient;
+    const testClient = await hre.viem.getTestClient();
+    const [deployer] = await hre.viem.getWalletClients();
+    const swapDeadline = await blockDeadline(publicClient, 3600);
+
+    const deploymentDir = await mkdtemp(path.join(tmpdir(), "ignition-"));
+    const deployed = await deploySeed(hre, loadScenario(), deploymentDir, { DexModule: { swapDeadline } });
+    await rm(deploymentDir, { recursive: true, force: true });
+    const set: DeployedSet = {
+      source: "test",
+      contracts: [
+        { id: "registry", contractName: "StarterKitERC20Registry" },
+        { id: "factory", contractName: "StarterKitERC20Factory" },
+        { id: "dexFactory", contractName: "StarterKitERC20DexFactory" },
+      ].map((contract) => ({ ...contract, address: deployed[`ContractsModule#${contract.contractName}`] })),
+    };
+    const pair = await hre.viem.getContractAt("StarterKitERC20Dex", deployed["DexModule#contract_pair_instance"]);
+    // The factory orders the tokens by address, which decides the name of the LP token
+    const subject = `pair ${await pair.read.name()}`;
+
+    return { publicClient, testClient, deployer, set, pair, subject };
+  }
+
+  it("passes a deployment that matches the artifacts", async function () {
+    const { publicClient, deployer, set, pair, subject } = await loadFixture(deploymentFixture);
+
+    const report = await checkHealth(publicClient, hre.artifacts, [set]);
+
+    expect(failed(report)).to.deep.equal([]);
+    expect(report.ok).to.equal(true);
+    expect(report.pairs).to.have.lengthOf(1);
+    const [health] = report.pairs;
+    expect(health.address).to.equal(getAddress(pair.address));
+    expect(health.balancesVerified).to.equal(true);
+    expect([health.baseGap, health.quoteGap]).to.deep.equal(["0", "0"]);
+    expect(health.swapFee).to.equal("100");
+    expect(health.roles.DEFAULT_ADMIN_ROLE).to.deep.equal([getAddress(deployer.account.address)]);
+    expect(report.checks.map((check) => check.subject)).to.include.members([
+      "test registry",
+      "test factory",
+      subject,
+      `${subject} timelock`,
+    ]);
+  });
+
+  it("reports the gap a withdrawal leaves between the balances and the reserves", async function () {
+    const { publicClient, set, pair, subject } = await loadFixture(deploymentFixture);
+    const baseToken = await pair.read.baseToken();
+    await pair.write.emergencyWithdraw([baseToken, parseEther("1")]);
+    await pair.write.pause();
+
+    const report = await checkHealth(publicClient, hre.artifacts, [set]);
+
+    expect(report.ok).to.equal(false);
+    expect(failed(report)).to.deep.equal([
+      `${subject}: verifyBalances()`,
+      `${subject}: base balance`,
+      `${subject}: paused`,
+    ]);
+    expect(report.pairs[0].baseGap).to.equal(`${-parseEther("1")}`);
+  });
+
+  it("passes a pair without a swap fee", async function () {
+    const { publicClient, testClient, set, pair } = await loadFixture(deploymentFixture);
+    // The pair only takes a fee above zero, so the fee is cleared in its storage
+    const buildInfo = await hre.artifacts.getBuildInfo("contracts/StarterKitERC20Dex.sol:StarterKitERC20Dex");
+    const { storageLayout } = buildInfo!.output.contracts["contracts/StarterKitERC20Dex.sol"].StarterKitERC20Dex as {
+      storageLayout?: StorageLayout;
+    };
+    const slot = storageLayout!.storage.find((entry) => entry.label === "swapFee")!.slot;
+    await testClient.setStorageAt({
+      address: pair.address,
+      index: numberToHex(BigInt(slot), { size: 32 }),
+      value: pad("0x0"),
+    });
+
+    const report = await checkHealth(publicClient, hre.artifacts, [set]);
+
+    expect(failed(report)).to.deep.equal([]);
+    expect(report.pairs[0].swapFee).to.equal("0");
+  });
+
+  it("ignores the metadata but not the code", async function () {
+    const { publicClient, testClient, set } = await loadFixture(deploymentFixture);
+    const [registry, factory] = set.contracts;
+    const code = (await publicClient.getBytecode({ address: registry.address })) as Hex;
+
+    // The last byte before the two length bytes lies within the metadata
+    const metadataLength = Number(`0x${code.slice(-4)}`);
+    const changedMetadata = `${slice(code, 0, size(code) - 3)}ff${code.slice(-4)}` as Hex;
+    expect(metadataLength).to.be.above(3);
+    await testClient.setCode({ address: registry.address, bytecode: changedMetadata });
+    expect((await checkHealth(publicClient, hre.artifacts, [set])).ok).to.equal(true);
+
+    await testClient.setCode({ address: factory.address, bytecode: code });
+    expect(failed(await checkHealth(publicClient, hre.artifacts, [set]))).to.deep.equal([
+      "test factory: runtime code",
+      "test factory: registry()",
+    ]);
+  });
+
+  it("checks the wiring of the factory to its registry", async function () {
+    const { publicClient, set } = await loadFixture(deploymentFixture);
+    const otherRegistry = await hre.viem.deployContract("StarterKitERC20Registry");
+    const rewired = {
+      ...set,
+      contracts: set.contracts.map((contract) =>
+        contract.id === "registry" ? { ...contract, address: otherRegistry.address } : contract,
+      ),
+    };
+
+    const report = await checkHealth(publicClient, hre.artifacts, [rewired]);
+
+    expect(failed(report)).to.deep.equal(["test factory: registry()"]);
+  });
+
+  it("checks the preset contracts of the genesis alloc", async function () {
+    const { publicClient, testClient } = await loadFixture(deploymentFixture);
+    const alloc = await buildAlloc(hre.artifacts);
+    for (const [address, account] of Object.entries(alloc) as [Address, (typeof alloc)[Address]][]) {
+      await testClient.setCode({ address, bytecode: account.code });
+      for (const [index, value] of Object.entries(account.storage) as [Hex, Hex][]) {
+        await testClient.setStorageAt({ address, index, value });
+      }
+    }
+
+    const report = await checkHealth(publicClient, hre.artifacts, [presetContracts()]);
+
+    expect(failed(report)).to.deep.equal([]);
+    expect(report.checks.map((check) => `${check.subject}: ${check.name}`)).to.deep.equal([
+      "preset registry: runtime code",
+      "preset factory: runtime code",
+      "preset dexFactory: runtime code",
+      "preset factory: registry()",
+    ]);
+  });
+});
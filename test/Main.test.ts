@@ -0,0 +1,197 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { getAddress, parseEther, toFunctionSelector, type Address, type PublicClient, type WalletClient } from "viem";
+import { buildTokenModule } from "../ignition/modules/tokens";
+import { loadScenario } from "../ignition/scenario";
+import { deploySeed } from "../scripts/ignition/seed";
+import {
+  blockDeadline,
+  createDexClient,
+  createFactoryClient,
+  createRegistryClient,
+  createTokenClient,
+  getAmountOfTokens,
+  MINIMUM_LIQUIDITY,
+  starterKitERC20DexAbi,
+  TokenSymbolAlreadyExistsError,
+  type StarterKitClients,
+} from "../sdk";
+
+describe("main.ts", function () {
+  async function deploymentFixture() {
+    const publicClient = (await hre.viem.getPublicClient()) as PublicClient;
+    const walletClients = (await hre.viem.getWalletClients()) as WalletClient[];
+    const clients: StarterKitClients = { publicClient, walletClient: walletClients[0] };
+    const [deployer, recipient] = walletClients.map(({ account }) => getAddress(account!.address));
+
+    const swapDeadline = await blockDeadline(publicClient, 3600);
+    // The deployment is seeded in two steps like seed:deploy does, its state is not needed afterwards
+    const deploymentDir = await mkdtemp(path.join(tmpdir(), "ignition-"));
+    const deployed = await deploySeed(hre, loadScenario(), deploymentDir, { DexModule: { swapDeadline } });
+    await rm(deploymentDir, { recursive: true, force: true });
+
+    const registry = { address: deployed["ContractsModule#StarterKitERC20Registry"] };
+    const factory = { address: deployed["ContractsModule#StarterKitERC20Factory"] };
+    const dex = createDexClient(clients, deployed["DexModule#contract_pair_instance"]);
+    const state = await dex.getState();
+    // The base and quote tokens of the scenario, which the factory may have ordered the other way around in the pair
+    const base = createTokenClient(clients, deployed["TokenModule#contract_token1_instance"]);
+    const quote = createTokenClient(clients, deployed["TokenModule#contract_token2_instance"]);
+    return { clients, deployer, recipient, registry, factory, dex, state, base, quote };
+  }
+
+  describe("seed", function () {
+    it("registers the tokens of the scenario", async function () {
+      const { clients, registry } = await loadFixture(deploymentFixture);
+
+      const tokens = await createRegistryClient(clients, registry.address).getTokenList();
+
+      expect(tokens.map(({ symbol, extraData }) => ({ symbol, extraData }))).to.deep.equal([
+        { symbol: "EXT", extraData: "This is an example token" },
+        { symbol: "EXT2", extraData: "This is an example token 2" },
+      ]);
+      const names = await Promise.all(
+        tokens.map(({ tokenAddress }) => createTokenClient(clients, tokenAddress).name()),
+      );
+      expect(names).to.deep.equal(["Example Token", "Example Token 2"]);
+    });
+
+    it("mints to the deployer and transfers to the second account", async function () {
+      const { deployer, recipient, state, base, quote } = await loadFixture(deploymentFixture);
+      const quoteBought = getAmountOfTokens(parseEther("3"), parseEther("100"), parseEther("100"), state.swapFee);
+
+      // 1000 minted, 5 transferred, 100 added as liquidity, and 3 base tokens sold for quote tokens
+      expect(await base.balanceOf(deployer)).to.equal(parseEther("892"));
+      expect(await quote.balanceOf(deployer)).to.equal(parseEther("895") + quoteBought);
+      expect(await base.balanceOf(recipient)).to.equal(parseEther("5"));
+      expect(await quote.balanceOf(recipient)).to.equal(parseEther("5"));
+    });
+
+    it("adds the initial liquidity to the pair", async function () {
+      const { clients, deployer, dex } = await loadFixture(deploymentFixture);
+      const [mint] = await clients.publicClient.getContractEvents({
+        address: dex.address,
+        abi: starterKitERC20DexAbi,
+        eventName: "Mint",
+        fromBlock: "earliest",
+      });
+
+      const reserves = await Promise.all(
+        (["getBaseTokenBalance", "getQuoteTokenBalance"] as const).map((functionName) =>
+          clients.publicClient.readContract({
+            address: dex.address,
+            abi: starterKitERC20DexAbi,
+            functionName,
+            blockNumber: mint.blockNumber,
+          }),
+        ),
+      );
+      expect(reserves).to.deep.equal([parseEther("100"), parseEther("100")]);
+      expect(mint.args.liquidity).to.equal(parseEther("100") - MINIMUM_LIQUIDITY);
+      expect(await dex.balanceOf(deployer)).to.equal(parseEther("100") - MINIMUM_LIQUIDITY);
+    });
+
+    it("executes the swap of the scenario against the initial reserves", async function () {
+      const { clients, deployer, dex, state, base, quote } = await loadFixture(deploymentFixture);
+      const quoteBought = getAmountOfTokens(parseEther("3"), parseEther("100"), parseEther("100"), state.swapFee);
+
+      const [swap] = await clients.publicClient.getContractEvents({
+        address: dex.address,
+        abi: starterKitERC20DexAbi,
+        eventName: "Swap",
+        fromBlock: "earliest",
+      });
+      expect(swap.args).to.deep.include(
+        state.baseToken === base.address
+          ? { sender: deployer, baseAmountIn: parseEther("3"), quoteAmountOut: quoteBought }
+          : { sender: deployer, quoteAmountIn: parseEther("3"), baseAmountOut: quoteBought },
+      );
+      expect(await base.balanceOf(dex.address)).to.equal(parseEther("103"));
+      expect(await quote.balanceOf(dex.address)).to.equal(parseEther("100") - quoteBought);
+      expect(await dex.verifyBalances()).to.equal(true);
+    });
+  });
+
+  describe("reverts", function () {
+    it("rejects a token with a symbol that is already registered", async function () {
+      const { clients, factory } = await loadFixture(deploymentFixture);
+
+      await expect(
+        createFactoryClient(clients, factory.address).createToken("Another Token", "EXT"),
+      ).to.be.rejectedWith(TokenSymbolAlreadyExistsError);
+    });
+
+    it("fails a scenario that registers the same symbol twice", async function () {
+      const scenario = loadScenario();
+      const duplicate = { ...scenario.tokens[0], id: "duplicate", name: "Duplicate Token" };
+      const TokenModule = buildTokenModule({ ...scenario, tokens: [...scenario.tokens, duplicate] });
+
+      // Either creation can come second, and the registry error is not part of the ABI of the factory Ignition calls
+      const selector = toFunctionSelector("TokenSymbolAlreadyExists(string)");
+      await expect(hre.ignition.deploy(TokenModule)).to.be.rejectedWith(
+        new RegExp(`TokenModule#create_(token1|duplicate)[\\s\\S]*${selector}`),
+      );
+    });
+  });
+
+  describe("redeploys", function () {
+    let deploymentDir: string;
+
+    // The in-process network keeps no deployment state, so the journal lives in a directory of the test like it does
+    // in ignition/deployments on other networks
+    async function deployMain(swapDeadline: bigint): Promise<Record<string, Address>> {
+      return deploySeed(hre, loadScenario(), deploymentDir, { DexModule: { swapDeadline } });
+    }
+
+    beforeEach(async function () {
+      deploymentDir = await mkdtemp(path.join(tmpdir(), "ignition-"));
+    });
+
+    afterEach(async function () {
+      await rm(deploymentDir, { recursive: true, force: true });
+    });
+
+    it("resumes a finished deployment without sending any transaction", async function () {
+      const publicClient = await hre.viem.getPublicClient();
+      const swapDeadline = await blockDeadline(publicClient, 3600);
+
+      const first = await deployMain(swapDeadline);
+      const blockNumber = await publicClient.getBlockNumber();
+      const second = await deployMain(swapDeadline);
+
+      expect(second).to.deep.equal(first);
+      expect(await publicClient.getBlockNumber()).to.equal(blockNumber);
+    });
+
+    it("refuses to resume with another swap deadline", async function () {
+      const publicClient = await hre.viem.getPublicClient();
+      const swapDeadline = await blockDeadline(publicClient, 3600);
+
+      await deployMain(swapDeadline);
+
+      await expect(deployMain(swapDeadline + 1n)).to.be.rejectedWith(/DexModule#execute_pair_swap/);
+    });
+
+    it("deploys a new set of contracts after a reset", async function () {
+      const publicClient = await hre.viem.getPublicClient();
+      const clients: StarterKitClients = { publicClient: publicClient as PublicClient };
+      const registryFuture = "ContractsModule#StarterKitERC20Registry";
+
+      const first = await deployMain(await blockDeadline(publicClient, 3600));
+      // What `ignition deploy --reset` does before deploying
+      await rm(deploymentDir, { recursive: true, force: true });
+      const second = await deployMain(await blockDeadline(publicClient, 3600));
+
+      expect(second[registryFuture]).to.not.equal(first[registryFuture]);
+      // Symbols are unique per registry, so the new one registers the same tokens again
+      for (const deployment of [first, second]) {
+        const tokens = await createRegistryClient(clients, deployment[registryFuture]).getTokenList();
+        expect(tokens.map(({ symbol }) => symbol)).to.deep.equal(["EXT", "EXT2"]);
+      }
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { getAddress, parseAbiItem, parseEther, type PublicClient, type WalletClient } from "viem";
+import { ContractsModule } from "../ignition/modules/contracts";
+import {
+  blockDeadline,
+  createDexClient,
+  createDexFactoryClient,
+  createFactoryClient,
+  createTokenClient,
+  DomainSeparatorMismatchError,
+  ERC2612ExpiredSignatureError,
+  ERC2612InvalidSignerError,
+  permitDeadline,
+  permitDomain,
+  type StarterKitClients,
+} from "../sdk";
+
+const approvalEvent = parseAbiItem("event Approval(address indexed owner, address indexed spender, uint256 value)");
+
+describe("Permits", function () {
+  // The owner holds tokens but no ETH is spent on approvals, a relayer submits its permits
+  async function pairFixture() {
+    const publicClient = (await hre.viem.getPublicClient()) as PublicClient;
+    const [ownerWallet, relayerWallet, spenderWallet] = (await hre.viem.getWalletClients()) as WalletClient[];
+    const owner: StarterKitClients = { publicClient, walletClient: ownerWallet };
+    const relayer: StarterKitClients = { publicClient, walletClient: relayerWallet };
+
+    const { factory, dexFactory } = await hre.ignition.deploy(ContractsModule);
+    const { tokenAddress: eurs } = await createFactoryClient(owner, factory.address).createToken("Euro", "EURS", "");
+    const { tokenAddress: usds } = await createFactoryClient(owner, factory.address).createToken("Dollar", "USDS", "");
+    const { pairAddress } = await createDexFactoryClient(owner, dexFactory.address).createPair(eurs, usds);
+    await createTokenClient(owner, eurs).mint(ownerWallet.account!.address, parseEther("100"));
+    await createTokenClient(owner, usds).mint(ownerWallet.account!.address, parseEther("100"));
+
+    const pair = createDexClient(owner, pairAddress);
+    const { baseToken, quoteToken } = await pair.getState();
+
+    return {
+      owner,
+      relayer,
+      ownerAddress: getAddress(ownerWallet.account!.address),
+      spenderAddress: getAddress(spenderWallet.account!.address),
+      pair,
+      base: createTokenClient(owner, baseToken),
+      quote: createTokenClient(owner, quoteToken),
+    };
+  }
+
+  it("adds liquidity without an approve transaction of the owner", async function () {
+    const { owner, relayer, ownerAddress, pair, base, quote } = await loadFixture(pairFixture);
+    const deadline = await permitDeadline(owner.publicClient, 3600);
+    const nonceBefore = await owner.publicClient.getTransactionCount({ address: ownerAddress });
+
+    const basePermit = await base.signPermit(pair.address, parseEther("10"), deadline);
+    const quotePermit = await quote.signPermit(pair.address, parseEther("20"), deadline);
+    const { receipt } = await createTokenClient(relayer, base.address).permit(basePermit);
+    await createTokenClient(relayer, quote.address).permit(quotePermit);
+
+    // Only the relayer sent transactions so far
+    expect(await owner.publicClient.getTransactionCount({ address: ownerAddress })).to.equal(nonceBefore);
+    expect(await base.allowance(ownerAddress, pair.address)).to.equal(parseEther("10"));
+    expect(await base.nonces(ownerAddress)).to.equal(1n);
+    const [approval] = await owner.publicClient.getLogs({
+      address: base.address,
+      event: approvalEvent,
+      blockHash: receipt.blockHash,
+    });
+    expect(approval.args).to.deep.equal({ owner: ownerAddress, spender: pair.address, value: parseEther("10") });
+
+    await pair.addLiquidity(parseEther("10"), parseEther("20"));
+
+    const state = await pair.getState();
+    expect([state.baseReserve, state.quoteReserve]).to.deep.equal([parseEther("10"), parseEther("20")]);
+    expect(await pair.balanceOf(ownerAddress)).to.not.equal(0n);
+    expect(await base.allowance(ownerAddress, pair.address)).to.equal(0n);
+  });
+
+  it("swaps with a permit for the sold tokens", async function () {
+    const { owner, relayer, ownerAddress, pair, base, quote } = await loadFixture(pairFixture);
+    await base.approve(pair.address, parseEther("10"));
+    await quote.approve(pair.address, parseEther("10"));
+    await pair.addLiquidity(parseEther("10"), parseEther("10"));
+
+    const permit = await base.signPermit(pair.address, parseEther("0.2"), await permitDeadline(owner.publicClient, 60));
+    await createTokenClient(relayer, base.address).permit(permit);
+    const quoteBefore = await quote.balanceOf(ownerAddress);
+    const amountOut = await pair.quoteBaseToQuote(parseEther("0.2"));
+    await pair.swapBaseToQuote(parseEther("0.2"), amountOut, await blockDeadline(owner.publicClient, 600));
+
+    expect(await quote.balanceOf(ownerAddress)).to.equal(quoteBefore + amountOut);
+  });
+
+  it("lets another account move LP tokens with a permit", async function () {
+    const { owner, relayer, ownerAddress, spenderAddress, pair, base, quote } = await loadFixture(pairFixture);
+    await base.approve(pair.address, parseEther("10"));
+    await quote.approve(pair.address, parseEther("10"));
+    await pair.addLiquidity(parseEther("10"), parseEther("10"));
+    const shares = await pair.balanceOf(ownerAddress);
+
+    const permit = await pair.signPermit(spenderAddress, shares, await permitDeadline(owner.publicClient, 60));
+    await createDexClient(relayer, pair.address).permit(permit);
+
+    expect(await pair.nonces(ownerAddress)).to.equal(1n);
+    const lpToken = createTokenClient(owner, pair.address);
+    expect(await lpToken.allowance(ownerAddress, spenderAddress)).to.equal(shares);
+  });
+
+  it("rejects a permit that is replayed or expired", async function () {
+    const { owner, relayer, base, pair } = await loadFixture(pairFixture);
+    const relayed = createTokenClient(relayer, base.address);
+    const permit = await base.signPermit(pair.address, parseEther("1"), await permitDeadline(owner.publicClient, 60));
+    await relayed.permit(permit);
+
+    // The nonce moved on, so the signature recovers to another signer
+    await expect(relayed.permit(permit)).to.be.rejectedWith(ERC2612InvalidSignerError);
+
+    const expiring = await base.signPermit(pair.address, parseEther("1"), await permitDeadline(owner.publicClient, 60));
+    await time.increase(120);
+    await expect(relayed.permit(expiring))
+      .to.be.rejectedWith(ERC2612ExpiredSignatureError)
+      .and.eventually.have.property("deadline", expiring.deadline);
+    await expect(base.signPermit(pair.address, parseEther("1"), expiring.deadline)).to.be.rejectedWith(
+      ERC2612ExpiredSignatureError,
+    );
+  });
+
+  it("validates the domain against the DOMAIN_SEPARATOR of the contract", async function () {
+    const { owner, base, pair } = await loadFixture(pairFixture);
+
+    expect(await permitDomain(owner.publicClient, base.address)).to.deep.equal({
+      name: await base.name(),
+      version: "1",
+      chainId: 31337,
+      verifyingContract: base.address,
+    });
+
+    // A client connected to another chain would sign permits the contract rejects
+    const otherChain = { ...owner.publicClient, getChainId: async () => 1 } as PublicClient;
+    await expect(permitDomain(otherChain, pair.address)).to.be.rejectedWith(DomainSeparatorMismatchError);
+  });
+});
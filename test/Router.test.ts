@@ -0,0 +1,131 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { parseEther, type Address, type PublicClient, type WalletClient } from "viem";
+import { loadScenario } from "../ignition/scenario";
+import { deploySeed } from "../scripts/ignition/seed";
+import {
+  blockDeadline,
+  createRouterClient,
+  createTokenClient,
+  DeadlineExpiredError,
+  findBestRoute,
+  NoRouteError,
+  quoteBaseToQuote,
+  type DexState,
+  type StarterKitClients,
+} from "../sdk";
+
+describe("Router", function () {
+  // Tokens A and B, and B and C, trade in deep pairs, while the direct pair of A and C holds 20 tokens of each
+  async function triangleFixture() {
+    const publicClient = (await hre.viem.getPublicClient()) as PublicClient;
+    const [walletClient] = (await hre.viem.getWalletClients()) as WalletClient[];
+    const clients: StarterKitClients = { publicClient, walletClient };
+
+    // The deployment is seeded in two steps like seed:deploy does, its state is not needed afterwards
+    const scenario = loadScenario(path.resolve(__dirname, "../ignition/scenarios/triangle.json"));
+    const deploymentDir = await mkdtemp(path.join(tmpdir(), "ignition-"));
+    const deployed = await deploySeed(hre, scenario, deploymentDir);
+    await rm(deploymentDir, { recursive: true, force: true });
+
+    const pairs: Record<string, { address: Address }> = {};
+    for (const { id } of scenario.pairs) pairs[id] = { address: deployed[`DexModule#contract_${id}_instance`] };
+    const router = createRouterClient(clients, deployed["ContractsModule#StarterKitERC20DexFactory"]);
+
+    const tokens = async (pair: string) => {
+      const contract = await hre.viem.getContractAt("StarterKitERC20Dex", pairs[pair].address);
+      return [await contract.read.baseToken(), await contract.read.quoteToken()];
+    };
+    const [pairAB, pairBC] = [await tokens("pairAB"), await tokens("pairBC")];
+    const tokenB = pairAB.find((token) => pairBC.includes(token))!;
+    const tokenA = pairAB.find((token) => token !== tokenB)!;
+    const tokenC = pairBC.find((token) => token !== tokenB)!;
+
+    return { clients, router, pairs, tokenA, tokenB, tokenC };
+  }
+
+  it("routes through the deep pairs when they beat the direct pair", async function () {
+    const { router, pairs, tokenA, tokenB, tokenC } = await loadFixture(triangleFixture);
+
+    const route = await router.quote(tokenA, tokenC, parseEther("0.5"));
+
+    expect(route.hops.map((hop) => hop.pair)).to.deep.equal([pairs.pairAB.address, pairs.pairBC.address]);
+    expect(route.hops.map((hop) => hop.tokenOut)).to.deep.equal([tokenB, tokenC]);
+    expect(route.amountOut).to.equal(route.hops[1].amountOut);
+  });
+
+  it("takes the direct pair when one hop is enough", async function () {
+    const { router, pairs, tokenA, tokenC } = await loadFixture(triangleFixture);
+
+    const route = await router.quote(tokenA, tokenC, parseEther("0.5"), 1);
+
+    expect(route.hops.map((hop) => hop.pair)).to.deep.equal([pairs.pairAC.address]);
+  });
+
+  it("swaps every hop of the route and delivers the quoted amount", async function () {
+    const { clients, router, tokenA, tokenC } = await loadFixture(triangleFixture);
+    const account = clients.walletClient!.account!.address;
+    const tokenOut = createTokenClient(clients, tokenC);
+
+    const route = await router.quote(tokenA, tokenC, parseEther("2"));
+    const balanceBefore = await tokenOut.balanceOf(account);
+    const result = await router.swap(route, 50n, await blockDeadline(clients.publicClient, 3600));
+
+    // Nothing else trades in between, so every hop returns exactly what it was quoted
+    expect(result.hops).to.have.length(route.hops.length);
+    expect(result.hops.map((hop) => hop.amountOut)).to.deep.equal(route.hops.map((hop) => hop.amountOut));
+    expect(await tokenOut.balanceOf(account)).to.equal(balanceBefore + route.amountOut);
+  });
+
+  it("rejects a route whose deadline has already passed before swapping", async function () {
+    const { clients, router, tokenA, tokenC } = await loadFixture(triangleFixture);
+
+    const route = await router.quote(tokenA, tokenC, parseEther("1"));
+
+    await expect(router.swap(route, 50n, await clients.publicClient.getBlockNumber())).to.be.rejectedWith(
+      DeadlineExpiredError,
+    );
+  });
+
+  it("leaves out hops that sell more than 3% of the base reserve", function () {
+    const [tokenA, tokenB, tokenC] = [
+      "0x00000000000000000000000000000000000000a1",
+      "0x00000000000000000000000000000000000000b2",
+      "0x00000000000000000000000000000000000000c3",
+    ] as Address[];
+    const pair = (address: Address, baseToken: Address, quoteToken: Address, reserve: bigint): DexState => ({
+      address,
+      baseToken,
+      quoteToken,
+      baseReserve: reserve,
+      quoteReserve: reserve,
+      swapFee: 30n,
+      totalSupply: reserve,
+      paused: false,
+    });
+    // The direct pair is the deepest, but 50 tokens are more than 3% of its base reserve. The other pairs sell their
+    // quote token, which has no cap
+    const direct = pair("0x0000000000000000000000000000000000000ac1", tokenA, tokenC, parseEther("1000"));
+    const viaB = [
+      pair("0x0000000000000000000000000000000000000ab1", tokenB, tokenA, parseEther("500")),
+      pair("0x0000000000000000000000000000000000000bc1", tokenC, tokenB, parseEther("500")),
+    ];
+
+    expect(() => quoteBaseToQuote(direct, parseEther("50"))).to.throw("SwapAmountTooLarge");
+    const route = findBestRoute([direct, ...viaB], tokenA, tokenC, parseEther("50"));
+
+    expect(route.hops.map((hop) => hop.pair)).to.deep.equal(viaB.map(({ address }) => address));
+    expect(route.hops.map((hop) => hop.direction)).to.deep.equal(["quoteToBase", "quoteToBase"]);
+  });
+
+  it("throws NoRouteError when no pairs connect the tokens", async function () {
+    const { router, tokenA } = await loadFixture(triangleFixture);
+    const unknown = "0x000000000000000000000000000000000000dEaD";
+
+    await expect(router.quote(tokenA, unknown, parseEther("1"))).to.be.rejectedWith(NoRouteError);
+  });
+});
@@ -0,0 +1,220 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox-viem/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { createServer, type Server } from "node:http";
+import { mkdtemp, rm } from "node:fs/promises";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { getAddress, parseAbiItem, parseEther, zeroAddress, type Address, type PublicClient } from "viem";
+import { loadScenario } from "../ignition/scenario";
+import { blockDeadline, starterKitERC20DexAbi } from "../sdk";
+import { deploySeed } from "../scripts/ignition/seed";
+import { auditSubgraph } from "../scripts/subgraph/audit";
+import { createSubgraphClient } from "../scripts/subgraph/query";
+
+type Entity = { id: string } & Record<string, unknown>;
+type Collections = Record<"erc20Contracts" | "erc20Balances" | "erc20DexPairs" | "erc20DexStakes", Entity[]>;
+
+const transferEvent = parseAbiItem("event Transfer(address indexed from, address indexed to, uint256 value)");
+
+/**
+ * Indexes the tokens, balances, pairs and stakes from the Transfer logs between two blocks the way the subgraph
+ * mappings do, standing in for the entities a graph node would serve.
+ */
+async function indexChain(
+  publicClient: PublicClient,
+  pairs: Address[],
+  fromBlock: bigint,
+  blockNumber: bigint,
+): Promise<Collections> {
+  const logs = await publicClient.getLogs({ event: transferEvent, fromBlock, toBlock: blockNumber });
+  const supplies = new Map<string, bigint>();
+  const balances = new Map<string, { contract: string; account: string; value: bigint }>();
+  const move = (contract: string, account: string, amount: bigint) => {
+    const id = `${contract}/${account}`;
+    const balance = balances.get(id) ?? { contract, account, value: 0n };
+    balances.set(id, { ...balance, value: balance.value + amount });
+  };
+
+  for (const { address, args } of logs) {
+    const contract = address.toLowerCase();
+    const [from, to] = [args.from!.toLowerCase(), args.to!.toLowerCase()];
+    supplies.set(contract, supplies.get(contract) ?? 0n);
+    if (from === zeroAddress) supplies.set(contract, supplies.get(contract)! + args.value!);
+    else move(contract, from, -args.value!);
+    if (to === zeroAddress) supplies.set(contract, supplies.get(contract)! - args.value!);
+    else move(contract, to, args.value!);
+  }
+
+  const lpTokens = pairs.map((pair) => pair.toLowerCase());
+  const holdings = [...balances].map(([id, { contract, account, value }]) => ({
+    id,
+    contract: { id: contract },
+    account: { id: account },
+    valueExact: value.toString(),
+  }));
+  const read = (pair: Address, functionName: "getBaseTokenBalance" | "getQuoteTokenBalance" | "swapFee") =>
+    publicClient.readContract({ address: pair, abi: starterKitERC20DexAbi, functionName, blockNumber });
+
+  return {
+    erc20Contracts: [...supplies].map(([id, supply]) => ({ id, totalSupplyExact: supply.toString() })),
+    erc20Balances: holdings,
+    erc20DexPairs: await Promise.all(
+      pairs.map(async (pair) => ({
+        id: pair.toLowerCase(),
+        baseReserveExact: (await read(pair, "getBaseTokenBalance")).toString(),
+        quoteReserveExact: (await read(pair, "getQuoteTokenBalance")).toString(),
+        totalSupplyExact: supplies.get(pair.toLowerCase())!.toString(),
+        swapFee: (await read(pair, "swapFee")).toString(),
+      })),
+    ),
+    erc20DexStakes: holdings
+      .filter((holding) => lpTokens.includes(holding.contract.id))
+      .map(({ id, contract, account, valueExact }) => ({ id, pair: contract, account, valueExact })),
+  };
+}
+
+/** Answers the queries of the auditor from the indexed collections, like a graph node that indexed up to a block */
+async function serveSubgraph(collections: Collections, indexedBlock: bigint): Promise<Server> {
+  const server = createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      const { query, variables } = JSON.parse(body) as { query: string; variables: Record<string, unknown> };
+      const field = /\{\s*(\w+)/.exec(query)![1] as keyof Collections | "_meta";
+
+      let data: unknown;
+      if (field === "_meta") {
+        data = { _meta: { block: { number: Number(indexedBlock) }, hasIndexingErrors: false } };
+      } else {
+        const lastId = (variables.lastId as string | undefined) ?? "";
+        const page = [...collections[field]]
+          .sort((a, b) => (a.id < b.id ? -1 : 1))
+          .filter((entity) => entity.id > lastId)
+          .slice(0, variables.first as number);
+        data = { [field]: page };
+      }
+      response.setHeader("content-type", "application/json");
+      response.end(JSON.stringify({ data }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return server;
+}
+
+describe("Subgraph audit", function () {
+  let server: Server | undefined;
+
+  afterEach(function () {
+    server?.close();
+    server = undefined;
+  });
+
+  async function deployedPairFixture() {
+    const publicClient = (await hre.viem.getPublicClient()) as PublicClient;
+    const [deployer, trader] = await hre.viem.getWalletClients();
+    const swapDeadline = await blockDeadline(publicClient, 3600);
+    // Earlier tests leave tokens of their own on the chain, the subgraph of this deployment starts after them
+    const startBlock = (await publicClient.getBlockNumber()) + 1n;
+
+    const deploymentDir = await mkdtemp(path.join(tmpdir(), "ignition-"));
+    const deployed = await deploySeed(hre, loadScenario(), deploymentDir, { DexModule: { swapDeadline } });
+    await rm(deploymentDir, { recursive: true, force: true });
+    const pair = await hre.viem.getContractAt("StarterKitERC20Dex", deployed["DexModule#contract_pair_instance"]);
+
+    return { publicClient, deployer, trader, pair, startBlock };
+  }
+
+  async function audit(publicClient: PublicClient, collections: Collections, indexedBlock: bigint, block?: number) {
+    server = await serveSubgraph(collections, indexedBlock);
+    const { port } = server.address() as AddressInfo;
+    return auditSubgraph(
+      publicClient,
+      createSubgraphClient(`http://127.0.0.1:${port}/subgraphs/name/starterkit`),
+      block,
+    );
+  }
+
+  it("finds no differences when the subgraph matches the chain", async function () {
+    const { publicClient, pair, startBlock } = await loadFixture(deployedPairFixture);
+    const block = await publicClient.getBlockNumber();
+
+    const report = await audit(publicClient, await indexChain(publicClient, [pair.address], startBlock, block), block);
+
+    expect(report.diffs).to.deep.equal([]);
+    expect(report.blockNumber).to.equal(Number(block));
+    // Two tokens and the LP token of the pair
+    expect(report.checked.ERC20Contract).to.equal(3);
+    expect(report.checked.ERC20DexPair).to.equal(1);
+    expect(report.checked.ERC20DexStake).to.be.greaterThan(0);
+  });
+
+  it("reports stakes that were not moved along with an LP transfer", async function () {
+    const { publicClient, deployer, trader, pair, startBlock } = await loadFixture(deployedPairFixture);
+    await pair.write.transfer([trader.account.address, parseEther("10")]);
+    const block = await publicClient.getBlockNumber();
+
+    // A subgraph that only moves stakes on mints and burns misses the transfer
+    const collections = await indexChain(publicClient, [pair.address], startBlock, block);
+    const stakeId = (account: Address) => `${pair.address.toLowerCase()}/${account.toLowerCase()}`;
+    const deployerStake = collections.erc20DexStakes.find((stake) => stake.id === stakeId(deployer.account.address))!;
+    deployerStake.valueExact = (BigInt(deployerStake.valueExact as string) + parseEther("10")).toString();
+    collections.erc20DexStakes = collections.erc20DexStakes.filter(
+      (stake) => stake.id !== stakeId(trader.account.address),
+    );
+
+    const report = await audit(publicClient, collections, block);
+
+    // The stakes still add up to the LP supply, only the stake of the sender gives the missed transfer away
+    expect(report.diffs).to.deep.equal([
+      {
+        entity: "ERC20DexStake",
+        id: stakeId(deployer.account.address),
+        field: "valueExact",
+        subgraph: deployerStake.valueExact,
+        chain: (await pair.read.balanceOf([deployer.account.address])).toString(),
+      },
+    ]);
+  });
+
+  it("flags a pair whose token balances drifted from its reserves", async function () {
+    const { publicClient, pair, startBlock } = await loadFixture(deployedPairFixture);
+    const [baseReserve, quoteReserve] = [await pair.read.getBaseTokenBalance(), await pair.read.getQuoteTokenBalance()];
+    await pair.write.emergencyWithdraw([await pair.read.baseToken(), parseEther("5")]);
+    const block = await publicClient.getBlockNumber();
+
+    const report = await audit(publicClient, await indexChain(publicClient, [pair.address], startBlock, block), block);
+
+    expect(report.diffs).to.have.lengthOf(1);
+    expect(report.diffs[0]).to.include({ entity: "ERC20DexPair", field: "verifyBalances", subgraph: null });
+    // The withdraw took 5 base tokens without updating the reserve
+    expect(report.diffs[0].detail).to.equal(
+      `holds ${
+        baseReserve - parseEther("5")
+      } base and ${quoteReserve} quote tokens against reserves of ${baseReserve} and ${quoteReserve}`,
+    );
+  });
+
+  it("reads the chain at the block the subgraph indexed", async function () {
+    const { publicClient, pair, startBlock } = await loadFixture(deployedPairFixture);
+    const block = await publicClient.getBlockNumber();
+    const collections = await indexChain(publicClient, [pair.address], startBlock, block);
+
+    // The chain moves on while the subgraph has not indexed the new blocks yet
+    await pair.write.transfer([getAddress("0x000000000000000000000000000000000000dEaD"), parseEther("1")]);
+    const report = await audit(publicClient, collections, block);
+
+    expect(report.diffs).to.deep.equal([]);
+    expect(report.blockNumber).to.equal(Number(block));
+  });
+
+  it("refuses to audit a block the subgraph has not indexed", async function () {
+    const { publicClient, pair, startBlock } = await loadFixture(deployedPairFixture);
+    const block = await publicClient.getBlockNumber();
+
+    await expect(
+      audit(publicClient, await indexChain(publicClient, [pair.address], startBlock, block), block, Number(block) + 1),
+    ).to.be.rejectedWith(`The subgraph has only indexed up to block ${block}`);
+  });
+});